@@ -15,9 +15,12 @@ let baseUrl = "";
 let externalBaseUrl = "";
 let databaseDir = "";
 let databasePath = "";
+let rateLimitedCalls = 0;
 let startWorker: (() => void) | null = null;
-let stopWorker: (() => void) | null = null;
+let stopWorker: ((drainTimeoutMs?: number) => Promise<void>) | null = null;
 let resetWorkerStateForTest: (() => void) | null = null;
+let promoteToAdmin: ((email: string) => Promise<unknown>) | null = null;
+let adminHeader: Record<string, string> = {};
 
 async function runPrismaDbPush(): Promise<void> {
   const prismaBin = path.join(
@@ -56,9 +59,9 @@ async function requestJson<T>(
 }
 
 async function registerUser(
-  label: string
+  label: string,
+  email = `${label}-${randomUUID()}@example.com`
 ): Promise<{ email: string; password: string; token: string }> {
-  const email = `${label}-${randomUUID()}@example.com`;
   const password = "password123";
 
   const signupResponse = await requestJson<{ success: boolean }>("/auth/signup", {
@@ -87,10 +90,21 @@ async function createJob(
   token: string,
   payload: {
     priority?: number;
+    queue?: string;
     method?: string;
     url?: string;
     headers?: string;
     body?: string | null;
+    maxAttempts?: number;
+    backoffStrategy?: string;
+    baseDelayMs?: number;
+    jitterMs?: number;
+    retryOn?: { statuses?: (number | string)[]; networkErrors?: boolean; timeouts?: boolean };
+    timeoutMs?: number;
+    rateLimitKey?: string;
+    callbackUrl?: string;
+    dependsOn?: string[];
+    onParentFailure?: string;
   }
 ): Promise<{ id: string; status: string }> {
   const response = await requestJson<{
@@ -100,6 +114,7 @@ async function createJob(
     method: "POST",
     headers: { Authorization: `Bearer ${token}` },
     body: JSON.stringify({
+      ...payload,
       priority: payload.priority ?? 0,
       method: payload.method ?? "GET",
       url: payload.url ?? `${externalBaseUrl}/success`,
@@ -114,6 +129,39 @@ async function createJob(
   return response.body.data.job;
 }
 
+async function getJob(
+  jobId: string,
+  token: string
+): Promise<{
+  id: string;
+  status: string;
+  attempts: number;
+  errorMessage: string | null;
+  failureKind: string | null;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+}> {
+  const response = await requestJson<{
+    success: boolean;
+    data: {
+      job: {
+        id: string;
+        status: string;
+        attempts: number;
+        errorMessage: string | null;
+        failureKind: string | null;
+        lockedBy: string | null;
+        lockedUntil: string | null;
+      };
+    };
+  }>(`/jobs/${jobId}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  expect(response.status).toBe(200);
+  return response.body.data.job;
+}
+
 async function waitForJobStatus(
   jobId: string,
   token: string,
@@ -148,10 +196,11 @@ describe("E2E API flow", () => {
 
     await runPrismaDbPush();
 
-    const [appModule, dbModule, workerModule] = await Promise.all([
+    const [appModule, dbModule, workerModule, usersModule] = await Promise.all([
       import("../../index.js"),
       import("../../lib/db.js"),
       import("../../lib/worker.js"),
+      import("../../lib/users.js"),
     ]);
 
     const { default: app } = appModule;
@@ -160,6 +209,7 @@ describe("E2E API flow", () => {
     startWorker = workerModule.startWorker;
     stopWorker = workerModule.stopWorker;
     resetWorkerStateForTest = workerModule.resetWorkerStateForTest;
+    promoteToAdmin = usersModule.promoteToAdmin;
 
     await connectDatabase();
 
@@ -188,6 +238,55 @@ describe("E2E API flow", () => {
         return;
       }
 
+      // Responds after the worker's per-job timeout in the timeout test
+      if (req.url === "/slow") {
+        setTimeout(() => {
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(JSON.stringify({ ok: true }));
+        }, 2000);
+        return;
+      }
+
+      if (req.url === "/customers") {
+        res.writeHead(201, { "content-type": "application/json" });
+        res.end(JSON.stringify({ id: "cus_123", tags: ["vip"], note: "line one\nline two" }));
+        return;
+      }
+
+      // Echoes the path and request body so templated requests can be inspected
+      if (req.url?.startsWith("/echo/")) {
+        let requestBody = "";
+        req.on("data", (chunk: Buffer) => {
+          requestBody += chunk.toString();
+        });
+        req.on("end", () => {
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(JSON.stringify({ path: req.url, body: requestBody }));
+        });
+        return;
+      }
+
+      if (req.url === "/bad-request") {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: false }));
+        return;
+      }
+
+      // Rate limits the first call with an immediate Retry-After, then succeeds
+      if (req.url === "/rate-limited") {
+        rateLimitedCalls += 1;
+
+        if (rateLimitedCalls === 1) {
+          res.writeHead(429, { "content-type": "application/json", "retry-after": "0" });
+          res.end(JSON.stringify({ ok: false }));
+          return;
+        }
+
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: true }));
+        return;
+      }
+
       if (req.url === "/fail") {
         res.writeHead(500, { "content-type": "application/json" });
         res.end(JSON.stringify({ ok: false }));
@@ -209,10 +308,15 @@ describe("E2E API flow", () => {
     }
 
     externalBaseUrl = `http://127.0.0.1:${externalAddress.port}`;
+
+    // Promoted the way `npm run admin:promote` does
+    const admin = await registerUser("admin");
+    await promoteToAdmin?.(admin.email);
+    adminHeader = { Authorization: `Bearer ${admin.token}` };
   });
 
   afterAll(async () => {
-    stopWorker?.();
+    await stopWorker?.();
 
     if (server) {
       await new Promise<void>((resolve, reject) => {
@@ -293,7 +397,7 @@ describe("E2E API flow", () => {
       success: boolean;
       data: { pendingCount: number; processingCount: number; failedCount: number };
     }>("/queue/status", {
-      headers: authHeader,
+      headers: adminHeader,
     });
 
     expect(queueStatusResponse.status).toBe(200);
@@ -410,10 +514,31 @@ describe("E2E API flow", () => {
 
     expect(userAJobs.status).toBe(200);
     expect(userAJobs.body.data.jobs.some((job) => job.id === otherJob.id)).toBe(false);
+
+    const forbiddenStatus = await requestJson<{ success: boolean; error: { message: string } }>(
+      "/queue/status",
+      {
+        headers: { Authorization: `Bearer ${userA.token}` },
+      }
+    );
+
+    expect(forbiddenStatus.status).toBe(403);
+    expect(forbiddenStatus.body.error.message).toBe("Requires the admin role");
+
+    const adminCancel = await requestJson<{ success: boolean; data: { job: { status: string } } }>(
+      `/admin/jobs/${otherJob.id}/cancel`,
+      {
+        method: "POST",
+        headers: adminHeader,
+      }
+    );
+
+    expect(adminCancel.status).toBe(200);
+    expect(adminCancel.body.data.job.status).toBe("cancelled");
   });
 
   it("processes jobs via the worker and supports status filters", { timeout: 30_000 }, async () => {
-    stopWorker?.();
+    await stopWorker?.();
     resetWorkerStateForTest?.();
 
     const user = await registerUser("worker");
@@ -438,7 +563,7 @@ describe("E2E API flow", () => {
       await waitForJobStatus(successJob.id, user.token, "completed");
       await waitForJobStatus(failedJob.id, user.token, "failed");
     } finally {
-      stopWorker?.();
+      await stopWorker?.();
     }
 
     const completedJobs = await requestJson<{
@@ -461,4 +586,680 @@ describe("E2E API flow", () => {
     expect(failedJobs.status).toBe(200);
     expect(failedJobs.body.data.jobs.some((job) => job.id === failedJob.id)).toBe(true);
   });
+
+  it("honours per-job maxAttempts and backoff", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("retry-policy");
+
+    const noRetryJob = await createJob(user.token, {
+      method: "GET",
+      url: `${externalBaseUrl}/fail`,
+      maxAttempts: 1,
+    });
+
+    const fastRetryJob = await createJob(user.token, {
+      method: "GET",
+      url: `${externalBaseUrl}/fail`,
+      maxAttempts: 4,
+      backoffStrategy: "fixed",
+      baseDelayMs: 100,
+      jitterMs: 0,
+    });
+
+    startWorker?.();
+
+    try {
+      await waitForJobStatus(noRetryJob.id, user.token, "failed");
+      await waitForJobStatus(fastRetryJob.id, user.token, "failed");
+    } finally {
+      await stopWorker?.();
+    }
+
+    expect((await getJob(noRetryJob.id, user.token)).attempts).toBe(1);
+    expect((await getJob(fastRetryJob.id, user.token)).attempts).toBe(4);
+
+    const history = await requestJson<{
+      data: {
+        attempts: {
+          attempt: number;
+          outcome: string;
+          responseStatus: number | null;
+          responseBody: string | null;
+          backoffMs: number | null;
+        }[];
+      };
+    }>(`/jobs/${fastRetryJob.id}/attempts`, {
+      headers: { Authorization: `Bearer ${user.token}` },
+    });
+
+    expect(history.status).toBe(200);
+    expect(history.body.data.attempts.map((attempt) => attempt.outcome)).toEqual([
+      "retrying",
+      "retrying",
+      "retrying",
+      "failed",
+    ]);
+    expect(history.body.data.attempts.map((attempt) => attempt.backoffMs)).toEqual([
+      100,
+      100,
+      100,
+      null,
+    ]);
+    expect(history.body.data.attempts.every((attempt) => attempt.responseStatus === 500)).toBe(
+      true
+    );
+    expect(history.body.data.attempts[0]!.responseBody).toBe(JSON.stringify({ ok: false }));
+  });
+
+  it(
+    "fails fast on non-retryable statuses and honours Retry-After",
+    { timeout: 30_000 },
+    async () => {
+      await stopWorker?.();
+      resetWorkerStateForTest?.();
+
+      const user = await registerUser("retry-on");
+
+      const badRequestJob = await createJob(user.token, {
+        method: "GET",
+        url: `${externalBaseUrl}/bad-request`,
+        maxAttempts: 5,
+        retryOn: { statuses: ["5xx", 429] },
+      });
+
+      // Our own backoff would wait a minute; the target's Retry-After: 0 wins
+      const rateLimitedJob = await createJob(user.token, {
+        method: "GET",
+        url: `${externalBaseUrl}/rate-limited`,
+        maxAttempts: 3,
+        backoffStrategy: "fixed",
+        baseDelayMs: 60_000,
+        jitterMs: 0,
+        retryOn: { statuses: [429] },
+      });
+
+      startWorker?.();
+
+      try {
+        await waitForJobStatus(badRequestJob.id, user.token, "failed");
+        await waitForJobStatus(rateLimitedJob.id, user.token, "completed");
+      } finally {
+        await stopWorker?.();
+      }
+
+      expect((await getJob(badRequestJob.id, user.token)).attempts).toBe(1);
+      expect((await getJob(rateLimitedJob.id, user.token)).attempts).toBe(2);
+    }
+  );
+
+  it("aborts requests after the per-job timeout", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("timeout");
+
+    const slowJob = await createJob(user.token, {
+      method: "GET",
+      url: `${externalBaseUrl}/slow`,
+      maxAttempts: 1,
+      timeoutMs: 200,
+    });
+
+    const failingJob = await createJob(user.token, {
+      method: "GET",
+      url: `${externalBaseUrl}/fail`,
+      maxAttempts: 1,
+    });
+
+    startWorker?.();
+
+    try {
+      await waitForJobStatus(slowJob.id, user.token, "failed");
+      await waitForJobStatus(failingJob.id, user.token, "failed");
+    } finally {
+      await stopWorker?.();
+    }
+
+    const timedOut = await getJob(slowJob.id, user.token);
+    expect(timedOut.failureKind).toBe("timeout");
+    expect(timedOut.errorMessage).toBe("Request timed out after 200ms");
+
+    expect((await getJob(failingJob.id, user.token)).failureKind).toBe("status");
+  });
+
+  it("queues a callback delivery when a job finishes", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("callbacks");
+
+    const completedJob = await createJob(user.token, {
+      url: `${externalBaseUrl}/success`,
+      callbackUrl: `${externalBaseUrl}/success`,
+    });
+
+    const failedJob = await createJob(user.token, {
+      url: `${externalBaseUrl}/fail`,
+      maxAttempts: 1,
+      callbackUrl: `${externalBaseUrl}/success`,
+    });
+
+    startWorker?.();
+
+    try {
+      await waitForJobStatus(completedJob.id, user.token, "completed");
+      await waitForJobStatus(failedJob.id, user.token, "failed");
+    } finally {
+      await stopWorker?.();
+    }
+
+    for (const [job, event] of [
+      [completedJob, "job.completed"],
+      [failedJob, "job.failed"],
+    ] as const) {
+      const response = await requestJson<{
+        data: { job: { callbacks: { event: string; status: string; payload: string }[] } };
+      }>(`/jobs/${job.id}`, { headers: { Authorization: `Bearer ${user.token}` } });
+
+      const callbacks = response.body.data.job.callbacks;
+      expect(callbacks).toHaveLength(1);
+      expect(callbacks[0]!.event).toBe(event);
+      expect(JSON.parse(callbacks[0]!.payload).job.id).toBe(job.id);
+    }
+  });
+
+  it("runs dependent jobs only after their parents complete", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("dependencies");
+
+    const parent = await createJob(user.token, { url: `${externalBaseUrl}/success`, priority: 10 });
+    // More urgent than its parent, so only the dependency can hold it back
+    const child = await createJob(user.token, {
+      url: `${externalBaseUrl}/success`,
+      priority: -10,
+      dependsOn: [parent.id],
+    });
+
+    const failingParent = await createJob(user.token, {
+      url: `${externalBaseUrl}/fail`,
+      maxAttempts: 1,
+    });
+    const cancelledChild = await createJob(user.token, {
+      dependsOn: [failingParent.id],
+      onParentFailure: "cancel",
+    });
+    const skippedGrandchild = await createJob(user.token, {
+      dependsOn: [cancelledChild.id],
+      onParentFailure: "skip",
+    });
+
+    startWorker?.();
+
+    try {
+      await waitForJobStatus(child.id, user.token, "completed");
+      await waitForJobStatus(failingParent.id, user.token, "failed");
+      await waitForJobStatus(cancelledChild.id, user.token, "cancelled");
+      await waitForJobStatus(skippedGrandchild.id, user.token, "skipped");
+    } finally {
+      await stopWorker?.();
+    }
+
+    const attemptsOf = async (jobId: string) => {
+      const response = await requestJson<{
+        data: { attempts: { startedAt: string; finishedAt: string }[] };
+      }>(`/jobs/${jobId}/attempts`, { headers: { Authorization: `Bearer ${user.token}` } });
+      return response.body.data.attempts;
+    };
+
+    const [parentAttempt] = await attemptsOf(parent.id);
+    const [childAttempt] = await attemptsOf(child.id);
+    expect(Date.parse(childAttempt!.startedAt)).toBeGreaterThanOrEqual(
+      Date.parse(parentAttempt!.finishedAt)
+    );
+
+    expect(await attemptsOf(cancelledChild.id)).toHaveLength(0);
+    expect((await getJob(skippedGrandchild.id, user.token)).failureKind).toBe("dependency");
+  });
+
+  it("renders parent results into dependent requests", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("templates");
+
+    const parent = await createJob(user.token, {
+      method: "POST",
+      url: `${externalBaseUrl}/customers`,
+    });
+    const child = await createJob(user.token, {
+      method: "POST",
+      url: `${externalBaseUrl}/echo/{{parents[0].id}}`,
+      body: JSON.stringify({ customerId: "{{parents[0].id}}", tag: "{{parents[0].tags[0]}}" }),
+      dependsOn: [parent.id],
+    });
+    const brokenChild = await createJob(user.token, {
+      method: "POST",
+      url: `${externalBaseUrl}/echo/{{parents[0].email}}`,
+      maxAttempts: 3,
+      dependsOn: [parent.id],
+    });
+    const headerChild = await createJob(user.token, {
+      method: "POST",
+      url: `${externalBaseUrl}/echo/note`,
+      headers: JSON.stringify({ "x-note": "{{parents[0].note}}" }),
+      maxAttempts: 3,
+      dependsOn: [parent.id],
+    });
+
+    startWorker?.();
+
+    try {
+      await waitForJobStatus(child.id, user.token, "completed");
+      await waitForJobStatus(brokenChild.id, user.token, "failed");
+      await waitForJobStatus(headerChild.id, user.token, "failed");
+    } finally {
+      await stopWorker?.();
+    }
+
+    const response = await requestJson<{ data: { job: { result: string } } }>(`/jobs/${child.id}`, {
+      headers: { Authorization: `Bearer ${user.token}` },
+    });
+    const echoed = JSON.parse(response.body.data.job.result);
+
+    expect(echoed.path).toBe("/echo/cus_123");
+    expect(JSON.parse(echoed.body)).toEqual({ customerId: "cus_123", tag: "vip" });
+
+    const broken = await getJob(brokenChild.id, user.token);
+    expect(broken.failureKind).toBe("template");
+    expect(broken.attempts).toBe(1);
+
+    // A newline in a header value would make fetch throw, which is not a network failure
+    const headerFailure = await getJob(headerChild.id, user.token);
+    expect(headerFailure.failureKind).toBe("template");
+    expect(headerFailure.attempts).toBe(1);
+  });
+
+  it("keeps paused queues from blocking other queues", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("queues");
+    const queueName = `bulk-${randomUUID().slice(0, 8)}`;
+
+    const createQueueResponse = await requestJson<{ success: boolean }>("/queues", {
+      method: "POST",
+      headers: adminHeader,
+      body: JSON.stringify({ name: queueName, concurrency: 1, paused: true }),
+    });
+    expect(createQueueResponse.status).toBe(201);
+
+    const bulkJobs = [
+      await createJob(user.token, { queue: queueName, priority: -10 }),
+      await createJob(user.token, { queue: queueName, priority: -10 }),
+    ];
+    const defaultJob = await createJob(user.token, {});
+
+    startWorker?.();
+
+    try {
+      await waitForJobStatus(defaultJob.id, user.token, "completed");
+      expect((await getJob(bulkJobs[0]!.id, user.token)).status).toBe("pending");
+
+      const resumeResponse = await requestJson<{ success: boolean }>(
+        `/queues/${queueName}/resume`,
+        { method: "POST", headers: adminHeader }
+      );
+      expect(resumeResponse.status).toBe(200);
+
+      for (const job of bulkJobs) {
+        await waitForJobStatus(job.id, user.token, "completed");
+      }
+    } finally {
+      await stopWorker?.();
+    }
+
+    const statusResponse = await requestJson<{
+      data: { queues: { name: string; completedToday: number; pendingCount: number }[] };
+    }>("/queue/status", { headers: adminHeader });
+
+    expect(statusResponse.body.data.queues).toContainEqual(
+      expect.objectContaining({ name: queueName, completedToday: 2, pendingCount: 0 })
+    );
+  });
+
+  it("spaces out requests to a rate-limited destination", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("rate-limits");
+    const authHeader = { Authorization: `Bearer ${user.token}` };
+    const rateLimitKey = `partner-${randomUUID().slice(0, 8)}`;
+
+    const createRateLimitResponse = await requestJson<{ success: boolean }>("/rate-limits", {
+      method: "POST",
+      headers: adminHeader,
+      body: JSON.stringify({ key: rateLimitKey, limit: 1, intervalMs: 1000 }),
+    });
+    expect(createRateLimitResponse.status).toBe(201);
+
+    const jobs = [
+      await createJob(user.token, { rateLimitKey }),
+      await createJob(user.token, { rateLimitKey }),
+      await createJob(user.token, { rateLimitKey }),
+    ];
+
+    startWorker?.();
+
+    try {
+      for (const job of jobs) {
+        await waitForJobStatus(job.id, user.token, "completed");
+      }
+    } finally {
+      await stopWorker?.();
+    }
+
+    const startTimes: number[] = [];
+
+    for (const job of jobs) {
+      const response = await requestJson<{ data: { attempts: { startedAt: string }[] } }>(
+        `/jobs/${job.id}/attempts`,
+        { headers: authHeader }
+      );
+      // Held back jobs stay pending instead of burning attempts
+      expect(response.body.data.attempts).toHaveLength(1);
+      startTimes.push(Date.parse(response.body.data.attempts[0]!.startedAt));
+    }
+
+    startTimes.sort((a, b) => a - b);
+    expect(startTimes[1]! - startTimes[0]!).toBeGreaterThanOrEqual(900);
+    expect(startTimes[2]! - startTimes[1]!).toBeGreaterThanOrEqual(900);
+    // The worker wakes up as the bucket refills instead of backing off while idle
+    expect(startTimes[1]! - startTimes[0]!).toBeLessThan(2000);
+    expect(startTimes[2]! - startTimes[1]!).toBeLessThan(2000);
+  });
+
+  it(
+    "stops dispatching to a failing host until its breaker is reset",
+    { timeout: 30_000 },
+    async () => {
+      await stopWorker?.();
+      resetWorkerStateForTest?.();
+
+      const user = await registerUser("circuit");
+      const host = new URL(externalBaseUrl).host;
+
+      const failingJobs = await Promise.all(
+        Array.from({ length: 5 }, () =>
+          createJob(user.token, { url: `${externalBaseUrl}/fail`, maxAttempts: 1 })
+        )
+      );
+
+      startWorker?.();
+
+      try {
+        for (const job of failingJobs) {
+          await waitForJobStatus(job.id, user.token, "failed");
+        }
+
+        const heldJob = await createJob(user.token, { url: `${externalBaseUrl}/success` });
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+        expect((await getJob(heldJob.id, user.token)).attempts).toBe(0);
+
+        const statusResponse = await requestJson<{
+          data: { circuitBreakers: { host: string; state: string }[] };
+        }>("/queue/status", { headers: adminHeader });
+        expect(statusResponse.body.data.circuitBreakers).toContainEqual(
+          expect.objectContaining({ host, state: "open" })
+        );
+
+        const resetResponse = await requestJson<{ success: boolean }>(
+          `/queue/circuit-breakers/${encodeURIComponent(host)}/reset`,
+          { method: "POST", headers: adminHeader }
+        );
+        expect(resetResponse.status).toBe(200);
+
+        await waitForJobStatus(heldJob.id, user.token, "completed");
+      } finally {
+        await stopWorker?.();
+      }
+    }
+  );
+
+  it("registers the worker and releases job leases", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("leases");
+    const job = await createJob(user.token, { url: `${externalBaseUrl}/success` });
+
+    startWorker?.();
+
+    try {
+      await waitForJobStatus(job.id, user.token, "completed");
+
+      const statusResponse = await requestJson<{
+        data: { workerId: string; workers: { id: string }[] };
+      }>("/queue/status", { headers: adminHeader });
+      expect(statusResponse.body.data.workers).toContainEqual(
+        expect.objectContaining({ id: statusResponse.body.data.workerId })
+      );
+    } finally {
+      await stopWorker?.();
+    }
+
+    const completed = await getJob(job.id, user.token);
+    expect(completed.lockedBy).toBeNull();
+    expect(completed.lockedUntil).toBeNull();
+  });
+
+  it("drains running jobs when the worker stops", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("drain");
+    const job = await createJob(user.token, { url: `${externalBaseUrl}/slow` });
+
+    startWorker?.();
+    await waitForJobStatus(job.id, user.token, "processing");
+    await stopWorker?.();
+
+    expect(await getJob(job.id, user.token)).toMatchObject({
+      status: "completed",
+      attempts: 1,
+      lockedBy: null,
+    });
+  });
+
+  it("requeues jobs still running after the drain timeout", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("requeue");
+    const job = await createJob(user.token, { url: `${externalBaseUrl}/slow` });
+
+    startWorker?.();
+    await waitForJobStatus(job.id, user.token, "processing");
+    await stopWorker?.(100);
+
+    expect(await getJob(job.id, user.token)).toMatchObject({
+      status: "pending",
+      attempts: 0,
+      lockedBy: null,
+    });
+
+    const attemptsResponse = await requestJson<{ data: { attempts: unknown[] } }>(
+      `/jobs/${job.id}/attempts`,
+      { headers: { Authorization: `Bearer ${user.token}` } }
+    );
+    expect(attemptsResponse.body.data.attempts).toEqual([]);
+  });
+
+  it("starts new jobs without waiting for the next poll", { timeout: 30_000 }, async () => {
+    await stopWorker?.();
+    resetWorkerStateForTest?.();
+
+    const user = await registerUser("wakeup");
+
+    startWorker?.();
+
+    try {
+      // Let the idle worker back off its polling first
+      await new Promise((resolve) => setTimeout(resolve, 4000));
+
+      const job = await createJob(user.token, { url: `${externalBaseUrl}/success` });
+      await waitForJobStatus(job.id, user.token, "completed");
+
+      const response = await requestJson<{
+        data: { attempts: { startedAt: string }[] };
+      }>(`/jobs/${job.id}/attempts`, { headers: { Authorization: `Bearer ${user.token}` } });
+      const jobResponse = await requestJson<{ data: { job: { createdAt: string } } }>(
+        `/jobs/${job.id}`,
+        { headers: { Authorization: `Bearer ${user.token}` } }
+      );
+
+      const startedAt = Date.parse(response.body.data.attempts[0]!.startedAt);
+      expect(startedAt - Date.parse(jobResponse.body.data.job.createdAt)).toBeLessThan(1000);
+    } finally {
+      await stopWorker?.();
+    }
+  });
+
+  it(
+    "pauses, resumes and ticks the worker through the admin API",
+    { timeout: 30_000 },
+    async () => {
+      await stopWorker?.();
+      resetWorkerStateForTest?.();
+
+      const user = await registerUser("admin-worker");
+
+      startWorker?.();
+
+      try {
+        const pauseResponse = await requestJson<{ success: boolean }>("/admin/worker/pause", {
+          method: "POST",
+          headers: adminHeader,
+        });
+        expect(pauseResponse.status).toBe(200);
+
+        const job = await createJob(user.token, { url: `${externalBaseUrl}/success` });
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+        expect((await getJob(job.id, user.token)).status).toBe("pending");
+
+        const pausedTickResponse = await requestJson<{ success: boolean }>("/admin/worker/tick", {
+          method: "POST",
+          headers: adminHeader,
+        });
+        expect(pausedTickResponse.status).toBe(409);
+
+        const resumeResponse = await requestJson<{ success: boolean }>("/admin/worker/resume", {
+          method: "POST",
+          headers: adminHeader,
+        });
+        expect(resumeResponse.status).toBe(200);
+        await waitForJobStatus(job.id, user.token, "completed");
+
+        const tickResponse = await requestJson<{ data: { claimed: number } }>(
+          "/admin/worker/tick",
+          { method: "POST", headers: adminHeader }
+        );
+        expect(tickResponse.status).toBe(200);
+        expect(tickResponse.body.data.claimed).toEqual(expect.any(Number));
+      } finally {
+        await stopWorker?.();
+      }
+    }
+  );
+
+  it("lets machine clients enqueue and read jobs with an API key", async () => {
+    const user = await registerUser("api-key");
+
+    const createKeyResponse = await requestJson<{ data: { key: string; apiKey: { id: string } } }>(
+      "/auth/api-keys",
+      {
+        method: "POST",
+        headers: { Authorization: `Bearer ${user.token}` },
+        body: JSON.stringify({ name: "e2e bot" }),
+      }
+    );
+    expect(createKeyResponse.status).toBe(201);
+
+    const keyHeader = { Authorization: `ApiKey ${createKeyResponse.body.data.key}` };
+
+    const createJobResponse = await requestJson<{ data: { job: { id: string } } }>("/jobs", {
+      method: "POST",
+      headers: keyHeader,
+      body: JSON.stringify({ method: "GET", url: `${externalBaseUrl}/success` }),
+    });
+    expect(createJobResponse.status).toBe(201);
+
+    const getJobResponse = await requestJson<{ data: { job: { id: string } } }>(
+      `/jobs/${createJobResponse.body.data.job.id}`,
+      { headers: { Authorization: `Bearer ${user.token}` } }
+    );
+    expect(getJobResponse.status).toBe(200);
+
+    const revokeResponse = await requestJson<{ success: boolean }>(
+      `/auth/api-keys/${createKeyResponse.body.data.apiKey.id}`,
+      { method: "DELETE", headers: { Authorization: `Bearer ${user.token}` } }
+    );
+    expect(revokeResponse.status).toBe(200);
+
+    const revokedResponse = await requestJson<{ success: boolean }>("/jobs", {
+      headers: keyHeader,
+    });
+    expect(revokedResponse.status).toBe(401);
+  });
+
+  it("refreshes access tokens and signs out", async () => {
+    const user = await registerUser("session");
+
+    const signinResponse = await requestJson<{ data: { refreshToken: string } }>("/auth/signin", {
+      method: "POST",
+      body: JSON.stringify({ email: user.email, password: user.password }),
+    });
+    expect(signinResponse.status).toBe(200);
+
+    const refreshResponse = await requestJson<{ data: { token: string; refreshToken: string } }>(
+      "/auth/refresh",
+      {
+        method: "POST",
+        body: JSON.stringify({ refreshToken: signinResponse.body.data.refreshToken }),
+      }
+    );
+    expect(refreshResponse.status).toBe(200);
+
+    const refreshedHeader = { Authorization: `Bearer ${refreshResponse.body.data.token}` };
+    expect((await requestJson("/jobs", { headers: refreshedHeader })).status).toBe(200);
+
+    const signoutResponse = await requestJson<{ data: { revokedSessions: number } }>(
+      "/auth/signout",
+      { method: "POST", headers: refreshedHeader, body: JSON.stringify({ all: true }) }
+    );
+    expect(signoutResponse.status).toBe(200);
+    expect(signoutResponse.body.data.revokedSessions).toBe(2);
+
+    expect((await requestJson("/jobs", { headers: refreshedHeader })).status).toBe(401);
+    expect(
+      (await requestJson("/jobs", { headers: { Authorization: `Bearer ${user.token}` } })).status
+    ).toBe(401);
+  });
+
+  it("reports quota usage after creating jobs", async () => {
+    const user = await registerUser("usage");
+    const authHeader = { Authorization: `Bearer ${user.token}` };
+
+    await createJob(user.token, { method: "GET", url: `${externalBaseUrl}/success` });
+
+    const usageResponse = await requestJson<{
+      data: { usage: { jobsToday: { used: number; limit: number } } };
+    }>("/me/usage", { headers: authHeader });
+    expect(usageResponse.status).toBe(200);
+    expect(usageResponse.body.data.usage.jobsToday.used).toBe(1);
+    expect(usageResponse.body.data.usage.jobsToday.limit).toBeGreaterThan(0);
+  });
 });
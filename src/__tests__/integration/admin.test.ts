@@ -0,0 +1,389 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { config } from "../../lib/config.js";
+import { generateToken } from "../../lib/jwt.js";
+import { resetWorkerStateForTest } from "../../lib/worker.js";
+import { prisma } from "../../lib/db.js";
+import { createTestJob, createTestUser } from "../setup.js";
+
+describe("Worker admin routes", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser({ role: "admin" });
+    token = generateToken(user.id, "admin");
+  });
+
+  afterEach(() => {
+    resetWorkerStateForTest();
+  });
+
+  describe("GET /admin/worker", () => {
+    it("should return the worker's runtime settings", async () => {
+      const response = await request(app)
+        .get("/admin/worker")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.worker).toMatchObject({
+        workerId: expect.any(String),
+        running: false,
+        paused: false,
+        maxConcurrent: config.workers.maxConcurrent,
+        currentWorkers: 0,
+      });
+    });
+
+    it("should require authentication", async () => {
+      const response = await request(app).get("/admin/worker");
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should require the admin role", async () => {
+      const user = await createTestUser({ email: "member@example.com" });
+      const response = await request(app)
+        .get("/admin/worker")
+        .set("Authorization", `Bearer ${generateToken(user.id)}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.message).toBe("Requires the admin role");
+    });
+
+    it("should go by the user's current role rather than the token", async () => {
+      const user = await createTestUser({ email: "member@example.com" });
+      const response = await request(app)
+        .get("/admin/worker")
+        .set("Authorization", `Bearer ${generateToken(user.id, "admin")}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should let a demoted admin's token go right away", async () => {
+      const user = await createTestUser({ email: "former@example.com", role: "admin" });
+      const formerToken = generateToken(user.id, "admin");
+
+      await request(app)
+        .patch(`/admin/users/${user.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: "user" });
+      const response = await request(app)
+        .get("/admin/worker")
+        .set("Authorization", `Bearer ${formerToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("PATCH /admin/worker", () => {
+    it("should change the concurrency", async () => {
+      const response = await request(app)
+        .patch("/admin/worker")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ maxConcurrent: 12 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.worker.maxConcurrent).toBe(12);
+
+      const statusResponse = await request(app)
+        .get("/queue/status")
+        .set("Authorization", `Bearer ${token}`);
+      expect(statusResponse.body.data.maxConcurrent).toBe(12);
+    });
+
+    it("should reject an invalid concurrency", async () => {
+      const response = await request(app)
+        .patch("/admin/worker")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ maxConcurrent: 0 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /admin/worker/pause and /resume", () => {
+    it("should pause and resume the worker", async () => {
+      const pauseResponse = await request(app)
+        .post("/admin/worker/pause")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(pauseResponse.status).toBe(200);
+      expect(pauseResponse.body.data.worker.paused).toBe(true);
+
+      const resumeResponse = await request(app)
+        .post("/admin/worker/resume")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(resumeResponse.status).toBe(200);
+      expect(resumeResponse.body.data.worker.paused).toBe(false);
+    });
+
+    it("should return 409 when the worker is already in that state", async () => {
+      const resumeResponse = await request(app)
+        .post("/admin/worker/resume")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(resumeResponse.status).toBe(409);
+
+      await request(app).post("/admin/worker/pause").set("Authorization", `Bearer ${token}`);
+      const pauseResponse = await request(app)
+        .post("/admin/worker/pause")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(pauseResponse.status).toBe(409);
+    });
+  });
+
+  describe("POST /admin/worker/tick", () => {
+    it("should return 409 while the worker is not running", async () => {
+      const response = await request(app)
+        .post("/admin/worker/tick")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toBe("Worker is not running");
+    });
+  });
+
+  it("should require the admin role for every worker control", async () => {
+    const user = await createTestUser({ email: "member@example.com" });
+    const memberToken = generateToken(user.id);
+    const controls = [
+      request(app).patch("/admin/worker").send({ maxConcurrent: 1 }),
+      request(app).post("/admin/worker/pause"),
+      request(app).post("/admin/worker/resume"),
+      request(app).post("/admin/worker/tick"),
+    ];
+
+    for (const control of controls) {
+      const response = await control.set("Authorization", `Bearer ${memberToken}`);
+
+      expect(response.status).toBe(403);
+    }
+
+    expect(
+      (await request(app).get("/admin/worker").set("Authorization", `Bearer ${token}`)).body.data
+        .worker
+    ).toMatchObject({ paused: false, maxConcurrent: config.workers.maxConcurrent });
+  });
+});
+
+describe("Job admin routes", () => {
+  let token: string;
+  let aliceId: string;
+  let bobId: string;
+
+  beforeEach(async () => {
+    const admin = await createTestUser({ email: "admin@example.com", role: "admin" });
+    token = generateToken(admin.id, "admin");
+    aliceId = (await createTestUser({ email: "alice@example.com" })).id;
+    bobId = (await createTestUser({ email: "bob@example.com" })).id;
+  });
+
+  describe("GET /admin/jobs", () => {
+    it("should list every user's jobs", async () => {
+      await createTestJob(aliceId);
+      await createTestJob(bobId, { status: "failed" });
+
+      const response = await request(app)
+        .get("/admin/jobs")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.count).toBe(2);
+      expect(response.body.data.nextCursor).toBeNull();
+    });
+
+    it("should filter by user and status", async () => {
+      await createTestJob(aliceId);
+      const failed = await createTestJob(aliceId, { status: "failed" });
+      await createTestJob(bobId, { status: "failed" });
+
+      const response = await request(app)
+        .get(`/admin/jobs?userId=${aliceId}&status=failed`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.jobs.map((job: { id: string }) => job.id)).toEqual([failed.id]);
+    });
+
+    it("should reject an invalid user ID", async () => {
+      const response = await request(app)
+        .get("/admin/jobs?userId=nope")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /admin/jobs/:id/retry", () => {
+    it("should retry another user's failed job", async () => {
+      const job = await createTestJob(aliceId, { status: "failed", attempts: 3 });
+
+      const response = await request(app)
+        .post(`/admin/jobs/${job.id}/retry`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.job).toMatchObject({
+        status: "pending",
+        attempts: 0,
+        retries: 1,
+        userId: aliceId,
+      });
+    });
+
+    it("should return 409 for a job that has not failed", async () => {
+      const job = await createTestJob(aliceId, { status: "completed" });
+
+      const response = await request(app)
+        .post(`/admin/jobs/${job.id}/retry`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toBe("Cannot retry a completed job");
+    });
+
+    it("should return 404 for an unknown job", async () => {
+      const response = await request(app)
+        .post("/admin/jobs/00000000-0000-0000-0000-000000000000/retry")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /admin/jobs/:id/cancel", () => {
+    it("should cancel another user's pending job", async () => {
+      const job = await createTestJob(bobId);
+
+      const response = await request(app)
+        .post(`/admin/jobs/${job.id}/cancel`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.job.status).toBe("cancelled");
+    });
+
+    it("should return 409 for a job that is not pending", async () => {
+      const job = await createTestJob(bobId, { status: "processing" });
+
+      const response = await request(app)
+        .post(`/admin/jobs/${job.id}/cancel`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toBe("Cannot cancel a job that is currently processing");
+    });
+  });
+});
+
+describe("User admin routes", () => {
+  let token: string;
+  let adminId: string;
+
+  beforeEach(async () => {
+    const admin = await createTestUser({ email: "admin@example.com", role: "admin" });
+    adminId = admin.id;
+    token = generateToken(admin.id, "admin");
+  });
+
+  describe("GET /admin/users", () => {
+    it("should list users without their passwords", async () => {
+      await createTestUser({ email: "alice@example.com" });
+
+      const response = await request(app)
+        .get("/admin/users")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.count).toBe(2);
+      expect(response.body.data.users[1]).toEqual({
+        id: expect.any(String),
+        name: "Test User",
+        email: "alice@example.com",
+        role: "user",
+        createdAt: expect.any(String),
+      });
+    });
+  });
+
+  describe("PATCH /admin/users/:id", () => {
+    it("should change a user's role", async () => {
+      const user = await createTestUser({ email: "alice@example.com" });
+
+      const response = await request(app)
+        .patch(`/admin/users/${user.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: "admin" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.user.role).toBe("admin");
+    });
+
+    it("should reject an unknown role", async () => {
+      const user = await createTestUser({ email: "alice@example.com" });
+
+      const response = await request(app)
+        .patch(`/admin/users/${user.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: "owner" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not let an admin change their own role", async () => {
+      const response = await request(app)
+        .patch(`/admin/users/${adminId}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: "user" });
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const response = await request(app)
+        .patch("/admin/users/00000000-0000-0000-0000-000000000000")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: "admin" });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.message).toBe("User not found");
+    });
+  });
+
+  describe("DELETE /admin/users/:id", () => {
+    it("should delete a user and their jobs", async () => {
+      const user = await createTestUser({ email: "alice@example.com" });
+      await createTestJob(user.id, { status: "completed" });
+
+      const response = await request(app)
+        .delete(`/admin/users/${user.id}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(await prisma.user.count({ where: { id: user.id } })).toBe(0);
+      expect(await prisma.job.count({ where: { userId: user.id } })).toBe(0);
+    });
+
+    it("should not delete a user with processing jobs", async () => {
+      const user = await createTestUser({ email: "alice@example.com" });
+      await createTestJob(user.id, { status: "processing" });
+
+      const response = await request(app)
+        .delete(`/admin/users/${user.id}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should not let an admin delete themselves", async () => {
+      const response = await request(app)
+        .delete(`/admin/users/${adminId}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
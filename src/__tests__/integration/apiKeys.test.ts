@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { generateApiKey } from "../../lib/apiKeys.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestJob, createTestUser } from "../setup.js";
+
+const ping = { method: "GET", url: "https://api.example.com/ping" };
+
+describe("API Keys Routes", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(user.id);
+  });
+
+  function api(method: "get" | "post" | "patch" | "delete", path: string): request.Test {
+    return request(app)[method](path).set("Authorization", `Bearer ${token}`);
+  }
+
+  async function createKey(body: object = { name: "deploy bot" }): Promise<{
+    id: string;
+    key: string;
+  }> {
+    const response = await api("post", "/auth/api-keys").send(body);
+    expect(response.status).toBe(201);
+    return { id: response.body.data.apiKey.id, key: response.body.data.key };
+  }
+
+  describe("POST /auth/api-keys", () => {
+    it("should return the key once and store only its hash", async () => {
+      const response = await api("post", "/auth/api-keys").send({ name: "deploy bot" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.key).toMatch(/^qw_/);
+      expect(response.body.data.apiKey).toEqual({
+        id: expect.any(String),
+        name: "deploy bot",
+        prefix: response.body.data.key.slice(0, 11),
+        scopes: ["jobs:read", "jobs:write"],
+        expiresAt: null,
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: expect.any(String),
+      });
+
+      const stored = await prisma.apiKey.findUniqueOrThrow({
+        where: { id: response.body.data.apiKey.id },
+        omit: { keyHash: false },
+      });
+      expect(stored.keyHash).not.toContain(response.body.data.key);
+    });
+
+    it("should reject unknown scopes", async () => {
+      const response = await api("post", "/auth/api-keys").send({
+        name: "bot",
+        scopes: ["queues:write"],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should require authentication", async () => {
+      const response = await request(app).post("/auth/api-keys").send({ name: "bot" });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("GET /auth/api-keys", () => {
+    it("should list only the user's keys without the key itself", async () => {
+      await createKey();
+      const other = await createTestUser({ email: "other@example.com" });
+      const { prefix, keyHash } = generateApiKey();
+      await prisma.apiKey.create({
+        data: { name: "theirs", prefix, keyHash, scopes: '["jobs:read"]', userId: other.id },
+      });
+
+      const response = await api("get", "/auth/api-keys");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.count).toBe(1);
+      expect(response.body.data.apiKeys[0].name).toBe("deploy bot");
+      expect(response.body.data.apiKeys[0].key).toBeUndefined();
+      expect(response.body.data.apiKeys[0].keyHash).toBeUndefined();
+    });
+  });
+
+  describe("PATCH /auth/api-keys/:id", () => {
+    it("should rename a key", async () => {
+      const { id } = await createKey();
+
+      const response = await api("patch", `/auth/api-keys/${id}`).send({ name: "ci" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.apiKey.name).toBe("ci");
+    });
+
+    it("should return 404 for another user's key", async () => {
+      const { id } = await createKey();
+      const other = await createTestUser({ email: "other@example.com" });
+
+      const response = await request(app)
+        .patch(`/auth/api-keys/${id}`)
+        .set("Authorization", `Bearer ${generateToken(other.id)}`)
+        .send({ name: "mine now" });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.message).toBe("API key not found");
+    });
+  });
+
+  describe("DELETE /auth/api-keys/:id", () => {
+    it("should revoke a key so it no longer authenticates", async () => {
+      const { id, key } = await createKey();
+
+      const response = await api("delete", `/auth/api-keys/${id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.apiKey.revokedAt).toEqual(expect.any(String));
+
+      const jobsResponse = await request(app).get("/jobs").set("Authorization", `ApiKey ${key}`);
+      expect(jobsResponse.status).toBe(401);
+      expect(jobsResponse.body.error.message).toBe("Invalid, expired or revoked API key");
+
+      expect((await api("delete", `/auth/api-keys/${id}`)).status).toBe(409);
+    });
+  });
+
+  describe("Authorization: ApiKey", () => {
+    it("should act as the key's owner and record the use", async () => {
+      const { id, key } = await createKey();
+      const job = await createTestJob(userId);
+
+      const response = await request(app).get("/jobs").set("Authorization", `ApiKey ${key}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.jobs.map((listed: { id: string }) => listed.id)).toEqual([job.id]);
+
+      const stored = await prisma.apiKey.findUniqueOrThrow({ where: { id } });
+      expect(stored.lastUsedAt).not.toBeNull();
+    });
+
+    it("should enforce the key's scopes", async () => {
+      const { key } = await createKey({ name: "reader", scopes: ["jobs:read"] });
+
+      expect((await request(app).get("/jobs").set("Authorization", `ApiKey ${key}`)).status).toBe(
+        200
+      );
+
+      const createResponse = await request(app)
+        .post("/jobs")
+        .set("Authorization", `ApiKey ${key}`)
+        .send(ping);
+      expect(createResponse.status).toBe(403);
+      expect(createResponse.body.error.message).toBe("API key lacks the jobs:write scope");
+    });
+
+    it("should reject an expired key", async () => {
+      const { id, key } = await createKey();
+      await prisma.apiKey.update({ where: { id }, data: { expiresAt: new Date(Date.now() - 1) } });
+
+      const response = await request(app).get("/jobs").set("Authorization", `ApiKey ${key}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject an unknown key", async () => {
+      const response = await request(app).get("/jobs").set("Authorization", "ApiKey qw_nope");
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should not manage keys or reach admin routes", async () => {
+      const admin = await createTestUser({ email: "admin@example.com", role: "admin" });
+      token = generateToken(admin.id, "admin");
+      const { key } = await createKey();
+
+      const keysResponse = await request(app)
+        .get("/auth/api-keys")
+        .set("Authorization", `ApiKey ${key}`);
+      expect(keysResponse.status).toBe(403);
+
+      const statusResponse = await request(app)
+        .get("/queue/status")
+        .set("Authorization", `ApiKey ${key}`);
+      expect(statusResponse.status).toBe(403);
+    });
+  });
+});
@@ -1,6 +1,10 @@
+import { randomUUID } from "node:crypto";
 import { describe, it, expect } from "vitest";
 import request from "supertest";
 import app from "../../index.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken, verifyToken } from "../../lib/jwt.js";
+import { rotateRefreshToken } from "../../lib/sessions.js";
 import { createTestUser, TEST_USER_PASSWORD } from "../setup.js";
 
 describe("POST /auth/signup", () => {
@@ -17,6 +21,7 @@ describe("POST /auth/signup", () => {
     expect(response.body.data.user.name).toBe("Test User");
     expect(response.body.data.user.id).toBeDefined();
     expect(response.body.data.user.createdAt).toBeDefined();
+    expect(response.body.data.user.role).toBe("user");
     // Password should not be returned
     expect(response.body.data.user.password).toBeUndefined();
   });
@@ -125,3 +130,180 @@ describe("POST /auth/signin", () => {
     expect(response.body.success).toBe(false);
   });
 });
+
+describe("sessions", () => {
+  async function signIn(): Promise<{ token: string; refreshToken: string }> {
+    await createTestUser({ email: "session@example.com" });
+
+    const response = await request(app).post("/auth/signin").send({
+      email: "session@example.com",
+      password: TEST_USER_PASSWORD,
+    });
+
+    expect(response.status).toBe(200);
+    return response.body.data;
+  }
+
+  describe("POST /auth/signin", () => {
+    it("should issue a refresh token tied to a new session", async () => {
+      const { token, refreshToken } = await signIn();
+
+      const sessionId = verifyToken(token).sessionId;
+      expect(sessionId).toEqual(expect.any(String));
+      expect(refreshToken).toEqual(expect.any(String));
+
+      const session = await prisma.session.findUniqueOrThrow({
+        where: { id: sessionId! },
+        omit: { refreshTokenHash: false },
+      });
+      expect(session.refreshTokenHash).not.toBe(refreshToken);
+    });
+  });
+
+  describe("POST /auth/refresh", () => {
+    it("should rotate the refresh token", async () => {
+      const { token, refreshToken } = await signIn();
+
+      const response = await request(app).post("/auth/refresh").send({ refreshToken });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+      expect(verifyToken(response.body.data.token).sessionId).toBe(verifyToken(token).sessionId);
+
+      const reused = await request(app).post("/auth/refresh").send({ refreshToken });
+      expect(reused.status).toBe(401);
+      expect(reused.body.error.message).toBe("Invalid or expired refresh token");
+    });
+
+    it("should revoke the session when a used refresh token comes back", async () => {
+      const { token, refreshToken } = await signIn();
+      const rotated = await request(app).post("/auth/refresh").send({ refreshToken });
+
+      const reused = await request(app).post("/auth/refresh").send({ refreshToken });
+      expect(reused.status).toBe(401);
+
+      const next = await request(app)
+        .post("/auth/refresh")
+        .send({ refreshToken: rotated.body.data.refreshToken });
+      expect(next.status).toBe(401);
+
+      const access = await request(app)
+        .get("/jobs")
+        .set("Authorization", `Bearer ${rotated.body.data.token}`);
+      expect(access.status).toBe(401);
+      expect(
+        (await prisma.session.findUniqueOrThrow({ where: { id: verifyToken(token).sessionId! } }))
+          .revokedAt
+      ).not.toBeNull();
+    });
+
+    it("should reject malformed and unknown refresh tokens", async () => {
+      await signIn();
+
+      expect((await request(app).post("/auth/refresh").send({ refreshToken: "nope" })).status).toBe(
+        401
+      );
+      expect(
+        (
+          await request(app)
+            .post("/auth/refresh")
+            .send({ refreshToken: `${randomUUID()}.secret` })
+        ).status
+      ).toBe(401);
+    });
+
+    it("should pick up role changes", async () => {
+      const { refreshToken } = await signIn();
+      await prisma.user.update({
+        where: { email: "session@example.com" },
+        data: { role: "admin" },
+      });
+
+      const response = await request(app).post("/auth/refresh").send({ refreshToken });
+
+      expect(verifyToken(response.body.data.token).role).toBe("admin");
+    });
+
+    it("should reject an expired session", async () => {
+      const { token, refreshToken } = await signIn();
+      await prisma.session.update({
+        where: { id: verifyToken(token).sessionId! },
+        data: { expiresAt: new Date(Date.now() - 1) },
+      });
+
+      const response = await request(app).post("/auth/refresh").send({ refreshToken });
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should let only one of two concurrent refreshes win", async () => {
+      const { refreshToken } = await signIn();
+
+      const results = await Promise.all([
+        rotateRefreshToken(refreshToken),
+        rotateRefreshToken(refreshToken),
+      ]);
+
+      expect(results.filter((result) => result !== null)).toHaveLength(1);
+      // The losing refresh presented a token that was already rotated away
+      expect(await prisma.session.count({ where: { revokedAt: { not: null } } })).toBe(1);
+    });
+  });
+
+  describe("POST /auth/signout", () => {
+    it("should revoke the session and its access token", async () => {
+      const { token, refreshToken } = await signIn();
+
+      const response = await request(app)
+        .post("/auth/signout")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.revokedSessions).toBe(1);
+
+      const jobsResponse = await request(app).get("/jobs").set("Authorization", `Bearer ${token}`);
+      expect(jobsResponse.status).toBe(401);
+      expect(jobsResponse.body.error.message).toBe("Session has been revoked or has expired");
+
+      expect((await request(app).post("/auth/refresh").send({ refreshToken })).status).toBe(401);
+    });
+
+    it("should revoke every session with all", async () => {
+      const first = await signIn();
+      const second = await request(app).post("/auth/signin").send({
+        email: "session@example.com",
+        password: TEST_USER_PASSWORD,
+      });
+
+      const response = await request(app)
+        .post("/auth/signout")
+        .set("Authorization", `Bearer ${first.token}`)
+        .send({ all: true });
+
+      expect(response.body.data.revokedSessions).toBe(2);
+      expect(
+        (await request(app).get("/jobs").set("Authorization", `Bearer ${second.body.data.token}`))
+          .status
+      ).toBe(401);
+    });
+
+    it("should keep accepting tokens issued without a session", async () => {
+      const user = await createTestUser({ email: "legacy@example.com" });
+      const token = generateToken(user.id);
+
+      const response = await request(app)
+        .post("/auth/signout")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.revokedSessions).toBe(0);
+      expect((await request(app).get("/jobs").set("Authorization", `Bearer ${token}`)).status).toBe(
+        200
+      );
+    });
+
+    it("should require authentication", async () => {
+      expect((await request(app).post("/auth/signout")).status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { deliverDueCallbacks, signCallback } from "../../lib/callbacks.js";
+import { config } from "../../lib/config.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestJob, createTestUser } from "../setup.js";
+
+const secret = "a-very-secret-signing-key";
+
+interface ReceivedCallback {
+  readonly headers: IncomingHttpHeaders;
+  readonly body: string;
+}
+
+let receiver: Server;
+let receiverUrl = "";
+let received: ReceivedCallback[] = [];
+// Runs before the receiver answers, e.g. to let time pass mid-send
+let beforeRespond: ((path: string) => Promise<void>) | null = null;
+
+beforeAll(async () => {
+  receiver = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      void (beforeRespond?.(req.url ?? "") ?? Promise.resolve()).then(() => {
+        res.writeHead(req.url === "/fail" ? 500 : 204);
+        res.end();
+      });
+    });
+  });
+
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", () => resolve()));
+
+  const address = receiver.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Failed to start callback receiver");
+  }
+
+  receiverUrl = `http://127.0.0.1:${address.port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => receiver.close(() => resolve()));
+});
+
+/** Helper: a finished job owing a delivery, as the worker would leave it. */
+async function createDelivery(
+  userId: string,
+  callbackPath: string,
+  callbackSecret: string | null
+): Promise<{ jobId: string; deliveryId: string }> {
+  const job = await createTestJob(userId, { status: "completed" });
+  await prisma.job.update({
+    where: { id: job.id },
+    data: { callbackUrl: `${receiverUrl}${callbackPath}`, callbackSecret },
+  });
+
+  const delivery = await prisma.callbackDelivery.create({
+    data: {
+      event: "job.completed",
+      url: `${receiverUrl}${callbackPath}`,
+      payload: JSON.stringify({ event: "job.completed", job: { id: job.id } }),
+      jobId: job.id,
+    },
+  });
+
+  return { jobId: job.id, deliveryId: delivery.id };
+}
+
+describe("deliverDueCallbacks", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    received = [];
+    const user = await createTestUser();
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    beforeRespond = null;
+    vi.useRealTimers();
+  });
+
+  it("should POST a signed envelope and mark the delivery delivered", async () => {
+    const { deliveryId } = await createDelivery(userId, "/ok", secret);
+
+    expect(await deliverDueCallbacks()).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const [callback] = received;
+    const timestamp = callback!.headers["x-queuewizard-timestamp"] as string;
+    expect(callback!.headers["x-queuewizard-event"]).toBe("job.completed");
+    expect(callback!.headers["x-queuewizard-delivery"]).toBe(deliveryId);
+    expect(callback!.headers["x-queuewizard-signature"]).toBe(
+      `sha256=${signCallback(secret, timestamp, callback!.body)}`
+    );
+
+    const delivery = await prisma.callbackDelivery.findUnique({ where: { id: deliveryId } });
+    expect(delivery!.status).toBe("delivered");
+    expect(delivery!.attempts).toBe(1);
+    expect(delivery!.responseStatus).toBe(204);
+    expect(delivery!.deliveredAt).not.toBeNull();
+  });
+
+  it("should omit the signature when the job has no secret", async () => {
+    await createDelivery(userId, "/ok", null);
+
+    await deliverDueCallbacks();
+
+    expect(received[0]!.headers["x-queuewizard-signature"]).toBeUndefined();
+  });
+
+  it("should schedule a retry after a failed delivery", async () => {
+    const { deliveryId } = await createDelivery(userId, "/fail", secret);
+    const before = Date.now();
+
+    expect(await deliverDueCallbacks()).toBe(0);
+
+    const delivery = await prisma.callbackDelivery.findUnique({ where: { id: deliveryId } });
+    expect(delivery!.status).toBe("pending");
+    expect(delivery!.attempts).toBe(1);
+    expect(delivery!.responseStatus).toBe(500);
+    expect(delivery!.errorMessage).toBe("Callback failed with status 500");
+    expect(delivery!.nextAttemptAt.getTime()).toBeGreaterThan(before);
+
+    // Not due yet, so a second pass sends nothing
+    await deliverDueCallbacks();
+    expect(received).toHaveLength(1);
+  });
+
+  it("should give up after the configured number of attempts", async () => {
+    const { deliveryId } = await createDelivery(userId, "/fail", secret);
+    await prisma.callbackDelivery.update({
+      where: { id: deliveryId },
+      data: { attempts: config.callbacks.maxAttempts - 1 },
+    });
+
+    await deliverDueCallbacks();
+
+    const delivery = await prisma.callbackDelivery.findUnique({ where: { id: deliveryId } });
+    expect(delivery!.status).toBe("failed");
+    expect(delivery!.attempts).toBe(config.callbacks.maxAttempts);
+  });
+
+  it("should send each delivery once when dispatchers run concurrently", async () => {
+    const { deliveryId } = await createDelivery(userId, "/ok", secret);
+
+    const results = await Promise.all([deliverDueCallbacks(), deliverDueCallbacks()]);
+
+    expect(results.sort()).toEqual([0, 1]);
+    expect(received).toHaveLength(1);
+    const delivery = await prisma.callbackDelivery.findUnique({ where: { id: deliveryId } });
+    expect(delivery!.status).toBe("delivered");
+    expect(delivery!.lockedUntil).toBeNull();
+  });
+
+  it("should skip a delivery another dispatcher is sending", async () => {
+    const { deliveryId } = await createDelivery(userId, "/ok", secret);
+    await prisma.callbackDelivery.update({
+      where: { id: deliveryId },
+      data: { status: "sending", lockedUntil: new Date(Date.now() + 60_000) },
+    });
+
+    expect(await deliverDueCallbacks()).toBe(0);
+    expect(received).toHaveLength(0);
+  });
+
+  it("should reclaim a delivery whose sender died", async () => {
+    const { deliveryId } = await createDelivery(userId, "/ok", secret);
+    await prisma.callbackDelivery.update({
+      where: { id: deliveryId },
+      data: { status: "sending", lockedUntil: new Date(Date.now() - 1) },
+    });
+
+    expect(await deliverDueCallbacks()).toBe(1);
+    expect(received).toHaveLength(1);
+  });
+
+  it("should claim each delivery from the time it is sent, not the start of the batch", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await createDelivery(userId, "/slow", secret);
+    const { deliveryId } = await createDelivery(userId, "/ok", secret);
+    let concurrent: number | null = null;
+
+    beforeRespond = async (path) => {
+      if (path === "/slow") {
+        // Longer than a claim lease from the start of the batch
+        vi.setSystemTime(Date.now() + config.callbacks.timeoutMs * 3);
+      } else if (concurrent === null) {
+        concurrent = await deliverDueCallbacks();
+      }
+    };
+
+    expect(await deliverDueCallbacks()).toBe(2);
+
+    expect(concurrent).toBe(0);
+    expect(received.map((callback) => callback.headers["x-queuewizard-delivery"])).toEqual([
+      expect.any(String),
+      deliveryId,
+    ]);
+    const delivery = await prisma.callbackDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+    });
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 1, lockedUntil: null });
+  });
+
+  it("should not record an outcome once another dispatcher took the claim over", async () => {
+    const { deliveryId } = await createDelivery(userId, "/ok", secret);
+
+    beforeRespond = async () => {
+      await prisma.callbackDelivery.update({
+        where: { id: deliveryId },
+        data: { lockedUntil: new Date(Date.now() + 60_000) },
+      });
+    };
+
+    expect(await deliverDueCallbacks()).toBe(0);
+
+    expect(
+      await prisma.callbackDelivery.findUniqueOrThrow({ where: { id: deliveryId } })
+    ).toMatchObject({ status: "sending", attempts: 0 });
+  });
+});
+
+describe("job callback fields", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(userId);
+  });
+
+  it("should store the secret without ever returning it", async () => {
+    const created = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "POST",
+      url: "https://api.example.com/reports",
+      callbackUrl: "https://hooks.example.com/done",
+      callbackSecret: secret,
+    });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data.job.callbackUrl).toBe("https://hooks.example.com/done");
+    expect(created.body.data.job).not.toHaveProperty("callbackSecret");
+
+    const fetched = await request(app)
+      .get(`/jobs/${created.body.data.job.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(fetched.body.data.job).not.toHaveProperty("callbackSecret");
+
+    const dbJob = await prisma.job.findUnique({
+      where: { id: created.body.data.job.id },
+      select: { callbackSecret: true },
+    });
+    expect(dbJob!.callbackSecret).toBe(secret);
+  });
+
+  it("should list the delivery log on the job", async () => {
+    const { jobId } = await createDelivery(userId, "/ok", secret);
+    await deliverDueCallbacks();
+
+    const response = await request(app)
+      .get(`/jobs/${jobId}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.job.callbacks).toHaveLength(1);
+    expect(response.body.data.job.callbacks[0].status).toBe("delivered");
+  });
+
+  it("should reject a secret without a callback URL", async () => {
+    const response = await request(app)
+      .post("/jobs")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ method: "GET", url: "https://api.example.com/ping", callbackSecret: secret });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+});
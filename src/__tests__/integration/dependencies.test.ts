@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { prisma } from "../../lib/db.js";
+import { cascadeParentFailure } from "../../lib/dependencies.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestJob, createTestUser } from "../setup.js";
+
+describe("job dependencies", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(userId);
+  });
+
+  /** Helper: create a pending child of `parentIds` with the given policy. */
+  async function createChild(
+    parentIds: string[],
+    onParentFailure?: string
+  ): Promise<{ id: string; status: string }> {
+    const response = await request(app)
+      .post("/jobs")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        method: "GET",
+        url: "https://api.example.com/child",
+        dependsOn: parentIds,
+        ...(onParentFailure && { onParentFailure }),
+      });
+
+    expect(response.status).toBe(201);
+    return response.body.data.job;
+  }
+
+  describe("POST /jobs", () => {
+    it("should record dependency edges and the failure policy", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id, parent.id], "skip");
+
+      expect(child.status).toBe("pending");
+
+      const edges = await prisma.jobDependency.findMany({ where: { childId: child.id } });
+      expect(edges).toEqual([{ parentId: parent.id, childId: child.id, position: 0 }]);
+
+      const stored = await prisma.job.findUnique({ where: { id: child.id } });
+      expect(stored?.onParentFailure).toBe("skip");
+    });
+
+    it("should default onParentFailure to fail", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id]);
+
+      const stored = await prisma.job.findUnique({ where: { id: child.id } });
+      expect(stored?.onParentFailure).toBe("fail");
+    });
+
+    it("should reject unknown dependencies", async () => {
+      const response = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          method: "GET",
+          url: "https://api.example.com/child",
+          dependsOn: ["00000000-0000-4000-8000-000000000000"],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("Unknown dependency");
+      expect(await prisma.job.count()).toBe(0);
+    });
+
+    it("should reject dependencies owned by another user", async () => {
+      const other = await createTestUser({ email: "other-deps@example.com" });
+      const parent = await createTestJob(other.id);
+
+      const response = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ method: "GET", url: "https://api.example.com/child", dependsOn: [parent.id] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject a parent that can no longer complete", async () => {
+      const parent = await createTestJob(userId, { status: "failed" });
+
+      const response = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ method: "GET", url: "https://api.example.com/child", dependsOn: [parent.id] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toContain("already failed");
+    });
+  });
+
+  describe("POST /jobs/batch", () => {
+    it("should resolve refs to jobs created earlier in the batch", async () => {
+      const existing = await createTestJob(userId);
+
+      const response = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          jobs: [
+            { ref: "fetch", method: "GET", url: "https://api.example.com/fetch" },
+            {
+              ref: "store",
+              method: "POST",
+              url: "https://api.example.com/store",
+              dependsOn: ["fetch", existing.id],
+            },
+            { method: "POST", url: "https://api.example.com/notify", dependsOn: ["store"] },
+          ],
+        });
+
+      expect(response.status).toBe(201);
+
+      const [fetchJob, storeJob, notifyJob] = response.body.data.jobs;
+      const edges = await prisma.jobDependency.findMany();
+
+      expect(edges).toHaveLength(3);
+      expect(edges).toEqual(
+        expect.arrayContaining([
+          { parentId: fetchJob.id, childId: storeJob.id, position: 0 },
+          { parentId: existing.id, childId: storeJob.id, position: 1 },
+          { parentId: storeJob.id, childId: notifyJob.id, position: 0 },
+        ])
+      );
+    });
+
+    it("should create nothing when a dependency is unknown", async () => {
+      const response = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          jobs: [
+            { ref: "first", method: "GET", url: "https://api.example.com/one" },
+            {
+              method: "GET",
+              url: "https://api.example.com/two",
+              dependsOn: ["first", "00000000-0000-4000-8000-000000000000"],
+            },
+          ],
+        });
+
+      expect(response.status).toBe(400);
+      expect(await prisma.job.count()).toBe(0);
+    });
+  });
+
+  describe("GET /jobs/:id", () => {
+    it("should include dependencies and dependents", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id]);
+
+      const response = await request(app)
+        .get(`/jobs/${parent.id}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.job.dependencies).toEqual([]);
+      expect(response.body.data.job.dependents).toEqual([{ childId: child.id }]);
+    });
+  });
+
+  describe("cascadeParentFailure", () => {
+    it("should apply each child's policy", async () => {
+      const parent = await createTestJob(userId);
+      const failChild = await createChild([parent.id], "fail");
+      const cancelChild = await createChild([parent.id], "cancel");
+      const skipChild = await createChild([parent.id], "skip");
+      await prisma.job.update({ where: { id: parent.id }, data: { status: "failed" } });
+
+      const affected = await cascadeParentFailure({ id: parent.id, status: "failed" });
+
+      expect(affected).toBe(3);
+
+      const statuses = await prisma.job.findMany({
+        where: { id: { in: [failChild.id, cancelChild.id, skipChild.id] } },
+        select: { id: true, status: true, failureKind: true, errorMessage: true },
+      });
+      const byId = new Map(statuses.map((job) => [job.id, job]));
+
+      expect(byId.get(failChild.id)?.status).toBe("failed");
+      expect(byId.get(cancelChild.id)?.status).toBe("cancelled");
+      expect(byId.get(skipChild.id)?.status).toBe("skipped");
+      expect(byId.get(failChild.id)?.failureKind).toBe("dependency");
+      expect(byId.get(failChild.id)?.errorMessage).toBe(`Dependency ${parent.id} failed`);
+    });
+
+    it("should propagate through grandchildren", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id], "skip");
+      const grandchild = await createChild([child.id], "cancel");
+
+      const affected = await cascadeParentFailure({ id: parent.id, status: "cancelled" });
+
+      expect(affected).toBe(2);
+
+      const stored = await prisma.job.findUnique({ where: { id: grandchild.id } });
+      expect(stored?.status).toBe("cancelled");
+      expect(stored?.errorMessage).toBe(`Dependency ${child.id} skipped`);
+    });
+
+    it("should leave children that are no longer pending alone", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id]);
+      await prisma.job.update({ where: { id: child.id }, data: { status: "completed" } });
+
+      expect(await cascadeParentFailure({ id: parent.id, status: "failed" })).toBe(0);
+    });
+
+    it("should queue a callback for children that fail", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id]);
+      await prisma.job.update({
+        where: { id: child.id },
+        data: { callbackUrl: "https://hooks.example.com/done" },
+      });
+
+      await cascadeParentFailure({ id: parent.id, status: "failed" });
+
+      const deliveries = await prisma.callbackDelivery.findMany({ where: { jobId: child.id } });
+      expect(deliveries).toHaveLength(1);
+      expect(deliveries[0]?.event).toBe("job.failed");
+    });
+  });
+
+  describe("DELETE /jobs/:id", () => {
+    it("should cascade the cancellation of a pending parent", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id], "skip");
+
+      const response = await request(app)
+        .delete(`/jobs/${parent.id}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+
+      const stored = await prisma.job.findUnique({ where: { id: child.id } });
+      expect(stored?.status).toBe("skipped");
+    });
+  });
+
+  describe("POST /jobs/:id/retry", () => {
+    it("should refuse to retry a child while its parent is failed", async () => {
+      const parent = await createTestJob(userId);
+      const child = await createChild([parent.id]);
+      await prisma.job.update({ where: { id: parent.id }, data: { status: "failed" } });
+      await cascadeParentFailure({ id: parent.id, status: "failed" });
+
+      const response = await request(app)
+        .post(`/jobs/${child.id}/retry`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toBe(
+        `Cannot retry while dependency ${parent.id} is failed`
+      );
+      const stored = await prisma.job.findUnique({ where: { id: child.id } });
+      expect(stored?.status).toBe("failed");
+    });
+
+    it("should retry the child once the parent is retried", async () => {
+      const parent = await createTestJob(userId, { status: "failed" });
+      const child = await createChild([]);
+      await prisma.jobDependency.create({
+        data: { parentId: parent.id, childId: child.id, position: 0 },
+      });
+      await prisma.job.update({ where: { id: child.id }, data: { status: "failed" } });
+
+      for (const id of [parent.id, child.id]) {
+        const response = await request(app)
+          .post(`/jobs/${id}/retry`)
+          .set("Authorization", `Bearer ${token}`);
+        expect(response.status).toBe(200);
+      }
+    });
+  });
+});
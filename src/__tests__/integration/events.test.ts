@@ -0,0 +1,232 @@
+import type { Server } from "node:http";
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { config } from "../../lib/config.js";
+import { getJobEventSubscriberCount, publishJobEvent } from "../../lib/events.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createSession, revokeSessions } from "../../lib/sessions.js";
+import { createTestJob, createTestUser } from "../setup.js";
+
+interface SseMessage {
+  readonly event: string;
+  readonly data: { type: string; jobId: string; status: string };
+}
+
+let server: Server;
+let baseUrl = "";
+
+beforeAll(async () => {
+  server = app.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Failed to start test server");
+  }
+
+  baseUrl = `http://127.0.0.1:${address.port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+/**
+ * Open an SSE stream and collect messages until `count` have arrived.
+ * `trigger` runs once the stream is connected.
+ */
+async function collectEvents(
+  path: string,
+  token: string,
+  count: number,
+  trigger: () => Promise<void>
+): Promise<SseMessage[]> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 5000);
+  const response = await fetch(`${baseUrl}${path}`, {
+    headers: { Authorization: `Bearer ${token}` },
+    signal: controller.signal,
+  });
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const messages: SseMessage[] = [];
+  let buffer = "";
+  let triggered = false;
+
+  try {
+    while (messages.length < count) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let separator = buffer.indexOf("\n\n");
+      while (separator !== -1) {
+        const block = buffer.slice(0, separator);
+        buffer = buffer.slice(separator + 2);
+        separator = buffer.indexOf("\n\n");
+
+        const event = block.match(/^event: (.+)$/m)?.[1];
+        const data = block.match(/^data: (.+)$/m)?.[1];
+        if (event && data) {
+          messages.push({ event, data: JSON.parse(data) });
+        }
+      }
+
+      if (!triggered) {
+        triggered = true;
+        await trigger();
+      }
+    }
+  } finally {
+    clearTimeout(timeout);
+    controller.abort();
+  }
+
+  return messages;
+}
+
+describe("GET /jobs/events", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(userId);
+  });
+
+  it("should stream created and cancelled events for the user's jobs", async () => {
+    const otherUser = await createTestUser({ email: "other@example.com" });
+    let jobId = "";
+
+    const messages = await collectEvents("/jobs/events", token, 2, async () => {
+      // Another user's job must not show up on this stream
+      await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${generateToken(otherUser.id)}`)
+        .send({ method: "GET", url: "https://api.example.com/other" });
+
+      const created = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ method: "GET", url: "https://api.example.com/mine" });
+      jobId = created.body.data.job.id;
+
+      await request(app).delete(`/jobs/${jobId}`).set("Authorization", `Bearer ${token}`);
+    });
+
+    expect(messages.map((message) => message.event)).toEqual(["job.created", "job.cancelled"]);
+    expect(messages.every((message) => message.data.jobId === jobId)).toBe(true);
+    expect(messages[1]!.data.status).toBe("cancelled");
+  });
+
+  it("should stream a manual retry putting a failed job back to pending", async () => {
+    const job = await createTestJob(userId, { status: "failed", attempts: 3 });
+
+    const messages = await collectEvents("/jobs/events", token, 1, async () => {
+      await request(app).post(`/jobs/${job.id}/retry`).set("Authorization", `Bearer ${token}`);
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]!.event).toBe("job.retrying");
+    expect(messages[0]!.data).toMatchObject({
+      jobId: job.id,
+      status: "pending",
+      data: { attempts: 0, retries: 1 },
+    });
+  });
+
+  describe("with a session", () => {
+    const heartbeatMs = config.events.heartbeatMs;
+
+    afterEach(() => {
+      Object.assign(config.events, { heartbeatMs });
+    });
+
+    it("should close the stream once the session is revoked", async () => {
+      Object.assign(config.events, { heartbeatMs: 50 });
+      const { sessionId } = await createSession(userId);
+      const before = getJobEventSubscriberCount();
+
+      // Resolves only once the server ends the stream; a timeout aborts and fails
+      const messages = await collectEvents(
+        "/jobs/events",
+        generateToken(userId, "user", sessionId),
+        1,
+        async () => {
+          expect(getJobEventSubscriberCount()).toBe(before + 1);
+          await revokeSessions(userId, sessionId);
+        }
+      );
+
+      expect(messages).toEqual([]);
+      expect(getJobEventSubscriberCount()).toBe(before);
+    });
+  });
+
+  it("should reject without auth", async () => {
+    const response = await request(app).get("/jobs/events");
+
+    expect(response.status).toBe(401);
+    expect(response.body.success).toBe(false);
+  });
+});
+
+describe("GET /jobs/:id/events", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(userId);
+  });
+
+  it("should stream only the requested job's events", async () => {
+    const job = await createTestJob(userId);
+    const otherJob = await createTestJob(userId);
+
+    const messages = await collectEvents(`/jobs/${job.id}/events`, token, 1, async () => {
+      publishJobEvent({ type: "job.started", jobId: otherJob.id, userId, status: "processing" });
+      publishJobEvent({ type: "job.completed", jobId: job.id, userId, status: "completed" });
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]!.event).toBe("job.completed");
+    expect(messages[0]!.data.jobId).toBe(job.id);
+  });
+
+  it("should unsubscribe when the client disconnects", async () => {
+    const job = await createTestJob(userId);
+    const before = getJobEventSubscriberCount();
+
+    await collectEvents(`/jobs/${job.id}/events`, token, 1, async () => {
+      expect(getJobEventSubscriberCount()).toBe(before + 1);
+      publishJobEvent({ type: "job.started", jobId: job.id, userId, status: "processing" });
+    });
+
+    // The server notices the closed socket asynchronously
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(getJobEventSubscriberCount()).toBe(before);
+  });
+
+  it("should return 404 for another user's job", async () => {
+    const otherUser = await createTestUser({ email: "other@example.com" });
+    const job = await createTestJob(otherUser.id);
+
+    const response = await request(app)
+      .get(`/jobs/${job.id}/events`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.message).toBe("Job not found");
+  });
+});
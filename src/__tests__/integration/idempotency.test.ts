@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { config } from "../../lib/config.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestUser } from "../setup.js";
+
+const payload = { method: "POST", url: "https://api.example.com/payments", body: '{"amount":5}' };
+
+describe("idempotent job creation", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    token = generateToken(user.id);
+  });
+
+  describe("POST /jobs with Idempotency-Key", () => {
+    it("should return the original job for a repeated submission", async () => {
+      const first = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", "payment-1")
+        .send(payload);
+
+      const second = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", "payment-1")
+        .send(payload);
+
+      expect(first.status).toBe(201);
+      expect(second.status).toBe(200);
+      expect(second.headers["idempotent-replayed"]).toBe("true");
+      expect(second.body.data.job.id).toBe(first.body.data.job.id);
+      expect(second.body.data.job.idempotencyHash).toBeUndefined();
+      expect(await prisma.job.count()).toBe(1);
+    });
+
+    it("should reject a different payload under the same key", async () => {
+      await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", "payment-1")
+        .send(payload);
+
+      const response = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", "payment-1")
+        .send({ ...payload, body: '{"amount":6}' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toContain("different payload");
+      expect(await prisma.job.count()).toBe(1);
+    });
+
+    it("should scope keys per user", async () => {
+      const other = await createTestUser({ email: "other-idempotency@example.com" });
+
+      for (const userToken of [token, generateToken(other.id)]) {
+        const response = await request(app)
+          .post("/jobs")
+          .set("Authorization", `Bearer ${userToken}`)
+          .set("Idempotency-Key", "payment-1")
+          .send(payload);
+
+        expect(response.status).toBe(201);
+      }
+
+      expect(await prisma.job.count()).toBe(2);
+    });
+
+    it("should create a new job once the window has passed", async () => {
+      const first = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", "payment-1")
+        .send(payload);
+
+      await prisma.job.update({
+        where: { id: first.body.data.job.id },
+        data: { createdAt: new Date(Date.now() - config.idempotency.windowMs - 1000) },
+      });
+
+      const second = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", "payment-1")
+        .send({ ...payload, body: '{"amount":6}' });
+
+      expect(second.status).toBe(201);
+      expect(second.body.data.job.id).not.toBe(first.body.data.job.id);
+    });
+
+    it("should reject an empty key", async () => {
+      const response = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", " ")
+        .send(payload);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /jobs/batch with idempotencyKey", () => {
+    it("should only create jobs whose keys are new", async () => {
+      const first = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ jobs: [{ ...payload, idempotencyKey: "a" }] });
+
+      const second = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          jobs: [
+            { ...payload, idempotencyKey: "a" },
+            { ...payload, idempotencyKey: "b" },
+          ],
+        });
+
+      expect(first.status).toBe(201);
+      expect(second.status).toBe(201);
+      expect(second.body.data.replayed).toBe(1);
+      expect(second.body.data.jobs[0].id).toBe(first.body.data.jobs[0].id);
+      expect(await prisma.job.count()).toBe(2);
+    });
+
+    it("should respond 200 when every job is replayed", async () => {
+      const jobs = [{ ...payload, ref: "pay", idempotencyKey: "a" }];
+
+      await request(app).post("/jobs/batch").set("Authorization", `Bearer ${token}`).send({ jobs });
+      const response = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ jobs });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.replayed).toBe(1);
+    });
+
+    it("should reject the whole batch on a conflicting payload", async () => {
+      await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ jobs: [{ ...payload, idempotencyKey: "a" }] });
+
+      const response = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          jobs: [
+            { ...payload, idempotencyKey: "b" },
+            { ...payload, priority: 3, idempotencyKey: "a" },
+          ],
+        });
+
+      expect(response.status).toBe(409);
+      expect(await prisma.job.count()).toBe(1);
+    });
+  });
+});
@@ -88,6 +88,148 @@ describe("POST /jobs", () => {
     expect(response.status).toBe(400);
     expect(response.body.success).toBe(false);
   });
+
+  it("should schedule a job at an absolute runAt time", async () => {
+    const runAt = "2030-01-01T09:00:00.000Z";
+
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "POST",
+      url: "https://api.example.com/reminder",
+      runAt,
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.job.runAt).toBe(runAt);
+    expect(response.body.data.job.nextRunAt).toBe(runAt);
+
+    const dbJob = await prisma.job.findUnique({ where: { id: response.body.data.job.id } });
+    expect(dbJob!.nextRunAt!.toISOString()).toBe(runAt);
+  });
+
+  it("should schedule a job relative to now with delayMs", async () => {
+    const before = Date.now();
+
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "GET",
+      url: "https://api.example.com/later",
+      delayMs: 60_000,
+    });
+
+    const after = Date.now();
+
+    expect(response.status).toBe(201);
+    const nextRunAt = new Date(response.body.data.job.nextRunAt).getTime();
+    expect(nextRunAt).toBeGreaterThanOrEqual(before + 60_000);
+    expect(nextRunAt).toBeLessThanOrEqual(after + 60_000);
+    expect(response.body.data.job.runAt).toBe(response.body.data.job.nextRunAt);
+  });
+
+  it("should leave runAt and nextRunAt null for immediate jobs", async () => {
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "GET",
+      url: "https://api.example.com/now",
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.job.runAt).toBeNull();
+    expect(response.body.data.job.nextRunAt).toBeNull();
+  });
+
+  it("should persist a per-job retry policy", async () => {
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "POST",
+      url: "https://api.example.com/payments/callback",
+      maxAttempts: 11,
+      backoffStrategy: "linear",
+      baseDelayMs: 60_000,
+      maxDelayMs: 600_000,
+      jitterMs: 1000,
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.job.maxAttempts).toBe(11);
+    expect(response.body.data.job.backoffStrategy).toBe("linear");
+    expect(response.body.data.job.baseDelayMs).toBe(60_000);
+    expect(response.body.data.job.maxDelayMs).toBe(600_000);
+    expect(response.body.data.job.jitterMs).toBe(1000);
+  });
+
+  it("should apply default retry policy when omitted", async () => {
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "GET",
+      url: "https://api.example.com/ping",
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.job.maxAttempts).toBe(3);
+    expect(response.body.data.job.backoffStrategy).toBe("exponential");
+    expect(response.body.data.job.baseDelayMs).toBeNull();
+    expect(response.body.data.job.maxDelayMs).toBeNull();
+    expect(response.body.data.job.jitterMs).toBeNull();
+  });
+
+  it("should persist a retryOn rule as JSON", async () => {
+    const response = await request(app)
+      .post("/jobs")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        method: "POST",
+        url: "https://api.example.com/payments/callback",
+        retryOn: { statuses: ["5xx", 429], timeouts: false },
+      });
+
+    expect(response.status).toBe(201);
+    expect(JSON.parse(response.body.data.job.retryOn)).toEqual({
+      statuses: ["5xx", 429],
+      networkErrors: true,
+      timeouts: false,
+    });
+  });
+
+  it("should leave retryOn null when omitted", async () => {
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "GET",
+      url: "https://api.example.com/ping",
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.job.retryOn).toBeNull();
+  });
+
+  it("should persist a per-job timeoutMs", async () => {
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "POST",
+      url: "https://api.example.com/reports",
+      timeoutMs: 120_000,
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.job.timeoutMs).toBe(120_000);
+    expect(response.body.data.job.failureKind).toBeNull();
+  });
+
+  it("should reject a timeoutMs above the configured maximum", async () => {
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "GET",
+      url: "https://api.example.com/ping",
+      timeoutMs: 10_000_000,
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it("should reject runAt combined with delayMs", async () => {
+    const response = await request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send({
+      method: "GET",
+      url: "https://api.example.com/data",
+      runAt: "2030-01-01T09:00:00.000Z",
+      delayMs: 1000,
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
 });
 
 describe("GET /jobs", () => {
@@ -136,6 +278,160 @@ describe("GET /jobs", () => {
     );
   });
 
+  it("should filter by several statuses", async () => {
+    await createTestJob(userId, { status: "pending" });
+    await createTestJob(userId, { status: "completed" });
+    await createTestJob(userId, { status: "failed" });
+
+    const response = await request(app)
+      .get("/jobs?status=pending,failed")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.jobs.map((j: { status: string }) => j.status).sort()).toEqual([
+      "failed",
+      "pending",
+    ]);
+  });
+
+  it("should filter by method and URL substring", async () => {
+    const match = await createTestJob(userId, {
+      method: "POST",
+      url: "https://api.example.com/payments/1",
+    });
+    await createTestJob(userId, { method: "GET", url: "https://api.example.com/payments/2" });
+    await createTestJob(userId, { method: "POST", url: "https://api.example.com/reports/1" });
+
+    const response = await request(app)
+      .get("/jobs?method=POST&url=payments")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.jobs.map((j: { id: string }) => j.id)).toEqual([match.id]);
+  });
+
+  it("should filter by creation time", async () => {
+    const old = await createTestJob(userId);
+    const recent = await createTestJob(userId);
+    await prisma.job.update({
+      where: { id: old.id },
+      data: { createdAt: new Date("2026-01-01T00:00:00.000Z") },
+    });
+    await prisma.job.update({
+      where: { id: recent.id },
+      data: { createdAt: new Date("2026-06-01T00:00:00.000Z") },
+    });
+
+    const response = await request(app)
+      .get("/jobs?createdAfter=2026-03-01T00:00:00.000Z&createdBefore=2026-07-01T00:00:00.000Z")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.jobs.map((j: { id: string }) => j.id)).toEqual([recent.id]);
+  });
+
+  it("should page through all jobs with a cursor", async () => {
+    for (const priority of [3, 1, 2, 1, 0]) {
+      await createTestJob(userId, { priority });
+    }
+
+    const full = await request(app).get("/jobs").set("Authorization", `Bearer ${token}`);
+    const expectedIds = full.body.data.jobs.map((j: { id: string }) => j.id);
+    expect(full.body.data.nextCursor).toBeNull();
+
+    const pagedIds: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+
+    do {
+      const query: string = cursor ? `?limit=2&cursor=${cursor}` : "?limit=2";
+      const page = await request(app).get(`/jobs${query}`).set("Authorization", `Bearer ${token}`);
+
+      expect(page.status).toBe(200);
+      expect(page.body.data.count).toBeLessThanOrEqual(2);
+      pagedIds.push(...page.body.data.jobs.map((j: { id: string }) => j.id));
+      cursor = page.body.data.nextCursor;
+      pages += 1;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(pagedIds).toEqual(expectedIds);
+  });
+
+  it("should sort by the selected field", async () => {
+    const first = await createTestJob(userId, { priority: 5 });
+    const second = await createTestJob(userId, { priority: 0 });
+    await prisma.job.update({
+      where: { id: first.id },
+      data: { createdAt: new Date("2026-01-01T00:00:00.000Z") },
+    });
+
+    const ascending = await request(app)
+      .get("/jobs?sort=createdAt")
+      .set("Authorization", `Bearer ${token}`);
+    expect(ascending.body.data.jobs.map((j: { id: string }) => j.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+
+    const byPriority = await request(app)
+      .get("/jobs?sort=-priority")
+      .set("Authorization", `Bearer ${token}`);
+    expect(byPriority.body.data.jobs.map((j: { id: string }) => j.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+  });
+
+  it("should reject an invalid cursor", async () => {
+    const response = await request(app)
+      .get("/jobs?cursor=garbage")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it("should list scheduled jobs separately from ready pending jobs", async () => {
+    const scheduled = await createTestJob(userId, {
+      status: "pending",
+      nextRunAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    const ready = await createTestJob(userId, { status: "pending" });
+    const due = await createTestJob(userId, {
+      status: "pending",
+      nextRunAt: new Date(Date.now() - 1000),
+    });
+    await createTestJob(userId, { status: "completed" });
+
+    const scheduledResponse = await request(app)
+      .get("/jobs?scheduled=true")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(scheduledResponse.status).toBe(200);
+    expect(scheduledResponse.body.data.jobs.map((j: { id: string }) => j.id)).toEqual([
+      scheduled.id,
+    ]);
+
+    const readyResponse = await request(app)
+      .get("/jobs?scheduled=false")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(readyResponse.status).toBe(200);
+    const readyIds = readyResponse.body.data.jobs.map((j: { id: string }) => j.id);
+    expect(readyIds).toHaveLength(2);
+    expect(readyIds).toEqual(expect.arrayContaining([ready.id, due.id]));
+  });
+
+  it("should reject scheduled combined with a non-pending status", async () => {
+    const response = await request(app)
+      .get("/jobs?scheduled=true&status=completed")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
   it("should not return other user's jobs", async () => {
     // Create another user with jobs
     const otherUser = await createTestUser({ email: "other@example.com" });
@@ -225,6 +521,82 @@ describe("GET /jobs/:id", () => {
   });
 });
 
+describe("GET /jobs/:id/attempts", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(userId);
+  });
+
+  it("should return the attempt history oldest first", async () => {
+    const job = await createTestJob(userId, { status: "failed", attempts: 2 });
+    await prisma.jobAttempt.createMany({
+      data: [
+        {
+          jobId: job.id,
+          attempt: 2,
+          outcome: "failed",
+          startedAt: new Date("2026-06-15T12:00:05.000Z"),
+          finishedAt: new Date("2026-06-15T12:00:06.000Z"),
+          durationMs: 1000,
+          responseStatus: 500,
+          failureKind: "status",
+          errorMessage: "Request failed with status 500",
+        },
+        {
+          jobId: job.id,
+          attempt: 1,
+          outcome: "retrying",
+          startedAt: new Date("2026-06-15T12:00:00.000Z"),
+          finishedAt: new Date("2026-06-15T12:00:01.000Z"),
+          durationMs: 1000,
+          responseStatus: 503,
+          failureKind: "status",
+          errorMessage: "Request failed with status 503",
+          backoffMs: 2000,
+        },
+      ],
+    });
+
+    const response = await request(app)
+      .get(`/jobs/${job.id}/attempts`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.count).toBe(2);
+    expect(response.body.data.attempts.map((a: { attempt: number }) => a.attempt)).toEqual([1, 2]);
+    expect(response.body.data.attempts[0].backoffMs).toBe(2000);
+    expect(response.body.data.attempts[1].outcome).toBe("failed");
+  });
+
+  it("should return an empty history for a job that never ran", async () => {
+    const job = await createTestJob(userId);
+
+    const response = await request(app)
+      .get(`/jobs/${job.id}/attempts`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.attempts).toEqual([]);
+    expect(response.body.data.count).toBe(0);
+  });
+
+  it("should return 404 for another user's job", async () => {
+    const otherUser = await createTestUser({ email: "other@example.com" });
+    const job = await createTestJob(otherUser.id);
+
+    const response = await request(app)
+      .get(`/jobs/${job.id}/attempts`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.message).toBe("Job not found");
+  });
+});
+
 describe("DELETE /jobs/:id", () => {
   let token: string;
   let userId: string;
@@ -388,6 +760,7 @@ describe("POST /jobs/:id/retry", () => {
       attempts: 4,
       errorMessage: "Connection timeout",
     });
+    await prisma.job.update({ where: { id: job.id }, data: { failureKind: "timeout" } });
 
     await request(app).post(`/jobs/${job.id}/retry`).set("Authorization", `Bearer ${token}`);
 
@@ -397,6 +770,7 @@ describe("POST /jobs/:id/retry", () => {
     expect(dbJob!.attempts).toBe(0);
     expect(dbJob!.retries).toBe(1);
     expect(dbJob!.errorMessage).toBeNull();
+    expect(dbJob!.failureKind).toBeNull();
     expect(dbJob!.result).toBeNull();
   });
 
@@ -428,6 +802,20 @@ describe("POST /jobs/:id/retry", () => {
     expect(response.body.data.job.status).toBe("pending");
   });
 
+  it("should let only one of two concurrent retries succeed", async () => {
+    const job = await createTestJob(userId, { status: "failed" });
+
+    const responses = await Promise.all(
+      [0, 1].map(() =>
+        request(app).post(`/jobs/${job.id}/retry`).set("Authorization", `Bearer ${token}`)
+      )
+    );
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 409]);
+    const stored = await prisma.job.findUnique({ where: { id: job.id } });
+    expect(stored?.retries).toBe(1);
+  });
+
   it("should return 409 for a pending job", async () => {
     const job = await createTestJob(userId, { status: "pending" });
 
@@ -758,6 +1146,25 @@ describe("POST /jobs/batch", () => {
     expect(response.body.success).toBe(false);
   });
 
+  it("should schedule individual items with runAt or delayMs", async () => {
+    const response = await request(app)
+      .post("/jobs/batch")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        jobs: [
+          { method: "GET", url: "https://api.example.com/now" },
+          { method: "GET", url: "https://api.example.com/at", runAt: "2030-01-01T09:00:00.000Z" },
+          { method: "GET", url: "https://api.example.com/in", delayMs: 5000 },
+        ],
+      });
+
+    expect(response.status).toBe(201);
+    const [now, at, delayed] = response.body.data.jobs;
+    expect(now.nextRunAt).toBeNull();
+    expect(at.nextRunAt).toBe("2030-01-01T09:00:00.000Z");
+    expect(new Date(delayed.nextRunAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
   it("should accept exactly 100 jobs", async () => {
     const jobs = Array.from({ length: 100 }, (_, i) => ({
       method: "GET" as const,
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { config } from "../../lib/config.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import {
+  generateWorkerId,
+  heartbeatWorker,
+  leaseExpiry,
+  listLiveWorkers,
+  unregisterWorker,
+} from "../../lib/leases.js";
+import { createTestUser } from "../setup.js";
+
+describe("worker leases", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+  });
+
+  async function createProcessingJob(lockedBy: string, lockedUntil: Date) {
+    return prisma.job.create({
+      data: {
+        method: "GET",
+        url: "https://api.example.com/slow",
+        status: "processing",
+        attempts: 1,
+        lockedBy,
+        lockedUntil,
+        userId,
+      },
+    });
+  }
+
+  describe("generateWorkerId", () => {
+    it("should be unique per call and include the pid", () => {
+      const id = generateWorkerId();
+
+      expect(id).toContain(`:${process.pid}:`);
+      expect(generateWorkerId()).not.toBe(id);
+    });
+  });
+
+  describe("heartbeatWorker", () => {
+    it("should register the worker and renew its leases only", async () => {
+      const now = new Date();
+      const soon = new Date(now.getTime() + 1000);
+      const own = await createProcessingJob("worker-a", soon);
+      const other = await createProcessingJob("worker-b", soon);
+
+      const renewed = await heartbeatWorker("worker-a", { maxConcurrent: 5, currentJobs: 1 }, now);
+
+      expect(renewed).toBe(1);
+      expect((await prisma.job.findUniqueOrThrow({ where: { id: own.id } })).lockedUntil).toEqual(
+        leaseExpiry(now)
+      );
+      expect((await prisma.job.findUniqueOrThrow({ where: { id: other.id } })).lockedUntil).toEqual(
+        soon
+      );
+      expect(await prisma.worker.findUnique({ where: { id: "worker-a" } })).toMatchObject({
+        pid: process.pid,
+        maxConcurrent: 5,
+        currentJobs: 1,
+        lastHeartbeatAt: now,
+      });
+    });
+
+    it("should forget workers that stopped heartbeating", async () => {
+      const now = new Date();
+      await heartbeatWorker(
+        "worker-dead",
+        { maxConcurrent: 5, currentJobs: 0 },
+        new Date(now.getTime() - config.workers.leaseMs - 1)
+      );
+
+      await heartbeatWorker("worker-live", { maxConcurrent: 5, currentJobs: 0 }, now);
+
+      const workers = await prisma.worker.findMany();
+      expect(workers.map((worker) => worker.id)).toEqual(["worker-live"]);
+    });
+  });
+
+  describe("listLiveWorkers", () => {
+    it("should only list workers with a recent heartbeat", async () => {
+      const now = new Date();
+      await heartbeatWorker("worker-a", { maxConcurrent: 5, currentJobs: 0 }, now);
+      await prisma.worker.create({
+        data: {
+          id: "worker-stale",
+          hostname: "elsewhere",
+          pid: 1,
+          maxConcurrent: 5,
+          lastHeartbeatAt: new Date(now.getTime() - config.workers.leaseMs - 1),
+        },
+      });
+
+      const workers = await listLiveWorkers(now);
+
+      expect(workers.map((worker) => worker.id)).toEqual(["worker-a"]);
+    });
+
+    it("should drop unregistered workers", async () => {
+      await heartbeatWorker("worker-a", { maxConcurrent: 5, currentJobs: 0 });
+      await unregisterWorker("worker-a");
+
+      expect(await listLiveWorkers()).toEqual([]);
+    });
+  });
+
+  describe("GET /queue/status", () => {
+    it("should report live workers", async () => {
+      await heartbeatWorker("worker-a", { maxConcurrent: 5, currentJobs: 2 });
+      const admin = await createTestUser({ email: "admin@example.com", role: "admin" });
+
+      const response = await request(app)
+        .get("/queue/status")
+        .set("Authorization", `Bearer ${generateToken(admin.id, "admin")}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.workerId).toEqual(expect.any(String));
+      expect(response.body.data.workers).toEqual([
+        expect.objectContaining({ id: "worker-a", maxConcurrent: 5, currentJobs: 2 }),
+      ]);
+    });
+  });
+});
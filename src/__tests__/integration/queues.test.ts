@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { recordCircuitOutcome, resetCircuitBreakersForTest } from "../../lib/circuitBreakers.js";
+import { config } from "../../lib/config.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestUser } from "../setup.js";
+
+const ping = { method: "GET", url: "https://api.example.com/ping" };
+
+describe("Queues Routes", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser({ role: "admin" });
+    token = generateToken(user.id, "admin");
+  });
+
+  function api(method: "get" | "post" | "patch" | "delete", path: string): request.Test {
+    return request(app)[method](path).set("Authorization", `Bearer ${token}`);
+  }
+
+  describe("POST /queues", () => {
+    it("should create a queue", async () => {
+      const response = await api("post", "/queues").send({ name: "bulk", concurrency: 2 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.queue).toMatchObject({
+        name: "bulk",
+        concurrency: 2,
+        weight: 1,
+        paused: false,
+      });
+    });
+
+    it("should reject a duplicate name, including default", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 2 });
+
+      expect((await api("post", "/queues").send({ name: "bulk", concurrency: 1 })).status).toBe(
+        409
+      );
+      expect((await api("post", "/queues").send({ name: "default", concurrency: 1 })).status).toBe(
+        409
+      );
+    });
+
+    it("should require authentication", async () => {
+      const response = await request(app).post("/queues").send({ name: "bulk", concurrency: 2 });
+      expect(response.status).toBe(401);
+    });
+
+    it("should require the admin role", async () => {
+      const user = await createTestUser({ email: "member@example.com" });
+      const response = await request(app)
+        .post("/queues")
+        .set("Authorization", `Bearer ${generateToken(user.id)}`)
+        .send({ name: "bulk", concurrency: 2 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("GET /queues", () => {
+    it("should list the implicit default queue", async () => {
+      const response = await api("get", "/queues");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.queues).toEqual([
+        {
+          name: "default",
+          concurrency: config.queues.defaultConcurrency,
+          weight: 1,
+          paused: false,
+        },
+      ]);
+    });
+
+    it("should list created queues by name", async () => {
+      await api("post", "/queues").send({ name: "realtime", concurrency: 4, weight: 3 });
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+
+      const response = await api("get", "/queues");
+
+      expect(response.body.data.queues.map((queue: { name: string }) => queue.name)).toEqual([
+        "bulk",
+        "default",
+        "realtime",
+      ]);
+      expect(response.body.data.count).toBe(3);
+    });
+  });
+
+  describe("GET /queues/:name", () => {
+    it("should return 404 for an unknown queue", async () => {
+      const response = await api("get", "/queues/missing");
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("PATCH /queues/:name", () => {
+    it("should update a queue", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+
+      const response = await api("patch", "/queues/bulk").send({ concurrency: 3, weight: 2 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.queue).toMatchObject({ concurrency: 3, weight: 2 });
+    });
+
+    it("should persist settings for the default queue", async () => {
+      await api("patch", "/queues/default").send({ concurrency: 9 });
+
+      const response = await api("get", "/queues/default");
+
+      expect(response.body.data.queue.concurrency).toBe(9);
+      expect(await prisma.queue.count()).toBe(1);
+    });
+
+    it("should reject an empty update", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+      expect((await api("patch", "/queues/bulk").send({})).status).toBe(400);
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("should pause and resume a queue", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+
+      const paused = await api("post", "/queues/bulk/pause");
+      const pausedAgain = await api("post", "/queues/bulk/pause");
+      const resumed = await api("post", "/queues/bulk/resume");
+      const resumedAgain = await api("post", "/queues/bulk/resume");
+
+      expect(paused.body.data.queue.paused).toBe(true);
+      expect(pausedAgain.status).toBe(409);
+      expect(resumed.body.data.queue.paused).toBe(false);
+      expect(resumedAgain.status).toBe(409);
+    });
+
+    it("should pause the default queue", async () => {
+      const response = await api("post", "/queues/default/pause");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.queue).toMatchObject({ name: "default", paused: true });
+    });
+  });
+
+  describe("DELETE /queues/:name", () => {
+    it("should delete an empty queue", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+
+      const response = await api("delete", "/queues/bulk");
+
+      expect(response.status).toBe(200);
+      expect(await prisma.queue.count()).toBe(0);
+    });
+
+    it("should refuse to delete a queue with pending jobs", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+      await api("post", "/jobs").send({ ...ping, queue: "bulk" });
+
+      const response = await api("delete", "/queues/bulk");
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toContain("1 pending or processing");
+    });
+
+    it("should not retry a failed job into a deleted queue", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+      const created = await api("post", "/jobs").send({ ...ping, queue: "bulk" });
+      const jobId = created.body.data.job.id;
+      await prisma.job.update({ where: { id: jobId }, data: { status: "failed" } });
+      await api("delete", "/queues/bulk");
+
+      const response = await api("post", `/jobs/${jobId}/retry`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe("Unknown queue: bulk");
+      expect(await prisma.job.findUniqueOrThrow({ where: { id: jobId } })).toMatchObject({
+        status: "failed",
+        retries: 0,
+      });
+    });
+
+    it("should refuse to delete the default queue", async () => {
+      expect((await api("delete", "/queues/default")).status).toBe(409);
+    });
+  });
+
+  it("should require the admin role to change queues", async () => {
+    await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+    const user = await createTestUser({ email: "member@example.com" });
+    const memberToken = generateToken(user.id);
+    const changes = [
+      request(app).post("/queues").send({ name: "other", concurrency: 1 }),
+      request(app).patch("/queues/bulk").send({ concurrency: 5 }),
+      request(app).post("/queues/bulk/pause"),
+      request(app).post("/queues/bulk/resume"),
+      request(app).delete("/queues/bulk"),
+    ];
+
+    for (const change of changes) {
+      const response = await change.set("Authorization", `Bearer ${memberToken}`);
+
+      expect(response.status).toBe(403);
+    }
+
+    expect(await prisma.queue.findMany()).toEqual([
+      expect.objectContaining({ name: "bulk", concurrency: 1, paused: false }),
+    ]);
+  });
+
+  describe("jobs in named queues", () => {
+    it("should put jobs in the default queue unless told otherwise", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+
+      const plain = await api("post", "/jobs").send(ping);
+      const bulk = await api("post", "/jobs").send({ ...ping, queue: "bulk" });
+
+      expect(plain.body.data.job.queue).toBe("default");
+      expect(bulk.body.data.job.queue).toBe("bulk");
+    });
+
+    it("should reject jobs for an unknown queue", async () => {
+      const single = await api("post", "/jobs").send({ ...ping, queue: "missing" });
+      const batch = await api("post", "/jobs/batch").send({
+        jobs: [ping, { ...ping, queue: "missing" }],
+      });
+
+      expect(single.status).toBe(400);
+      expect(single.body.error.message).toBe("Unknown queue: missing");
+      expect(batch.status).toBe(400);
+      expect(await prisma.job.count()).toBe(0);
+    });
+
+    it("should filter the job list by queue", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 1 });
+      await api("post", "/jobs").send(ping);
+      await api("post", "/jobs").send({ ...ping, queue: "bulk" });
+
+      const response = await api("get", "/jobs?queue=bulk");
+
+      expect(response.body.data.jobs).toHaveLength(1);
+      expect(response.body.data.jobs[0].queue).toBe("bulk");
+    });
+  });
+
+  describe("GET /queue/status", () => {
+    it("should break counts down per queue", async () => {
+      await api("post", "/queues").send({ name: "bulk", concurrency: 2, weight: 1 });
+      await api("post", "/jobs").send({ ...ping, queue: "bulk" });
+      await api("post", "/jobs").send({ ...ping, queue: "bulk" });
+      const failed = await api("post", "/jobs").send(ping);
+      await prisma.job.update({
+        where: { id: failed.body.data.job.id },
+        data: { status: "failed" },
+      });
+
+      const response = await api("get", "/queue/status");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.pendingCount).toBe(2);
+      expect(response.body.data.failedCount).toBe(1);
+      expect(response.body.data.queues).toEqual([
+        {
+          name: "bulk",
+          concurrency: 2,
+          weight: 1,
+          paused: false,
+          running: 0,
+          pendingCount: 2,
+          processingCount: 0,
+          completedToday: 0,
+          failedCount: 0,
+        },
+        expect.objectContaining({ name: "default", pendingCount: 0, failedCount: 1 }),
+      ]);
+    });
+
+    it("should require the admin role", async () => {
+      const user = await createTestUser({ email: "member@example.com" });
+      const response = await request(app)
+        .get("/queue/status")
+        .set("Authorization", `Bearer ${generateToken(user.id)}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("circuit breakers", () => {
+    beforeEach(() => {
+      resetCircuitBreakersForTest();
+    });
+
+    it("should report open breakers and reset them", async () => {
+      for (let i = 0; i < config.circuitBreaker.minRequests; i += 1) {
+        recordCircuitOutcome("down.example.com", "failure");
+      }
+
+      const status = await api("get", "/queue/status");
+
+      expect(status.body.data.circuitBreakers).toEqual([
+        expect.objectContaining({
+          host: "down.example.com",
+          state: "open",
+          failures: config.circuitBreaker.minRequests,
+        }),
+      ]);
+
+      const reset = await api("post", "/queue/circuit-breakers/down.example.com/reset");
+
+      expect(reset.status).toBe(200);
+      expect((await api("get", "/queue/status")).body.data.circuitBreakers).toEqual([]);
+    });
+
+    it("should return 404 for an untracked host", async () => {
+      const response = await api("post", "/queue/circuit-breakers/up.example.com/reset");
+      expect(response.status).toBe(404);
+    });
+
+    it("should require the admin role to reset a breaker", async () => {
+      for (let i = 0; i < config.circuitBreaker.minRequests; i += 1) {
+        recordCircuitOutcome("down.example.com", "failure");
+      }
+      const user = await createTestUser({ email: "member@example.com" });
+
+      const response = await request(app)
+        .post("/queue/circuit-breakers/down.example.com/reset")
+        .set("Authorization", `Bearer ${generateToken(user.id)}`);
+
+      expect(response.status).toBe(403);
+      expect((await api("get", "/queue/status")).body.data.circuitBreakers).toEqual([
+        expect.objectContaining({ host: "down.example.com", state: "open" }),
+      ]);
+    });
+  });
+});
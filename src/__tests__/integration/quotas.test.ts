@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { config } from "../../lib/config.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { usageDay } from "../../lib/quotas.js";
+import { fireDueSchedules } from "../../lib/scheduler.js";
+import { createTestJob, createTestUser } from "../setup.js";
+
+const ping = { method: "GET", url: "https://api.example.com/ping" };
+const defaultQuotas = { ...config.quotas };
+
+describe("per-user quotas", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(user.id);
+  });
+
+  afterEach(() => {
+    Object.assign(config.quotas, defaultQuotas);
+  });
+
+  function createJobs(path: "/jobs" | "/jobs/batch", body: object): request.Test {
+    return request(app).post(path).set("Authorization", `Bearer ${token}`).send(body);
+  }
+
+  describe("max pending jobs", () => {
+    it("should reject a job over the limit and keep nothing", async () => {
+      Object.assign(config.quotas, { maxPendingJobs: 2 });
+      await createTestJob(userId);
+      await createTestJob(userId, { status: "completed" });
+
+      expect((await createJobs("/jobs", ping)).status).toBe(201);
+
+      const response = await createJobs("/jobs", ping);
+      expect(response.status).toBe(429);
+      expect(response.body.error.message).toBe("Pending job limit of 2 reached");
+      expect(await prisma.job.count({ where: { userId, status: "pending" } })).toBe(2);
+    });
+
+    it("should not count other users' jobs", async () => {
+      Object.assign(config.quotas, { maxPendingJobs: 1 });
+      const other = await createTestUser({ email: "other@example.com" });
+      await createTestJob(other.id);
+
+      expect((await createJobs("/jobs", ping)).status).toBe(201);
+    });
+
+    it("should reject a batch that would go over the limit as a whole", async () => {
+      Object.assign(config.quotas, { maxPendingJobs: 2 });
+
+      const response = await createJobs("/jobs/batch", { jobs: [ping, ping, ping] });
+
+      expect(response.status).toBe(429);
+      expect(await prisma.job.count({ where: { userId } })).toBe(0);
+    });
+  });
+
+  describe("jobs per day", () => {
+    it("should count created jobs even after they are deleted", async () => {
+      Object.assign(config.quotas, { jobsPerDay: 2 });
+
+      const created = await createJobs("/jobs/batch", { jobs: [ping, ping] });
+      expect(created.status).toBe(201);
+      await prisma.job.deleteMany({ where: { userId } });
+
+      const response = await createJobs("/jobs", ping);
+      expect(response.status).toBe(429);
+      expect(response.body.error.message).toMatch(/^Daily job limit of 2 reached; resets at /);
+    });
+
+    it("should not charge idempotent replays", async () => {
+      Object.assign(config.quotas, { jobsPerDay: 1 });
+
+      for (let i = 0; i < 2; i += 1) {
+        const response = await createJobs("/jobs", ping).set("Idempotency-Key", "once");
+        expect(response.status).toBe(i === 0 ? 201 : 200);
+      }
+
+      const usage = await prisma.dailyUsage.findUniqueOrThrow({
+        where: { userId_day: { userId, day: usageDay() } },
+      });
+      expect(usage.jobsCreated).toBe(1);
+    });
+  });
+
+  describe("scheduled jobs", () => {
+    async function createDueSchedule(nextFireAt: Date): Promise<{ id: string }> {
+      return prisma.schedule.create({
+        data: {
+          name: "Quota schedule",
+          cronExpression: "*/5 * * * *",
+          method: "GET",
+          url: "https://api.example.com/tick",
+          nextFireAt,
+          userId,
+        },
+      });
+    }
+
+    it("should charge fired jobs to the daily quota", async () => {
+      const now = new Date();
+      await createDueSchedule(new Date(now.getTime() - 1000));
+
+      expect(await fireDueSchedules(now)).toBe(1);
+
+      const usage = await prisma.dailyUsage.findUniqueOrThrow({
+        where: { userId_day: { userId, day: usageDay(now) } },
+      });
+      expect(usage.jobsCreated).toBe(1);
+    });
+
+    it("should skip fires over the limit and move on to the next occurrence", async () => {
+      Object.assign(config.quotas, { maxPendingJobs: 1 });
+      await createTestJob(userId);
+      const now = new Date();
+      const schedule = await createDueSchedule(new Date(now.getTime() - 1000));
+
+      expect(await fireDueSchedules(now)).toBe(0);
+
+      expect(await prisma.job.count({ where: { scheduleId: schedule.id } })).toBe(0);
+      const updated = await prisma.schedule.findUniqueOrThrow({ where: { id: schedule.id } });
+      expect(updated.nextFireAt.getTime()).toBeGreaterThan(now.getTime());
+      expect(updated.lastFiredAt).toBeNull();
+      expect(await prisma.dailyUsage.count({ where: { userId } })).toBe(0);
+    });
+  });
+
+  describe("retries", () => {
+    it("should refuse a retry that would go over the pending limit", async () => {
+      Object.assign(config.quotas, { maxPendingJobs: 1 });
+      await createTestJob(userId);
+      const failed = await createTestJob(userId, { status: "failed" });
+      const admin = await createTestUser({ email: "admin@example.com", role: "admin" });
+
+      const response = await request(app)
+        .post(`/jobs/${failed.id}/retry`)
+        .set("Authorization", `Bearer ${token}`);
+      expect(response.status).toBe(429);
+      expect(response.body.error.message).toBe("Pending job limit of 1 reached");
+
+      const adminResponse = await request(app)
+        .post(`/admin/jobs/${failed.id}/retry`)
+        .set("Authorization", `Bearer ${generateToken(admin.id, "admin")}`);
+      expect(adminResponse.status).toBe(429);
+
+      expect(await prisma.job.findUniqueOrThrow({ where: { id: failed.id } })).toMatchObject({
+        status: "failed",
+        retries: 0,
+      });
+    });
+  });
+
+  describe("max batch size", () => {
+    it("should reject a larger batch", async () => {
+      Object.assign(config.quotas, { maxBatchSize: 2 });
+
+      const response = await createJobs("/jobs/batch", { jobs: [ping, ping, ping] });
+
+      expect(response.status).toBe(429);
+      expect(response.body.error.message).toBe("Batch of 3 jobs exceeds the limit of 2");
+    });
+  });
+
+  describe("max body size", () => {
+    it("should reject a larger body on either endpoint", async () => {
+      Object.assign(config.quotas, { maxBodyBytes: 10 });
+      const job = { ...ping, method: "POST", body: '{"data":"too long"}' };
+
+      const single = await createJobs("/jobs", job);
+      expect(single.status).toBe(429);
+      expect(single.body.error.message).toBe("Job body of 19 bytes exceeds the limit of 10");
+
+      const batch = await createJobs("/jobs/batch", { jobs: [ping, job] });
+      expect(batch.status).toBe(429);
+      expect(batch.body.error.message).toBe("Body of jobs.1 of 19 bytes exceeds the limit of 10");
+    });
+
+    it("should reject a larger schedule body", async () => {
+      Object.assign(config.quotas, { maxBodyBytes: 10 });
+
+      const response = await request(app)
+        .post("/schedules")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          name: "nightly",
+          cronExpression: "0 0 * * *",
+          ...ping,
+          method: "POST",
+          body: '{"data":"too long"}',
+        });
+
+      expect(response.status).toBe(429);
+      expect(response.body.error.message).toBe("Schedule body of 19 bytes exceeds the limit of 10");
+      expect(await prisma.schedule.count()).toBe(0);
+    });
+  });
+
+  describe("GET /me/usage", () => {
+    it("should report consumption against the limits", async () => {
+      await createJobs("/jobs/batch", { jobs: [ping, ping] });
+      await createTestJob(userId, { status: "failed" });
+
+      const response = await request(app).get("/me/usage").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.usage).toEqual({
+        pendingJobs: { used: 2, limit: config.quotas.maxPendingJobs },
+        jobsToday: {
+          used: 2,
+          limit: config.quotas.jobsPerDay,
+          resetsAt: expect.stringMatching(/T00:00:00\.000Z$/),
+        },
+        maxBatchSize: config.quotas.maxBatchSize,
+        maxBodyBytes: config.quotas.maxBodyBytes,
+      });
+    });
+
+    it("should require authentication", async () => {
+      expect((await request(app).get("/me/usage")).status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestUser } from "../setup.js";
+
+describe("Rate Limits Routes", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser({ role: "admin" });
+    token = generateToken(user.id, "admin");
+  });
+
+  function api(method: "get" | "post" | "patch" | "delete", path: string): request.Test {
+    return request(app)[method](path).set("Authorization", `Bearer ${token}`);
+  }
+
+  it("should create, list, update and delete a rate limit", async () => {
+    const created = await api("post", "/rate-limits").send({ key: "api.example.com", limit: 5 });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data.rateLimit).toEqual({
+      key: "api.example.com",
+      limit: 5,
+      intervalMs: 1000,
+    });
+
+    const updated = await api("patch", "/rate-limits/api.example.com").send({ intervalMs: 60000 });
+    expect(updated.body.data.rateLimit).toEqual({
+      key: "api.example.com",
+      limit: 5,
+      intervalMs: 60000,
+    });
+
+    const listed = await api("get", "/rate-limits");
+    expect(listed.body.data.count).toBe(1);
+
+    expect((await api("delete", "/rate-limits/api.example.com")).status).toBe(200);
+    expect((await api("get", "/rate-limits/api.example.com")).status).toBe(404);
+  });
+
+  it("should reject a duplicate key", async () => {
+    await api("post", "/rate-limits").send({ key: "stripe", limit: 5 });
+
+    const response = await api("post", "/rate-limits").send({ key: "stripe", limit: 1 });
+
+    expect(response.status).toBe(409);
+  });
+
+  it("should validate limits and keys", async () => {
+    expect((await api("post", "/rate-limits").send({ key: "stripe", limit: 0 })).status).toBe(400);
+    expect(
+      (await api("post", "/rate-limits").send({ key: "a b", limit: 1, intervalMs: 1000 })).status
+    ).toBe(400);
+    expect(
+      (await api("post", "/rate-limits").send({ key: "stripe", limit: 1, intervalMs: 10 })).status
+    ).toBe(400);
+  });
+
+  it("should return 404 when updating an unknown key", async () => {
+    expect((await api("patch", "/rate-limits/missing").send({ limit: 2 })).status).toBe(404);
+  });
+
+  it("should require authentication", async () => {
+    expect((await request(app).get("/rate-limits")).status).toBe(401);
+  });
+
+  it("should let any user read rate limits but only admins change them", async () => {
+    await api("post", "/rate-limits").send({ key: "stripe", limit: 5 });
+    const user = await createTestUser({ email: "member@example.com" });
+    const userToken = generateToken(user.id);
+
+    const listed = await request(app)
+      .get("/rate-limits")
+      .set("Authorization", `Bearer ${userToken}`);
+    expect(listed.status).toBe(200);
+
+    const updated = await request(app)
+      .patch("/rate-limits/stripe")
+      .set("Authorization", `Bearer ${userToken}`)
+      .send({ limit: 50 });
+    expect(updated.status).toBe(403);
+    expect(updated.body.error.message).toBe("Requires the admin role");
+
+    const created = await request(app)
+      .post("/rate-limits")
+      .set("Authorization", `Bearer ${userToken}`)
+      .send({ key: "other", limit: 1 });
+    expect(created.status).toBe(403);
+
+    const deleted = await request(app)
+      .delete("/rate-limits/stripe")
+      .set("Authorization", `Bearer ${userToken}`);
+    expect(deleted.status).toBe(403);
+
+    expect((await api("get", "/rate-limits")).body.data.rateLimits).toEqual([
+      { key: "stripe", limit: 5, intervalMs: 1000 },
+    ]);
+  });
+
+  describe("job rateLimitKey", () => {
+    it("should default to the URL host", async () => {
+      const response = await api("post", "/jobs").send({
+        method: "GET",
+        url: "https://api.example.com:8443/ping",
+      });
+
+      expect(response.body.data.job.rateLimitKey).toBe("api.example.com:8443");
+    });
+
+    it("should keep an explicit key", async () => {
+      const response = await api("post", "/jobs").send({
+        method: "GET",
+        url: "https://api.example.com/ping",
+        rateLimitKey: "example-account-42",
+      });
+
+      expect(response.body.data.job.rateLimitKey).toBe("example-account-42");
+    });
+
+    it("should reject an invalid key", async () => {
+      const response = await api("post", "/jobs").send({
+        method: "GET",
+        url: "https://api.example.com/ping",
+        rateLimitKey: "has/slash",
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { config } from "../../lib/config.js";
+import { prisma } from "../../lib/db.js";
+import { heartbeatWorker } from "../../lib/leases.js";
+import { recoverStuckJobs } from "../../lib/recovery.js";
+import { createTestUser } from "../setup.js";
+
+describe("recoverStuckJobs", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+  });
+
+  async function createProcessingJob(data: {
+    attempts?: number;
+    maxAttempts?: number;
+    lockedBy?: string | null;
+    lockedAt?: Date | null;
+    lockedUntil?: Date | null;
+    callbackUrl?: string;
+  }) {
+    return prisma.job.create({
+      data: {
+        method: "GET",
+        url: "https://api.example.com/slow",
+        status: "processing",
+        attempts: 1,
+        userId,
+        ...data,
+      },
+    });
+  }
+
+  it("should put jobs with an expired lease back to pending", async () => {
+    const now = new Date();
+    const lockedAt = new Date(now.getTime() - 5000);
+    const job = await createProcessingJob({
+      lockedBy: "worker-dead",
+      lockedAt,
+      lockedUntil: new Date(now.getTime() - 1),
+    });
+
+    expect(await recoverStuckJobs(now)).toBe(1);
+
+    const recovered = await prisma.job.findUniqueOrThrow({
+      where: { id: job.id },
+      include: { attemptHistory: true },
+    });
+    expect(recovered).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      failureKind: "interrupted",
+      lockedBy: null,
+      lockedAt: null,
+      lockedUntil: null,
+    });
+    expect(recovered.attemptHistory).toEqual([
+      expect.objectContaining({
+        attempt: 1,
+        outcome: "retrying",
+        failureKind: "interrupted",
+        startedAt: lockedAt,
+        durationMs: 5000,
+      }),
+    ]);
+  });
+
+  it("should fail jobs that used their last attempt", async () => {
+    const job = await createProcessingJob({
+      attempts: 3,
+      maxAttempts: 3,
+      lockedBy: "worker-dead",
+      lockedAt: new Date(0),
+      lockedUntil: new Date(0),
+      callbackUrl: "https://hooks.example.com/done",
+    });
+
+    expect(await recoverStuckJobs()).toBe(1);
+
+    const recovered = await prisma.job.findUniqueOrThrow({
+      where: { id: job.id },
+      include: { callbacks: true },
+    });
+    expect(recovered).toMatchObject({ status: "failed", failureKind: "interrupted" });
+    expect(recovered.callbacks).toEqual([expect.objectContaining({ event: "job.failed" })]);
+  });
+
+  it("should fail dependents of jobs that could not be recovered", async () => {
+    const parent = await createProcessingJob({
+      attempts: 1,
+      maxAttempts: 1,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+    const child = await prisma.job.create({
+      data: {
+        method: "GET",
+        url: "https://api.example.com/child",
+        userId,
+        dependencies: { create: { parentId: parent.id, position: 0 } },
+      },
+    });
+
+    await recoverStuckJobs();
+
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: child.id } })).toMatchObject({
+      status: "failed",
+      failureKind: "dependency",
+    });
+  });
+
+  it("should recover jobs without an owner", async () => {
+    const job = await createProcessingJob({ lockedBy: null, lockedUntil: null });
+
+    expect(await recoverStuckJobs()).toBe(1);
+
+    expect((await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).status).toBe("pending");
+  });
+
+  it("should recover jobs whose owner is no longer a live worker", async () => {
+    const now = new Date();
+    const job = await createProcessingJob({
+      lockedBy: "worker-gone",
+      lockedAt: now,
+      lockedUntil: new Date(now.getTime() + 10_000),
+    });
+
+    expect(await recoverStuckJobs(now)).toBe(1);
+
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).toMatchObject({
+      status: "pending",
+      lockedBy: null,
+    });
+  });
+
+  it("should leave stale attempts alone while their owner holds the lease", async () => {
+    const now = new Date();
+    await heartbeatWorker("worker-hung", { maxConcurrent: 5, currentJobs: 1 }, now);
+    const job = await createProcessingJob({
+      lockedBy: "worker-hung",
+      lockedAt: new Date(now.getTime() - config.recovery.staleAfterMs - 1),
+      lockedUntil: new Date(now.getTime() + 10_000),
+    });
+
+    expect(await recoverStuckJobs(now)).toBe(0);
+
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).toMatchObject({
+      status: "processing",
+      lockedBy: "worker-hung",
+    });
+  });
+
+  it("should leave jobs of live workers and finished jobs alone", async () => {
+    const now = new Date();
+    await heartbeatWorker("worker-live", { maxConcurrent: 5, currentJobs: 1 }, now);
+    const running = await createProcessingJob({
+      lockedBy: "worker-live",
+      lockedAt: now,
+      lockedUntil: new Date(now.getTime() + 10_000),
+    });
+    const finished = await createProcessingJob({ lockedBy: null, lockedUntil: null });
+    await prisma.job.update({ where: { id: finished.id }, data: { status: "completed" } });
+
+    expect(await recoverStuckJobs(now)).toBe(0);
+
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: running.id } })).toMatchObject({
+      status: "processing",
+      lockedBy: "worker-live",
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { prisma } from "../../lib/db.js";
+import { subscribeToJobEvents, type JobEvent } from "../../lib/events.js";
+import { fireDueSchedules } from "../../lib/scheduler.js";
+import { createTestUser } from "../setup.js";
+
+/** Helper: insert a schedule directly with the given next fire time. */
+async function createSchedule(
+  userId: string,
+  overrides: { nextFireAt: Date; catchUp?: string; paused?: boolean; cronExpression?: string }
+): Promise<{ id: string }> {
+  return prisma.schedule.create({
+    data: {
+      name: "Test schedule",
+      cronExpression: overrides.cronExpression ?? "*/5 * * * *",
+      catchUp: overrides.catchUp ?? "skip",
+      paused: overrides.paused ?? false,
+      priority: 3,
+      method: "POST",
+      url: "https://api.example.com/tick",
+      headers: '{"x-source":"schedule"}',
+      body: '{"ping":true}',
+      nextFireAt: overrides.nextFireAt,
+      userId,
+    },
+  });
+}
+
+describe("fireDueSchedules", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+  });
+
+  it("should materialise a pending job from the template when due", async () => {
+    const schedule = await createSchedule(userId, {
+      nextFireAt: new Date("2026-06-15T12:05:00.000Z"),
+    });
+
+    const created = await fireDueSchedules(new Date("2026-06-15T12:05:02.000Z"));
+    expect(created).toBe(1);
+
+    const jobs = await prisma.job.findMany({ where: { scheduleId: schedule.id } });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]!.status).toBe("pending");
+    expect(jobs[0]!.method).toBe("POST");
+    expect(jobs[0]!.url).toBe("https://api.example.com/tick");
+    expect(jobs[0]!.headers).toBe('{"x-source":"schedule"}');
+    expect(jobs[0]!.body).toBe('{"ping":true}');
+    expect(jobs[0]!.priority).toBe(3);
+    expect(jobs[0]!.userId).toBe(userId);
+    expect(jobs[0]!.runAt!.toISOString()).toBe("2026-06-15T12:05:00.000Z");
+    expect(jobs[0]!.nextRunAt).toBeNull();
+
+    const updated = await prisma.schedule.findUnique({ where: { id: schedule.id } });
+    expect(updated!.nextFireAt.toISOString()).toBe("2026-06-15T12:10:00.000Z");
+    expect(updated!.lastFiredAt).not.toBeNull();
+  });
+
+  it("should publish a job.created event for each materialised job", async () => {
+    const schedule = await createSchedule(userId, {
+      nextFireAt: new Date("2026-06-15T12:05:00.000Z"),
+      catchUp: "all",
+    });
+    const events: JobEvent[] = [];
+    const unsubscribe = subscribeToJobEvents((event) => events.push(event));
+
+    try {
+      await fireDueSchedules(new Date("2026-06-15T12:10:02.000Z"));
+    } finally {
+      unsubscribe();
+    }
+
+    const jobs = await prisma.job.findMany({ where: { scheduleId: schedule.id } });
+    expect(events.map((event) => event.jobId).sort()).toEqual(jobs.map((job) => job.id).sort());
+    expect(events[0]).toMatchObject({
+      type: "job.created",
+      userId,
+      status: "pending",
+      data: { scheduleId: schedule.id },
+    });
+  });
+
+  it("should not fire schedules that are not yet due", async () => {
+    await createSchedule(userId, { nextFireAt: new Date("2026-06-15T12:10:00.000Z") });
+
+    const created = await fireDueSchedules(new Date("2026-06-15T12:05:00.000Z"));
+    expect(created).toBe(0);
+    expect(await prisma.job.count()).toBe(0);
+  });
+
+  it("should not fire paused schedules", async () => {
+    await createSchedule(userId, {
+      nextFireAt: new Date("2026-06-15T12:00:00.000Z"),
+      paused: true,
+    });
+
+    const created = await fireDueSchedules(new Date("2026-06-15T12:05:00.000Z"));
+    expect(created).toBe(0);
+    expect(await prisma.job.count()).toBe(0);
+  });
+
+  it("should skip missed fires but still advance with the skip policy", async () => {
+    const schedule = await createSchedule(userId, {
+      nextFireAt: new Date("2026-06-15T10:00:00.000Z"),
+      catchUp: "skip",
+    });
+
+    const created = await fireDueSchedules(new Date("2026-06-15T12:02:00.000Z"));
+    expect(created).toBe(0);
+
+    const updated = await prisma.schedule.findUnique({ where: { id: schedule.id } });
+    expect(updated!.nextFireAt.toISOString()).toBe("2026-06-15T12:05:00.000Z");
+    expect(updated!.lastFiredAt).toBeNull();
+  });
+
+  it("should fire missed occurrences once with the once policy", async () => {
+    await createSchedule(userId, {
+      nextFireAt: new Date("2026-06-15T10:00:00.000Z"),
+      catchUp: "once",
+    });
+
+    const created = await fireDueSchedules(new Date("2026-06-15T12:02:00.000Z"));
+    expect(created).toBe(1);
+  });
+
+  it("should fire every missed occurrence with the all policy", async () => {
+    await createSchedule(userId, {
+      nextFireAt: new Date("2026-06-15T11:40:00.000Z"),
+      catchUp: "all",
+    });
+
+    // 11:40, 11:45, 11:50, 11:55, 12:00
+    const created = await fireDueSchedules(new Date("2026-06-15T12:02:00.000Z"));
+    expect(created).toBe(5);
+  });
+
+  it("should not fire the same occurrence twice", async () => {
+    await createSchedule(userId, { nextFireAt: new Date("2026-06-15T12:05:00.000Z") });
+
+    const now = new Date("2026-06-15T12:05:02.000Z");
+    expect(await fireDueSchedules(now)).toBe(1);
+    expect(await fireDueSchedules(now)).toBe(0);
+    expect(await prisma.job.count()).toBe(1);
+  });
+
+  it("should keep materialised jobs when the schedule is deleted", async () => {
+    const schedule = await createSchedule(userId, {
+      nextFireAt: new Date("2026-06-15T12:05:00.000Z"),
+    });
+    await fireDueSchedules(new Date("2026-06-15T12:05:02.000Z"));
+
+    await prisma.schedule.delete({ where: { id: schedule.id } });
+
+    const jobs = await prisma.job.findMany({ where: { userId } });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]!.scheduleId).toBeNull();
+  });
+});
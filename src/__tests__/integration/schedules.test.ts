@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestUser } from "../setup.js";
+
+const validSchedule = {
+  name: "Refresh cache",
+  cronExpression: "*/5 * * * *",
+  method: "POST",
+  url: "https://api.example.com/refresh",
+};
+
+describe("POST /schedules", () => {
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    userId = user.id;
+    token = generateToken(userId);
+  });
+
+  it("should create a schedule with defaults", async () => {
+    const before = Date.now();
+
+    const response = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send(validSchedule);
+
+    expect(response.status).toBe(201);
+    expect(response.body.success).toBe(true);
+
+    const schedule = response.body.data.schedule;
+    expect(schedule.name).toBe("Refresh cache");
+    expect(schedule.cronExpression).toBe("*/5 * * * *");
+    expect(schedule.catchUp).toBe("skip");
+    expect(schedule.paused).toBe(false);
+    expect(schedule.priority).toBe(0);
+    expect(schedule.headers).toBe("{}");
+    expect(schedule.body).toBeNull();
+    expect(schedule.userId).toBe(userId);
+
+    const nextFireAt = new Date(schedule.nextFireAt);
+    expect(nextFireAt.getTime()).toBeGreaterThan(before);
+    expect(nextFireAt.getUTCMinutes() % 5).toBe(0);
+  });
+
+  it("should accept a catch-up policy and job template fields", async () => {
+    const response = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        ...validSchedule,
+        catchUp: "all",
+        priority: 2,
+        headers: '{"x-api-key":"abc"}',
+        body: '{"full":true}',
+      });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.schedule.catchUp).toBe("all");
+    expect(response.body.data.schedule.priority).toBe(2);
+    expect(response.body.data.schedule.headers).toBe('{"x-api-key":"abc"}');
+    expect(response.body.data.schedule.body).toBe('{"full":true}');
+  });
+
+  it("should reject an invalid cron expression", async () => {
+    const response = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ...validSchedule, cronExpression: "every 5 minutes" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it("should reject an unknown catch-up policy", async () => {
+    const response = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ...validSchedule, catchUp: "sometimes" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it("should reject without auth", async () => {
+    const response = await request(app).post("/schedules").send(validSchedule);
+
+    expect(response.status).toBe(401);
+    expect(response.body.success).toBe(false);
+  });
+});
+
+describe("GET /schedules", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    token = generateToken(user.id);
+  });
+
+  it("should list only the user's schedules", async () => {
+    const otherUser = await createTestUser({ email: "other@example.com" });
+    await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${generateToken(otherUser.id)}`)
+      .send(validSchedule);
+
+    await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send(validSchedule);
+
+    const response = await request(app).get("/schedules").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.schedules).toHaveLength(1);
+    expect(response.body.data.count).toBe(1);
+  });
+});
+
+describe("GET /schedules/:id", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    token = generateToken(user.id);
+  });
+
+  it("should return a schedule", async () => {
+    const created = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send(validSchedule);
+
+    const response = await request(app)
+      .get(`/schedules/${created.body.data.schedule.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.schedule.id).toBe(created.body.data.schedule.id);
+  });
+
+  it("should return 404 for another user's schedule", async () => {
+    const otherUser = await createTestUser({ email: "other@example.com" });
+    const created = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${generateToken(otherUser.id)}`)
+      .send(validSchedule);
+
+    const response = await request(app)
+      .get(`/schedules/${created.body.data.schedule.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.message).toBe("Schedule not found");
+  });
+
+  it("should reject invalid UUID", async () => {
+    const response = await request(app)
+      .get("/schedules/not-a-uuid")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+});
+
+describe("POST /schedules/:id/pause and /resume", () => {
+  let token: string;
+  let scheduleId: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    token = generateToken(user.id);
+
+    const created = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send(validSchedule);
+    scheduleId = created.body.data.schedule.id;
+  });
+
+  it("should pause an active schedule", async () => {
+    const response = await request(app)
+      .post(`/schedules/${scheduleId}/pause`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.schedule.paused).toBe(true);
+  });
+
+  it("should return 409 when pausing an already paused schedule", async () => {
+    await request(app)
+      .post(`/schedules/${scheduleId}/pause`)
+      .set("Authorization", `Bearer ${token}`);
+
+    const response = await request(app)
+      .post(`/schedules/${scheduleId}/pause`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(409);
+    expect(response.body.error.message).toBe("Schedule is already paused");
+  });
+
+  it("should resume from the next occurrence after now", async () => {
+    await request(app)
+      .post(`/schedules/${scheduleId}/pause`)
+      .set("Authorization", `Bearer ${token}`);
+
+    // Simulate a long pause: the stored next fire time is now in the past
+    await prisma.schedule.update({
+      where: { id: scheduleId },
+      data: { nextFireAt: new Date("2020-01-01T00:00:00.000Z") },
+    });
+
+    const before = Date.now();
+    const response = await request(app)
+      .post(`/schedules/${scheduleId}/resume`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.schedule.paused).toBe(false);
+    expect(new Date(response.body.data.schedule.nextFireAt).getTime()).toBeGreaterThan(before);
+  });
+
+  it("should return 409 when resuming an active schedule", async () => {
+    const response = await request(app)
+      .post(`/schedules/${scheduleId}/resume`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(409);
+    expect(response.body.error.message).toBe("Schedule is not paused");
+  });
+});
+
+describe("DELETE /schedules/:id", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    token = generateToken(user.id);
+  });
+
+  it("should delete the schedule", async () => {
+    const created = await request(app)
+      .post("/schedules")
+      .set("Authorization", `Bearer ${token}`)
+      .send(validSchedule);
+    const scheduleId = created.body.data.schedule.id;
+
+    const response = await request(app)
+      .delete(`/schedules/${scheduleId}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.message).toBe("Schedule deleted");
+
+    const dbSchedule = await prisma.schedule.findUnique({ where: { id: scheduleId } });
+    expect(dbSchedule).toBeNull();
+  });
+
+  it("should return 404 for non-existent schedule", async () => {
+    const response = await request(app)
+      .delete("/schedules/123e4567-e89b-12d3-a456-426614174000")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.message).toBe("Schedule not found");
+  });
+});
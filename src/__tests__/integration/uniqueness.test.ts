@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { createTestUser } from "../setup.js";
+
+const refresh = { method: "POST", url: "https://api.example.com/refresh", uniqueKey: "customer-1" };
+
+describe("unique pending jobs", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const user = await createTestUser();
+    token = generateToken(user.id);
+  });
+
+  async function submit(body: Record<string, unknown>): Promise<request.Response> {
+    return request(app).post("/jobs").set("Authorization", `Bearer ${token}`).send(body);
+  }
+
+  describe("reject", () => {
+    it("should reject a duplicate of a pending job by default", async () => {
+      const first = await submit(refresh);
+      const second = await submit(refresh);
+
+      expect(first.status).toBe(201);
+      expect(first.body.data.job.uniqueKey).toBe("customer-1");
+      expect(second.status).toBe(409);
+      expect(second.body.error.message).toContain(first.body.data.job.id);
+    });
+
+    it("should reject a duplicate of a processing job", async () => {
+      const first = await submit(refresh);
+      await prisma.job.update({
+        where: { id: first.body.data.job.id },
+        data: { status: "processing" },
+      });
+
+      expect((await submit({ ...refresh, uniquePolicy: "reject" })).status).toBe(409);
+    });
+
+    it("should allow a new job once the previous one has finished", async () => {
+      const first = await submit(refresh);
+      await prisma.job.update({
+        where: { id: first.body.data.job.id },
+        data: { status: "completed" },
+      });
+
+      expect((await submit(refresh)).status).toBe(201);
+    });
+
+    it("should scope keys per user", async () => {
+      const other = await createTestUser({ email: "other-unique@example.com" });
+      await submit(refresh);
+
+      const response = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${generateToken(other.id)}`)
+        .send(refresh);
+
+      expect(response.status).toBe(201);
+    });
+  });
+
+  describe("replace", () => {
+    it("should cancel the pending job and create the new one", async () => {
+      const first = await submit(refresh);
+      const second = await submit({ ...refresh, uniquePolicy: "replace", priority: 5 });
+
+      expect(second.status).toBe(201);
+      expect(second.body.data.job.id).not.toBe(first.body.data.job.id);
+
+      const replaced = await prisma.job.findUnique({ where: { id: first.body.data.job.id } });
+      expect(replaced?.status).toBe("cancelled");
+    });
+
+    it("should refuse to replace a processing job", async () => {
+      const first = await submit(refresh);
+      await prisma.job.update({
+        where: { id: first.body.data.job.id },
+        data: { status: "processing" },
+      });
+
+      const response = await submit({ ...refresh, uniquePolicy: "replace" });
+
+      expect(response.status).toBe(409);
+      expect(await prisma.job.count()).toBe(1);
+    });
+
+    it("should cascade to dependents of the replaced job", async () => {
+      const first = await submit(refresh);
+      const child = await submit({
+        method: "GET",
+        url: "https://api.example.com/child",
+        dependsOn: [first.body.data.job.id],
+        onParentFailure: "skip",
+      });
+
+      await submit({ ...refresh, uniquePolicy: "replace" });
+
+      const stored = await prisma.job.findUnique({ where: { id: child.body.data.job.id } });
+      expect(stored?.status).toBe("skipped");
+    });
+  });
+
+  describe("merge", () => {
+    it("should keep the existing job and adopt the more urgent priority", async () => {
+      const first = await submit({ ...refresh, priority: 5 });
+      const second = await submit({ ...refresh, uniquePolicy: "merge", priority: 1 });
+
+      expect(second.status).toBe(200);
+      expect(second.body.data.job.id).toBe(first.body.data.job.id);
+      expect(second.body.data.job.priority).toBe(1);
+      expect(await prisma.job.count()).toBe(1);
+    });
+
+    it("should not lower the priority of the existing job", async () => {
+      await submit({ ...refresh, priority: 1 });
+      const second = await submit({ ...refresh, uniquePolicy: "merge", priority: 9 });
+
+      expect(second.body.data.job.priority).toBe(1);
+    });
+  });
+
+  describe("POST /jobs/batch", () => {
+    it("should apply each item's policy", async () => {
+      const pending = await submit({ ...refresh, uniqueKey: "a", priority: 5 });
+      await submit({ ...refresh, uniqueKey: "b" });
+
+      const response = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          jobs: [
+            { ...refresh, uniqueKey: "a", uniquePolicy: "merge", priority: 0 },
+            { ...refresh, uniqueKey: "b", uniquePolicy: "replace" },
+            { ...refresh, uniqueKey: "c" },
+          ],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.merged).toBe(1);
+      expect(response.body.data.jobs[0].id).toBe(pending.body.data.job.id);
+      expect(response.body.data.jobs[0].priority).toBe(0);
+      expect(await prisma.job.count({ where: { status: "pending" } })).toBe(3);
+      expect(await prisma.job.count({ where: { status: "cancelled" } })).toBe(1);
+    });
+
+    it("should reject the whole batch when an item is rejected", async () => {
+      await submit(refresh);
+
+      const response = await request(app)
+        .post("/jobs/batch")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ jobs: [{ ...refresh, uniqueKey: "other" }, refresh] });
+
+      expect(response.status).toBe(409);
+      expect(await prisma.job.count()).toBe(1);
+    });
+  });
+});
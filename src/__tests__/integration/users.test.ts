@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { NotFoundError } from "../../lib/errors.js";
+import { findUserRole, promoteToAdmin } from "../../lib/users.js";
+import { createTestUser } from "../setup.js";
+
+describe("users", () => {
+  describe("promoteToAdmin", () => {
+    it("should give the user the admin role", async () => {
+      const user = await createTestUser({ email: "ops@example.com" });
+
+      expect(await promoteToAdmin("ops@example.com")).toEqual({
+        id: user.id,
+        email: "ops@example.com",
+      });
+      expect(await findUserRole(user.id)).toBe("admin");
+    });
+
+    it("should reject an unknown email", async () => {
+      await expect(promoteToAdmin("nobody@example.com")).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe("findUserRole", () => {
+    it("should return null for a deleted user", async () => {
+      expect(await findUserRole("00000000-0000-0000-0000-000000000000")).toBeNull();
+    });
+  });
+});
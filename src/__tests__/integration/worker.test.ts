@@ -0,0 +1,284 @@
+import { createServer, type Server, type ServerResponse } from "node:http";
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+import app from "../../index.js";
+import {
+  getCircuitBreakers,
+  hostOf,
+  recordCircuitOutcome,
+  unavailableHosts,
+} from "../../lib/circuitBreakers.js";
+import { config } from "../../lib/config.js";
+import { prisma } from "../../lib/db.js";
+import { generateToken } from "../../lib/jwt.js";
+import { heartbeatWorker } from "../../lib/leases.js";
+import { takeRateLimitToken } from "../../lib/rateLimits.js";
+import {
+  getWorkerStatus,
+  resetWorkerStateForTest,
+  startWorker,
+  stopWorker,
+  triggerTick,
+} from "../../lib/worker.js";
+import { createTestJob, createTestUser } from "../setup.js";
+
+let target: Server;
+let targetUrl = "";
+// Responses to /slow, answered only when a test lets them go
+let heldResponses: ServerResponse[] = [];
+
+beforeAll(async () => {
+  target = createServer((req, res) => {
+    if (req.url === "/slow") {
+      heldResponses.push(res);
+      return;
+    }
+
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true }));
+  });
+
+  await new Promise<void>((resolve) => target.listen(0, "127.0.0.1", () => resolve()));
+
+  const address = target.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Failed to start target server");
+  }
+
+  targetUrl = `http://127.0.0.1:${address.port}`;
+});
+
+afterAll(async () => {
+  target.closeAllConnections();
+  await new Promise<void>((resolve) => target.close(() => resolve()));
+});
+
+/** Helper: wait until the job reaches `status`, checking the database. */
+async function waitForStatus(jobId: string, status: string, timeout = 5000): Promise<void> {
+  await vi.waitFor(
+    async () => {
+      const job = await prisma.job.findUniqueOrThrow({ where: { id: jobId } });
+      expect(job.status).toBe(status);
+    },
+    { timeout, interval: 20 }
+  );
+}
+
+/** Helper: let pending I/O callbacks and promise continuations run. */
+async function flushIo(): Promise<void> {
+  await new Promise<void>((resolve) => setImmediate(resolve));
+}
+
+/** Helper: empty a rate limit bucket that refills one token per `intervalMs`. */
+async function exhaustRateLimit(key: string, intervalMs: number): Promise<void> {
+  const rule = await prisma.rateLimit.create({ data: { key, limit: 1, intervalMs } });
+  takeRateLimitToken(new Map([[key, rule]]), key);
+}
+
+/** Helper: open the breaker of a host with enough failed requests. */
+function openCircuit(host: string): void {
+  for (let i = 0; i < config.circuitBreaker.minRequests; i++) {
+    recordCircuitOutcome(host, "failure");
+  }
+}
+
+describe("worker", () => {
+  const circuitBreakerDefaults = { ...config.circuitBreaker };
+  let userId: string;
+
+  beforeEach(async () => {
+    heldResponses = [];
+    resetWorkerStateForTest();
+    const user = await createTestUser();
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    Object.assign(config.circuitBreaker, circuitBreakerDefaults);
+    await stopWorker(0);
+    resetWorkerStateForTest();
+
+    for (const res of heldResponses) {
+      res.destroy();
+    }
+  });
+
+  describe("stopWorker", () => {
+    it("should let running jobs finish within the drain timeout", async () => {
+      const job = await createTestJob(userId, { url: `${targetUrl}/slow` });
+
+      startWorker();
+      await waitForStatus(job.id, "processing");
+      await vi.waitFor(() => expect(heldResponses).toHaveLength(1));
+
+      const stopped = stopWorker(5000);
+      heldResponses[0]!.writeHead(200).end("done");
+      await stopped;
+
+      expect(await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).toMatchObject({
+        status: "completed",
+        attempts: 1,
+        lockedBy: null,
+      });
+    });
+
+    it("should requeue jobs still running at the drain timeout", async () => {
+      const drainTimeoutMs = 200;
+      const job = await createTestJob(userId, { url: `${targetUrl}/slow` });
+
+      startWorker();
+      await waitForStatus(job.id, "processing");
+      await vi.waitFor(() => expect(heldResponses).toHaveLength(1));
+
+      const startedAt = Date.now();
+      await stopWorker(drainTimeoutMs);
+      const elapsedMs = Date.now() - startedAt;
+
+      expect(elapsedMs).toBeGreaterThanOrEqual(drainTimeoutMs);
+      expect(elapsedMs).toBeLessThan(drainTimeoutMs + 2000);
+      expect(await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).toMatchObject({
+        status: "pending",
+        attempts: 0,
+        lockedBy: null,
+        lockedUntil: null,
+      });
+      expect(await prisma.worker.count()).toBe(0);
+    });
+  });
+
+  describe("claiming", () => {
+    it("should claim only due jobs that no lease, rate limit, breaker or parent holds back", async () => {
+      const targetHost = hostOf(targetUrl)!;
+      await exhaustRateLimit("limited", 60_000);
+      openCircuit("down.example.com");
+      await heartbeatWorker("worker-other", { maxConcurrent: 1, currentJobs: 1 });
+
+      const leased = await prisma.job.create({
+        data: {
+          method: "GET",
+          url: `${targetUrl}/slow`,
+          status: "processing",
+          attempts: 1,
+          lockedBy: "worker-other",
+          lockedAt: new Date(),
+          lockedUntil: new Date(Date.now() + 60_000),
+          userId,
+        },
+      });
+      const held = [
+        leased,
+        await createTestJob(userId, {
+          url: `${targetUrl}/ok`,
+          nextRunAt: new Date(Date.now() + 60_000),
+        }),
+        await prisma.job.create({
+          data: { method: "GET", url: `${targetUrl}/ok`, rateLimitKey: "limited", userId },
+        }),
+        await prisma.job.create({
+          data: { method: "GET", url: `${targetUrl}/ok`, host: "down.example.com", userId },
+        }),
+        await prisma.job.create({
+          data: {
+            method: "GET",
+            url: `${targetUrl}/ok`,
+            userId,
+            dependencies: { create: { parentId: leased.id, position: 0 } },
+          },
+        }),
+      ];
+      const due = await prisma.job.create({
+        data: { method: "GET", url: `${targetUrl}/slow`, host: targetHost, userId },
+      });
+
+      startWorker();
+      await waitForStatus(due.id, "processing");
+      expect(await triggerTick()).toBe(0);
+
+      const { workerId } = await getWorkerStatus();
+      const claimed = await prisma.job.findUniqueOrThrow({ where: { id: due.id } });
+      expect(claimed).toMatchObject({ attempts: 1, lockedBy: workerId });
+      expect(claimed.lockedUntil!.getTime() - claimed.lockedAt!.getTime()).toBe(
+        config.workers.leaseMs
+      );
+
+      for (const job of held) {
+        expect(await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).toMatchObject({
+          status: job.status,
+          attempts: job.attempts,
+        });
+      }
+    });
+  });
+
+  describe("polling", () => {
+    it("should wake up for a job created through the API", async () => {
+      const token = generateToken(userId);
+
+      startWorker();
+      expect(await triggerTick()).toBe(0);
+
+      // The idle worker's next poll is at least the base interval away
+      const response = await request(app)
+        .post("/jobs")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ method: "GET", url: `${targetUrl}/ok` });
+
+      expect(response.status).toBe(201);
+      await waitForStatus(response.body.data.job.id, "completed", config.workers.pollIntervalMs);
+    });
+
+    it("should back off while idle, up to the maximum poll interval", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const { pollIntervalMs, maxIdlePollIntervalMs } = config.workers;
+
+      startWorker();
+
+      for (let poll = 1; poll <= 4; poll++) {
+        while (setTimeoutSpy.mock.calls.length < poll) {
+          await flushIo();
+        }
+
+        if (poll < 4) {
+          await vi.advanceTimersToNextTimerAsync();
+        }
+      }
+
+      expect(setTimeoutSpy.mock.calls.map(([, delayMs]) => delayMs)).toEqual([
+        Math.min(pollIntervalMs * 2, maxIdlePollIntervalMs),
+        Math.min(pollIntervalMs * 4, maxIdlePollIntervalMs),
+        Math.min(pollIntervalMs * 8, maxIdlePollIntervalMs),
+        maxIdlePollIntervalMs,
+      ]);
+    });
+
+    it("should poll again when an empty rate limit bucket refills", async () => {
+      await exhaustRateLimit("limited", 300);
+      const job = await prisma.job.create({
+        data: { method: "GET", url: `${targetUrl}/ok`, rateLimitKey: "limited", userId },
+      });
+
+      startWorker();
+
+      // Well before the idle poll interval
+      await waitForStatus(job.id, "completed", config.workers.pollIntervalMs);
+    });
+
+    it("should poll again when an open breaker turns half-open", async () => {
+      Object.assign(config.circuitBreaker, { cooldownMs: 300 });
+      const targetHost = hostOf(targetUrl)!;
+      openCircuit(targetHost);
+      expect(unavailableHosts()).toEqual([targetHost]);
+      const job = await prisma.job.create({
+        data: { method: "GET", url: `${targetUrl}/ok`, host: targetHost, userId },
+      });
+
+      startWorker();
+
+      await waitForStatus(job.id, "completed", config.workers.pollIntervalMs);
+      expect(getCircuitBreakers()).toEqual([]);
+    });
+  });
+});
@@ -6,6 +6,13 @@ import bcrypt from "bcrypt";
 beforeEach(async () => {
   // Delete in order to respect foreign key constraints
   await prisma.job.deleteMany();
+  await prisma.schedule.deleteMany();
+  await prisma.queue.deleteMany();
+  await prisma.rateLimit.deleteMany();
+  await prisma.worker.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.dailyUsage.deleteMany();
   await prisma.user.deleteMany();
 });
 
@@ -22,11 +29,13 @@ export async function createTestUser(overrides?: {
   name?: string;
   email?: string;
   password?: string;
+  role?: string;
 }): Promise<{
   id: string;
   name: string;
   email: string;
   password: string;
+  role: string;
   createdAt: Date;
   updatedAt: Date;
 }> {
@@ -37,12 +46,14 @@ export async function createTestUser(overrides?: {
       name: overrides?.name ?? "Test User",
       email: overrides?.email ?? `test-${Date.now()}@example.com`,
       password: hashedPassword,
+      role: overrides?.role ?? "user",
     },
     select: {
       id: true,
       name: true,
       email: true,
       password: true,
+      role: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { generateApiKey, hashApiKey, parseApiKeyScopes } from "../../lib/apiKeys.js";
+
+describe("generateApiKey", () => {
+  it("should return a prefixed key with its display prefix and hash", () => {
+    const { key, prefix, keyHash } = generateApiKey();
+
+    expect(key).toMatch(/^qw_[A-Za-z0-9_-]{32}$/);
+    expect(prefix).toBe(key.slice(0, 11));
+    expect(keyHash).toBe(hashApiKey(key));
+  });
+
+  it("should generate a different key each time", () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key);
+  });
+});
+
+describe("hashApiKey", () => {
+  it("should be a stable SHA-256 hex digest", () => {
+    expect(hashApiKey("qw_example")).toBe(hashApiKey("qw_example"));
+    expect(hashApiKey("qw_example")).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey("qw_example")).not.toBe(hashApiKey("qw_other"));
+  });
+});
+
+describe("parseApiKeyScopes", () => {
+  it("should parse stored scopes", () => {
+    expect(parseApiKeyScopes('["jobs:read"]')).toEqual(["jobs:read"]);
+  });
+
+  it("should reject unknown scopes", () => {
+    expect(() => parseApiKeyScopes('["admin"]')).toThrow();
+  });
+});
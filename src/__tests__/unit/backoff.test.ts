@@ -67,6 +67,36 @@ describe("calculateBackoffMs", () => {
   });
 });
 
+describe("calculateBackoffMs strategies", () => {
+  it("should default to exponential when no strategy is given", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const cfg: BackoffConfig = { ...defaultConfig, strategy: "exponential" };
+    expect(calculateBackoffMs(3, cfg)).toBe(calculateBackoffMs(3, defaultConfig));
+  });
+
+  it("should grow linearly with the linear strategy", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const cfg: BackoffConfig = { ...defaultConfig, strategy: "linear" };
+    expect(calculateBackoffMs(0, cfg)).toBe(1000); // 1000 * 1
+    expect(calculateBackoffMs(1, cfg)).toBe(2000); // 1000 * 2
+    expect(calculateBackoffMs(2, cfg)).toBe(3000); // 1000 * 3
+    expect(calculateBackoffMs(40, cfg)).toBe(30000); // clamped
+  });
+
+  it("should keep a constant delay with the fixed strategy", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const cfg: BackoffConfig = { ...defaultConfig, strategy: "fixed" };
+    expect(calculateBackoffMs(0, cfg)).toBe(1000);
+    expect(calculateBackoffMs(5, cfg)).toBe(1000);
+  });
+
+  it("should still add jitter for non-exponential strategies", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const cfg: BackoffConfig = { ...defaultConfig, strategy: "fixed" };
+    expect(calculateBackoffMs(3, cfg)).toBe(1250);
+  });
+});
+
 describe("nextRunDate", () => {
   it("should return a date delayMs in the future from now", () => {
     const now = new Date("2026-01-15T12:00:00.000Z");
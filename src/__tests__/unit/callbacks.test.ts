@@ -0,0 +1,64 @@
+import { createHmac } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import { buildCallbackPayload, callbackDeliveryFor, signCallback } from "../../lib/callbacks.js";
+
+const job = { id: "job-1", attempts: 2, callbackUrl: "https://hooks.example.com/done" };
+
+describe("buildCallbackPayload", () => {
+  it("should include the job outcome in the envelope", () => {
+    const payload = buildCallbackPayload(
+      job,
+      "job.completed",
+      { status: "completed", result: '{"ok":true}', errorMessage: null },
+      new Date("2026-06-15T12:00:00.000Z")
+    );
+
+    expect(JSON.parse(payload)).toEqual({
+      event: "job.completed",
+      timestamp: "2026-06-15T12:00:00.000Z",
+      job: {
+        id: "job-1",
+        status: "completed",
+        attempts: 2,
+        result: '{"ok":true}',
+        errorMessage: null,
+      },
+    });
+  });
+});
+
+describe("signCallback", () => {
+  it("should sign the timestamp and payload with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "a-very-secret-key")
+      .update('1781524800.{"event":"job.completed"}')
+      .digest("hex");
+
+    expect(signCallback("a-very-secret-key", "1781524800", '{"event":"job.completed"}')).toBe(
+      expected
+    );
+  });
+});
+
+describe("callbackDeliveryFor", () => {
+  it("should return undefined when the job has no callback URL", () => {
+    expect(
+      callbackDeliveryFor(
+        { ...job, callbackUrl: null },
+        { status: "completed", result: null, errorMessage: null }
+      )
+    ).toBeUndefined();
+  });
+
+  it("should pick the event from the outcome", () => {
+    const delivery = callbackDeliveryFor(job, {
+      status: "failed",
+      result: null,
+      errorMessage: "Request failed with status 500",
+    });
+
+    expect(delivery?.create).toMatchObject({
+      event: "job.failed",
+      url: "https://hooks.example.com/done",
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  getCircuitBreakers,
+  hostOf,
+  msUntilHalfOpen,
+  recordCircuitOutcome,
+  recordDispatch,
+  resetCircuitBreaker,
+  resetCircuitBreakersForTest,
+  unavailableHosts,
+  type CircuitBreakerSettings,
+  type CircuitOutcome,
+} from "../../lib/circuitBreakers.js";
+
+const settings: CircuitBreakerSettings = {
+  failureRatio: 0.5,
+  minRequests: 4,
+  windowSize: 10,
+  cooldownMs: 1000,
+};
+const host = "api.example.com";
+
+function record(outcomes: CircuitOutcome[], now = 0): void {
+  for (const outcome of outcomes) {
+    recordCircuitOutcome(host, outcome, now, settings);
+  }
+}
+
+describe("hostOf", () => {
+  it("should return the host with a non-default port", () => {
+    expect(hostOf("https://API.example.com/a")).toBe("api.example.com");
+    expect(hostOf("http://localhost:3000/a")).toBe("localhost:3000");
+    expect(hostOf("not a url")).toBeNull();
+  });
+});
+
+describe("circuit breakers", () => {
+  beforeEach(() => {
+    resetCircuitBreakersForTest();
+  });
+
+  it("should not track healthy hosts", () => {
+    record(["success", "success"]);
+
+    expect(getCircuitBreakers(settings)).toEqual([]);
+  });
+
+  it("should stay closed below the minimum number of requests", () => {
+    record(["failure", "failure", "failure"]);
+
+    expect(unavailableHosts(0, settings)).toEqual([]);
+    expect(getCircuitBreakers(settings)[0]).toMatchObject({ state: "closed", failures: 3 });
+  });
+
+  it("should open once the failure ratio is reached", () => {
+    record(["success", "failure", "success", "failure"], 500);
+
+    expect(unavailableHosts(600, settings)).toEqual([host]);
+    expect(getCircuitBreakers(settings)).toEqual([
+      {
+        host,
+        state: "open",
+        requests: 4,
+        failures: 2,
+        openedAt: new Date(500).toISOString(),
+        retryAt: new Date(1500).toISOString(),
+      },
+    ]);
+  });
+
+  it("should ignore neutral outcomes", () => {
+    record(["failure", "neutral", "neutral", "neutral", "success", "success", "success"]);
+
+    expect(unavailableHosts(0, settings)).toEqual([]);
+    expect(getCircuitBreakers(settings)[0]).toMatchObject({ requests: 4, failures: 1 });
+  });
+
+  it("should only look at the most recent window", () => {
+    record(["failure", "success", "success", "success"]);
+    expect(getCircuitBreakers(settings)).toHaveLength(1);
+
+    record(Array<CircuitOutcome>(10).fill("success"));
+    expect(getCircuitBreakers(settings)).toEqual([]);
+  });
+
+  it("should forget a closed breaker that stayed idle for a cool-down", () => {
+    record(["failure", "success"]);
+
+    expect(unavailableHosts(999, settings)).toEqual([]);
+    expect(getCircuitBreakers(settings)).toHaveLength(1);
+
+    expect(unavailableHosts(1000, settings)).toEqual([]);
+    expect(getCircuitBreakers(settings)).toEqual([]);
+
+    // A fresh window: the earlier requests no longer count towards opening
+    record(["failure", "failure", "failure"], 1000);
+    expect(unavailableHosts(1000, settings)).toEqual([]);
+  });
+
+  it("should keep an open breaker past the cool-down", () => {
+    record(["failure", "failure", "failure", "failure"]);
+
+    unavailableHosts(5000, settings);
+
+    expect(getCircuitBreakers(settings)[0]?.state).toBe("half_open");
+  });
+
+  it("should let a single probe through after the cool-down", () => {
+    record(["failure", "failure", "failure", "failure"]);
+
+    expect(unavailableHosts(999, settings)).toEqual([host]);
+    expect(unavailableHosts(1000, settings)).toEqual([]);
+    expect(getCircuitBreakers(settings)[0]?.state).toBe("half_open");
+
+    recordDispatch(host);
+    expect(unavailableHosts(1000, settings)).toEqual([host]);
+  });
+
+  it("should tell how long until an open breaker lets a probe through", () => {
+    expect(msUntilHalfOpen(0, settings)).toBeNull();
+
+    record(["failure", "failure", "failure", "failure"], 200);
+
+    expect(msUntilHalfOpen(200, settings)).toBe(1000);
+    expect(msUntilHalfOpen(700, settings)).toBe(500);
+    expect(msUntilHalfOpen(1500, settings)).toBe(0);
+
+    unavailableHosts(1200, settings);
+    expect(msUntilHalfOpen(1200, settings)).toBeNull();
+  });
+
+  it("should close after a successful probe", () => {
+    record(["failure", "failure", "failure", "failure"]);
+    unavailableHosts(1000, settings);
+    recordDispatch(host);
+
+    recordCircuitOutcome(host, "success", 1100, settings);
+
+    expect(getCircuitBreakers(settings)).toEqual([]);
+  });
+
+  it("should re-open after a failed probe", () => {
+    record(["failure", "failure", "failure", "failure"]);
+    unavailableHosts(1000, settings);
+    recordDispatch(host);
+
+    recordCircuitOutcome(host, "failure", 1100, settings);
+
+    expect(unavailableHosts(1100, settings)).toEqual([host]);
+    expect(getCircuitBreakers(settings)[0]?.retryAt).toBe(new Date(2100).toISOString());
+  });
+
+  it("should pick a new probe when the probe ends without an answer", () => {
+    record(["failure", "failure", "failure", "failure"]);
+    unavailableHosts(1000, settings);
+    recordDispatch(host);
+
+    recordCircuitOutcome(host, "neutral", 1100, settings);
+
+    expect(unavailableHosts(1100, settings)).toEqual([]);
+    expect(getCircuitBreakers(settings)[0]?.state).toBe("half_open");
+  });
+
+  it("should close on a manual reset", () => {
+    record(["failure", "failure", "failure", "failure"]);
+
+    expect(resetCircuitBreaker(host)).toBe(true);
+    expect(resetCircuitBreaker(host)).toBe(false);
+    expect(unavailableHosts(0, settings)).toEqual([]);
+  });
+});
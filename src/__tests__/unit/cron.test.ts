@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { isValidCron, nextCronDate, parseCron } from "../../lib/cron.js";
+
+function next(expression: string, after: string): string {
+  return nextCronDate(parseCron(expression), new Date(after)).toISOString();
+}
+
+describe("parseCron", () => {
+  it("should expand wildcards to the full range", () => {
+    const cron = parseCron("* * * * *");
+    expect(cron.minutes.size).toBe(60);
+    expect(cron.hours.size).toBe(24);
+    expect(cron.daysOfMonth.size).toBe(31);
+    expect(cron.months.size).toBe(12);
+    expect(cron.daysOfWeek.size).toBe(7);
+    expect(cron.daysOfMonthRestricted).toBe(false);
+    expect(cron.daysOfWeekRestricted).toBe(false);
+  });
+
+  it("should parse lists, ranges and steps", () => {
+    const cron = parseCron("*/15 9-17 1,15 * 1-5");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.daysOfMonthRestricted).toBe(true);
+    expect(cron.daysOfWeekRestricted).toBe(true);
+  });
+
+  it("should treat a stepped single value as a start point", () => {
+    expect([...parseCron("5/20 * * * *").minutes]).toEqual([5, 25, 45]);
+  });
+
+  it("should map day-of-week 7 to Sunday (0)", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("should expand macros", () => {
+    const cron = parseCron("@daily");
+    expect([...cron.minutes]).toEqual([0]);
+    expect([...cron.hours]).toEqual([0]);
+  });
+
+  it("should reject the wrong number of fields", () => {
+    expect(() => parseCron("* * * *")).toThrow();
+    expect(() => parseCron("* * * * * *")).toThrow();
+  });
+
+  it("should reject out-of-range values", () => {
+    expect(() => parseCron("60 * * * *")).toThrow();
+    expect(() => parseCron("* 24 * * *")).toThrow();
+    expect(() => parseCron("* * 0 * *")).toThrow();
+    expect(() => parseCron("* * * 13 *")).toThrow();
+    expect(() => parseCron("* * * * 8")).toThrow();
+  });
+
+  it("should reject malformed fields", () => {
+    expect(() => parseCron("a * * * *")).toThrow();
+    expect(() => parseCron("*/0 * * * *")).toThrow();
+    expect(() => parseCron("10-5 * * * *")).toThrow();
+    expect(() => parseCron("1,,2 * * * *")).toThrow();
+  });
+});
+
+describe("nextCronDate", () => {
+  it("should return the next minute for an every-minute expression", () => {
+    expect(next("* * * * *", "2026-06-15T12:00:30.000Z")).toBe("2026-06-15T12:01:00.000Z");
+  });
+
+  it("should be strictly after the given time", () => {
+    expect(next("*/5 * * * *", "2026-06-15T12:05:00.000Z")).toBe("2026-06-15T12:10:00.000Z");
+  });
+
+  it("should roll over to the next day", () => {
+    expect(next("0 9 * * *", "2026-06-15T10:00:00.000Z")).toBe("2026-06-16T09:00:00.000Z");
+  });
+
+  it("should roll over to the next year", () => {
+    expect(next("0 0 1 1 *", "2026-06-15T10:00:00.000Z")).toBe("2027-01-01T00:00:00.000Z");
+  });
+
+  it("should honour day-of-week", () => {
+    // 2026-06-15 is a Monday
+    expect(next("0 8 * * 5", "2026-06-15T10:00:00.000Z")).toBe("2026-06-19T08:00:00.000Z");
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // 1st of the month OR Friday — Friday 2026-06-19 comes before July 1st
+    expect(next("0 0 1 * 5", "2026-06-15T10:00:00.000Z")).toBe("2026-06-19T00:00:00.000Z");
+  });
+
+  it("should skip months without the requested day", () => {
+    expect(next("0 0 31 * *", "2026-04-01T00:00:00.000Z")).toBe("2026-05-31T00:00:00.000Z");
+  });
+
+  it("should throw for expressions that never fire", () => {
+    expect(() => next("0 0 30 2 *", "2026-01-01T00:00:00.000Z")).toThrow();
+  });
+});
+
+describe("isValidCron", () => {
+  it("should accept valid expressions", () => {
+    expect(isValidCron("*/5 * * * *")).toBe(true);
+    expect(isValidCron("@hourly")).toBe(true);
+  });
+
+  it("should reject invalid or impossible expressions", () => {
+    expect(isValidCron("every five minutes")).toBe(false);
+    expect(isValidCron("0 0 30 2 *")).toBe(false);
+  });
+});
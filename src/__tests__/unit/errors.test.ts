@@ -3,6 +3,7 @@ import {
   AppError,
   ValidationError,
   AuthenticationError,
+  ForbiddenError,
   NotFoundError,
   ConflictError,
 } from "../../lib/errors.js";
@@ -42,6 +43,16 @@ describe("AuthenticationError", () => {
   });
 });
 
+describe("ForbiddenError", () => {
+  it("should create error with status 403 and default message", () => {
+    const error = new ForbiddenError();
+    expect(error.statusCode).toBe(403);
+    expect(error.message).toBe("Insufficient permissions");
+    expect(error.name).toBe("ForbiddenError");
+    expect(error).toBeInstanceOf(AppError);
+  });
+});
+
 describe("NotFoundError", () => {
   it("should create error with status 404 and default message", () => {
     const error = new NotFoundError();
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  getJobEventSubscriberCount,
+  publishJobEvent,
+  subscribeToJobEvents,
+  type JobEvent,
+} from "../../lib/events.js";
+
+const base = { jobId: "job-1", userId: "user-1", status: "pending" } as const;
+
+describe("job event bus", () => {
+  it("should deliver published events to subscribers", () => {
+    const received: JobEvent[] = [];
+    const unsubscribe = subscribeToJobEvents((event) => received.push(event));
+
+    publishJobEvent(
+      { ...base, type: "job.created", data: { attempts: 0 } },
+      new Date("2026-06-15T12:00:00.000Z")
+    );
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      type: "job.created",
+      jobId: "job-1",
+      userId: "user-1",
+      status: "pending",
+      timestamp: "2026-06-15T12:00:00.000Z",
+      data: { attempts: 0 },
+    });
+  });
+
+  it("should assign increasing ids", () => {
+    const received: JobEvent[] = [];
+    const unsubscribe = subscribeToJobEvents((event) => received.push(event));
+
+    publishJobEvent({ ...base, type: "job.created" });
+    publishJobEvent({ ...base, type: "job.started", status: "processing" });
+    unsubscribe();
+
+    expect(received[1]!.id).toBeGreaterThan(received[0]!.id);
+  });
+
+  it("should apply the subscription filter", () => {
+    const received: JobEvent[] = [];
+    const unsubscribe = subscribeToJobEvents(
+      (event) => received.push(event),
+      (event) => event.userId === "user-2"
+    );
+
+    publishJobEvent({ ...base, type: "job.created" });
+    publishJobEvent({ ...base, userId: "user-2", type: "job.created" });
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.userId).toBe("user-2");
+  });
+
+  it("should stop delivering after unsubscribe", () => {
+    const received: JobEvent[] = [];
+    const before = getJobEventSubscriberCount();
+    const unsubscribe = subscribeToJobEvents((event) => received.push(event));
+    expect(getJobEventSubscriberCount()).toBe(before + 1);
+
+    unsubscribe();
+    publishJobEvent({ ...base, type: "job.created" });
+
+    expect(received).toHaveLength(0);
+    expect(getJobEventSubscriberCount()).toBe(before);
+  });
+
+  it("should isolate a throwing subscriber from the others", () => {
+    const received: JobEvent[] = [];
+    const unsubscribeThrowing = subscribeToJobEvents(() => {
+      throw new Error("boom");
+    });
+    const unsubscribe = subscribeToJobEvents((event) => received.push(event));
+
+    expect(() => publishJobEvent({ ...base, type: "job.created" })).not.toThrow();
+    unsubscribeThrowing();
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { hashJobPayload } from "../../lib/idempotency.js";
+import { createJobSchema } from "../../lib/schemas.js";
+
+describe("hashJobPayload", () => {
+  it("should be stable for equal payloads", () => {
+    const a = createJobSchema.parse({ method: "GET", url: "https://example.com", priority: 1 });
+    const b = createJobSchema.parse({ priority: 1, url: "https://example.com", method: "GET" });
+    expect(hashJobPayload(a)).toBe(hashJobPayload(b));
+    expect(hashJobPayload(a)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should change with the payload", () => {
+    const a = createJobSchema.parse({ method: "GET", url: "https://example.com" });
+    const b = createJobSchema.parse({ method: "GET", url: "https://example.com", priority: 2 });
+    expect(hashJobPayload(a)).not.toBe(hashJobPayload(b));
+  });
+});
@@ -26,6 +26,16 @@ describe("JWT utilities", () => {
       expect(payload.userId).toBe(userId);
     });
 
+    it("should carry the user's role", () => {
+      expect(verifyToken(generateToken(userId)).role).toBe("user");
+      expect(verifyToken(generateToken(userId, "admin")).role).toBe("admin");
+    });
+
+    it("should carry the session id when given one", () => {
+      expect(verifyToken(generateToken(userId)).sessionId).toBeUndefined();
+      expect(verifyToken(generateToken(userId, "user", "session-1")).sessionId).toBe("session-1");
+    });
+
     it("should throw on invalid token", () => {
       expect(() => verifyToken("invalid-token")).toThrow();
     });
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeJobCursor,
+  encodeJobCursor,
+  jobCursorWhere,
+  jobOrderBy,
+} from "../../lib/pagination.js";
+
+const job = {
+  id: "b7c8e0f2-0000-4000-8000-000000000001",
+  priority: 2,
+  createdAt: new Date("2026-06-01T10:00:00.000Z"),
+  updatedAt: new Date("2026-06-02T10:00:00.000Z"),
+};
+
+describe("jobOrderBy", () => {
+  it("should keep the historical default order with an id tie-breaker", () => {
+    expect(jobOrderBy("priority")).toEqual([
+      { priority: "asc" },
+      { createdAt: "desc" },
+      { id: "desc" },
+    ]);
+  });
+
+  it("should follow the direction of a single-column sort", () => {
+    expect(jobOrderBy("createdAt")).toEqual([{ createdAt: "asc" }, { id: "asc" }]);
+    expect(jobOrderBy("-updatedAt")).toEqual([{ updatedAt: "desc" }, { id: "desc" }]);
+  });
+});
+
+describe("encodeJobCursor / decodeJobCursor", () => {
+  it("should round-trip the sort values and id", () => {
+    const cursor = decodeJobCursor(encodeJobCursor("priority", job));
+
+    expect(cursor).toEqual({
+      sort: "priority",
+      values: [2, new Date("2026-06-01T10:00:00.000Z")],
+      id: job.id,
+    });
+  });
+
+  it("should reject malformed cursors", () => {
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    expect(decodeJobCursor("%%%")).toBeNull();
+    expect(decodeJobCursor(encode({ s: "url", v: [], id: "x" }))).toBeNull();
+    expect(decodeJobCursor(encode({ s: "createdAt", v: [], id: "x" }))).toBeNull();
+    expect(decodeJobCursor(encode({ s: "createdAt", v: ["not a date"], id: "x" }))).toBeNull();
+    expect(decodeJobCursor(encode({ s: "priority", v: ["2", "2026-06-01"], id: "x" }))).toBeNull();
+  });
+});
+
+describe("jobCursorWhere", () => {
+  it("should build a keyset condition respecting each column direction", () => {
+    const cursor = decodeJobCursor(encodeJobCursor("priority", job))!;
+
+    expect(jobCursorWhere(cursor)).toEqual({
+      OR: [
+        { priority: { gt: 2 } },
+        { priority: 2, createdAt: { lt: job.createdAt } },
+        { priority: 2, createdAt: job.createdAt, id: { lt: job.id } },
+      ],
+    });
+  });
+});
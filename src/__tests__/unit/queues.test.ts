@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { pickQueue, type QueueSettings } from "../../lib/queues.js";
+
+function queue(name: string, overrides: Partial<QueueSettings> = {}): QueueSettings {
+  return { name, concurrency: 5, weight: 1, paused: false, ...overrides };
+}
+
+describe("pickQueue", () => {
+  const none = new Set<string>();
+
+  it("should pick the queue with the fewest running jobs", () => {
+    const running = new Map([
+      ["bulk", 3],
+      ["realtime", 1],
+    ]);
+
+    expect(pickQueue([queue("bulk"), queue("realtime")], running, none)?.name).toBe("realtime");
+  });
+
+  it("should divide running jobs by weight", () => {
+    const running = new Map([
+      ["bulk", 1],
+      ["realtime", 3],
+    ]);
+    const queues = [queue("bulk"), queue("realtime", { weight: 4 })];
+
+    expect(pickQueue(queues, running, none)?.name).toBe("realtime");
+  });
+
+  it("should skip paused, full and exhausted queues", () => {
+    const running = new Map([["full", 2]]);
+    const queues = [
+      queue("paused", { paused: true }),
+      queue("full", { concurrency: 2 }),
+      queue("empty"),
+      queue("open"),
+    ];
+
+    expect(pickQueue(queues, running, new Set(["empty"]))?.name).toBe("open");
+  });
+
+  it("should return null when no queue can take a job", () => {
+    const running = new Map([["full", 1]]);
+    const queues = [queue("full", { concurrency: 1 }), queue("paused", { paused: true })];
+
+    expect(pickQueue(queues, running, none)).toBeNull();
+    expect(pickQueue([], running, none)).toBeNull();
+  });
+
+  it("should prefer the first queue on a tie", () => {
+    expect(pickQueue([queue("a"), queue("b")], new Map(), none)?.name).toBe("a");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { config } from "../../lib/config.js";
+import { QuotaExceededError } from "../../lib/errors.js";
+import {
+  assertBatchSizeWithinQuota,
+  assertBodyWithinQuota,
+  nextUsageReset,
+  usageDay,
+} from "../../lib/quotas.js";
+
+describe("usageDay", () => {
+  it("should be the UTC date", () => {
+    expect(usageDay(new Date("2026-10-19T23:59:59.999Z"))).toBe("2026-10-19");
+    expect(usageDay(new Date("2026-10-20T01:00:00+02:00"))).toBe("2026-10-19");
+  });
+});
+
+describe("nextUsageReset", () => {
+  it("should be the next UTC midnight", () => {
+    expect(nextUsageReset(new Date("2026-10-19T12:00:00Z")).toISOString()).toBe(
+      "2026-10-20T00:00:00.000Z"
+    );
+    expect(nextUsageReset(new Date("2026-12-31T00:00:00Z")).toISOString()).toBe(
+      "2027-01-01T00:00:00.000Z"
+    );
+  });
+});
+
+describe("assertBatchSizeWithinQuota", () => {
+  it("should allow batches up to the limit", () => {
+    expect(() => assertBatchSizeWithinQuota(config.quotas.maxBatchSize)).not.toThrow();
+  });
+
+  it("should reject larger batches with a 429", () => {
+    expect(() => assertBatchSizeWithinQuota(config.quotas.maxBatchSize + 1)).toThrow(
+      QuotaExceededError
+    );
+  });
+});
+
+describe("assertBodyWithinQuota", () => {
+  it("should allow a missing body", () => {
+    expect(() => assertBodyWithinQuota(null)).not.toThrow();
+  });
+
+  it("should measure the body in UTF-8 bytes", () => {
+    const limit = config.quotas.maxBodyBytes;
+
+    expect(() => assertBodyWithinQuota(`"${"a".repeat(limit - 2)}"`)).not.toThrow();
+    // "é" is two bytes, so this body is one byte over the limit
+    expect(() => assertBodyWithinQuota(`"${"a".repeat(limit - 3)}é"`)).toThrow(
+      `Job body of ${limit + 1} bytes exceeds the limit of ${limit}`
+    );
+  });
+});
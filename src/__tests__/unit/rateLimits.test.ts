@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  exhaustedRateLimitKeys,
+  msUntilRateLimitToken,
+  rateLimitKeyFor,
+  refillBucket,
+  resetRateLimitBucketsForTest,
+  takeRateLimitToken,
+  type RateLimitRule,
+} from "../../lib/rateLimits.js";
+
+describe("rateLimitKeyFor", () => {
+  it("should prefer an explicit key", () => {
+    expect(rateLimitKeyFor("https://api.example.com/x", "stripe")).toBe("stripe");
+  });
+
+  it("should fall back to the URL host", () => {
+    expect(rateLimitKeyFor("https://API.Example.com/x?y=1")).toBe("api.example.com");
+    expect(rateLimitKeyFor("http://localhost:8080/x")).toBe("localhost:8080");
+    expect(rateLimitKeyFor("https://api.example.com:443/x")).toBe("api.example.com");
+  });
+
+  it("should return null for an unparseable URL", () => {
+    expect(rateLimitKeyFor("not a url")).toBeNull();
+  });
+});
+
+describe("refillBucket", () => {
+  const rule: RateLimitRule = { key: "api.example.com", limit: 10, intervalMs: 1000 };
+
+  it("should start full", () => {
+    expect(refillBucket(undefined, rule, 5000)).toEqual({ tokens: 10, refilledAt: 5000 });
+  });
+
+  it("should refill in proportion to elapsed time", () => {
+    expect(refillBucket({ tokens: 0, refilledAt: 1000 }, rule, 1250).tokens).toBe(2.5);
+  });
+
+  it("should never exceed the limit", () => {
+    expect(refillBucket({ tokens: 9, refilledAt: 0 }, rule, 60_000).tokens).toBe(10);
+  });
+
+  it("should ignore clock steps backwards", () => {
+    expect(refillBucket({ tokens: 3, refilledAt: 2000 }, rule, 1000).tokens).toBe(3);
+  });
+});
+
+describe("token accounting", () => {
+  const rules = new Map<string, RateLimitRule>([
+    ["api.example.com", { key: "api.example.com", limit: 2, intervalMs: 1000 }],
+  ]);
+
+  beforeEach(() => {
+    resetRateLimitBucketsForTest();
+  });
+
+  it("should exhaust a key after `limit` requests and recover over time", () => {
+    takeRateLimitToken(rules, "api.example.com", 0);
+    expect(exhaustedRateLimitKeys(rules, 0)).toEqual([]);
+
+    takeRateLimitToken(rules, "api.example.com", 0);
+    expect(exhaustedRateLimitKeys(rules, 0)).toEqual(["api.example.com"]);
+    expect(exhaustedRateLimitKeys(rules, 499)).toEqual(["api.example.com"]);
+    expect(exhaustedRateLimitKeys(rules, 500)).toEqual([]);
+  });
+
+  it("should leave keys without a rule unlimited", () => {
+    for (let i = 0; i < 10; i += 1) {
+      takeRateLimitToken(rules, "other.example.com", 0);
+      takeRateLimitToken(rules, null, 0);
+    }
+
+    expect(exhaustedRateLimitKeys(rules, 0)).toEqual([]);
+  });
+
+  it("should tell how long until an empty bucket refills a token", () => {
+    expect(msUntilRateLimitToken(rules, 0)).toBeNull();
+
+    takeRateLimitToken(rules, "api.example.com", 0);
+    takeRateLimitToken(rules, "api.example.com", 0);
+
+    expect(msUntilRateLimitToken(rules, 0)).toBe(500);
+    expect(msUntilRateLimitToken(rules, 200)).toBe(300);
+    expect(msUntilRateLimitToken(rules, 500)).toBeNull();
+  });
+});
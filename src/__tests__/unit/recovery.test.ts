@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { config } from "../../lib/config.js";
+import { assertRecoveryConfig, isStaleAttempt, stuckReason } from "../../lib/recovery.js";
+
+describe("stuckReason", () => {
+  const now = new Date("2026-06-15T12:00:00.000Z");
+  const liveWorkerIds = new Set(["worker-a"]);
+
+  function lease(overrides: { lockedBy?: string | null; lockedUntil?: Date | null }) {
+    return {
+      lockedBy: "worker-a",
+      lockedUntil: new Date("2026-06-15T12:00:20.000Z"),
+      ...overrides,
+    };
+  }
+
+  it("should leave a job with a valid lease and a live owner alone", () => {
+    expect(stuckReason(lease({}), liveWorkerIds, now)).toBeNull();
+  });
+
+  it("should flag jobs without an owner", () => {
+    expect(stuckReason(lease({ lockedBy: null }), liveWorkerIds, now)).toBe("unowned");
+    expect(stuckReason(lease({ lockedUntil: null }), liveWorkerIds, now)).toBe("unowned");
+  });
+
+  it("should flag jobs whose lease ran out", () => {
+    const lockedUntil = new Date(now.getTime() - 1);
+
+    expect(stuckReason(lease({ lockedUntil }), liveWorkerIds, now)).toBe("lease_expired");
+  });
+
+  it("should flag jobs whose owner is no longer a live worker", () => {
+    expect(stuckReason(lease({ lockedBy: "worker-b" }), liveWorkerIds, now)).toBe("owner_gone");
+  });
+});
+
+describe("isStaleAttempt", () => {
+  const now = new Date("2026-06-15T12:00:00.000Z");
+  const staleAfterMs = 600_000;
+  const updatedAt = new Date("2026-06-15T11:59:50.000Z");
+
+  it("should flag attempts running longer than the stale threshold", () => {
+    const lockedAt = new Date(now.getTime() - staleAfterMs - 1);
+
+    expect(isStaleAttempt({ lockedAt, updatedAt }, now, staleAfterMs)).toBe(true);
+    expect(
+      isStaleAttempt(
+        { lockedAt: new Date(now.getTime() - staleAfterMs), updatedAt },
+        now,
+        staleAfterMs
+      )
+    ).toBe(false);
+  });
+
+  it("should fall back to updatedAt when the claim time is unknown", () => {
+    const staleUpdatedAt = new Date(now.getTime() - staleAfterMs - 1);
+
+    expect(isStaleAttempt({ lockedAt: null, updatedAt: staleUpdatedAt }, now, staleAfterMs)).toBe(
+      true
+    );
+  });
+});
+
+describe("assertRecoveryConfig", () => {
+  const { staleAfterMs } = config.recovery;
+
+  afterEach(() => {
+    Object.assign(config.recovery, { staleAfterMs });
+  });
+
+  it("should accept a stale threshold above the maximum request timeout", () => {
+    expect(() => assertRecoveryConfig()).not.toThrow();
+  });
+
+  it("should reject a stale threshold at or below the maximum request timeout", () => {
+    Object.assign(config.recovery, { staleAfterMs: config.requestTimeout.maxMs });
+
+    expect(() => assertRecoveryConfig()).toThrow(/RECOVERY_STALE_AFTER_MS/);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  HttpStatusError,
+  classifyFailure,
+  isRetryableFailure,
+  parseRetryAfterMs,
+  parseRetryOn,
+} from "../../lib/retry.js";
+import type { RetryOnRule } from "../../lib/schemas.js";
+import { TemplateError } from "../../lib/templates.js";
+
+const rule: RetryOnRule = {
+  statuses: [429, "5xx", "400-404"],
+  networkErrors: true,
+  timeouts: false,
+};
+
+describe("classifyFailure", () => {
+  it("should classify HTTP status errors", () => {
+    expect(classifyFailure(new HttpStatusError(503, null, "unavailable"))).toEqual({
+      kind: "status",
+      status: 503,
+    });
+  });
+
+  it("should classify aborted requests as timeouts", () => {
+    const error = new Error("This operation was aborted");
+    error.name = "AbortError";
+    expect(classifyFailure(error)).toEqual({ kind: "timeout" });
+  });
+
+  it("should classify fetch TypeErrors as network errors", () => {
+    expect(classifyFailure(new TypeError("fetch failed"))).toEqual({ kind: "network" });
+  });
+
+  it("should classify unresolved templates", () => {
+    expect(classifyFailure(new TemplateError("missing"))).toEqual({ kind: "template" });
+  });
+
+  it("should classify anything else as a generic error", () => {
+    expect(classifyFailure(new SyntaxError("Unexpected token"))).toEqual({ kind: "error" });
+    expect(classifyFailure("boom")).toEqual({ kind: "error" });
+  });
+});
+
+describe("isRetryableFailure", () => {
+  it("should retry every failure when no rule is set", () => {
+    expect(isRetryableFailure(null, { kind: "status", status: 400 })).toBe(true);
+    expect(isRetryableFailure(null, { kind: "error" })).toBe(true);
+  });
+
+  it("should match exact codes, classes and ranges", () => {
+    expect(isRetryableFailure(rule, { kind: "status", status: 429 })).toBe(true);
+    expect(isRetryableFailure(rule, { kind: "status", status: 500 })).toBe(true);
+    expect(isRetryableFailure(rule, { kind: "status", status: 599 })).toBe(true);
+    expect(isRetryableFailure(rule, { kind: "status", status: 404 })).toBe(true);
+    expect(isRetryableFailure(rule, { kind: "status", status: 405 })).toBe(false);
+    expect(isRetryableFailure(rule, { kind: "status", status: 422 })).toBe(false);
+  });
+
+  it("should always retry a 429", () => {
+    expect(
+      isRetryableFailure({ ...rule, statuses: ["5xx"] }, { kind: "status", status: 429 })
+    ).toBe(true);
+  });
+
+  it("should follow the network and timeout flags", () => {
+    expect(isRetryableFailure(rule, { kind: "network" })).toBe(true);
+    expect(isRetryableFailure(rule, { kind: "timeout" })).toBe(false);
+  });
+
+  it("should never retry generic errors under a rule", () => {
+    expect(isRetryableFailure(rule, { kind: "error" })).toBe(false);
+  });
+
+  it("should never retry template failures", () => {
+    expect(isRetryableFailure(null, { kind: "template" })).toBe(false);
+    expect(isRetryableFailure(rule, { kind: "template" })).toBe(false);
+  });
+});
+
+describe("parseRetryOn", () => {
+  it("should return null when unset", () => {
+    expect(parseRetryOn(null)).toBeNull();
+  });
+
+  it("should parse a stored rule and apply defaults", () => {
+    expect(parseRetryOn('{"statuses":["5xx"]}')).toEqual({
+      statuses: ["5xx"],
+      networkErrors: true,
+      timeouts: true,
+    });
+  });
+});
+
+describe("parseRetryAfterMs", () => {
+  const now = new Date("2026-06-15T12:00:00.000Z");
+
+  it("should parse delay-seconds", () => {
+    expect(parseRetryAfterMs("120", now)).toBe(120_000);
+    expect(parseRetryAfterMs(" 0 ", now)).toBe(0);
+  });
+
+  it("should parse an HTTP-date relative to now", () => {
+    expect(parseRetryAfterMs("Mon, 15 Jun 2026 12:00:30 GMT", now)).toBe(30_000);
+  });
+
+  it("should clamp dates in the past to zero", () => {
+    expect(parseRetryAfterMs("Mon, 15 Jun 2026 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("should return null for missing or malformed values", () => {
+    expect(parseRetryAfterMs(null, now)).toBeNull();
+    expect(parseRetryAfterMs("", now)).toBeNull();
+    expect(parseRetryAfterMs("soon", now)).toBeNull();
+    expect(parseRetryAfterMs("-5", now)).toBeNull();
+  });
+});
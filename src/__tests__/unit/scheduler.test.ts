@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { parseCron } from "../../lib/cron.js";
+import { computeNextFireAt, planScheduleFires } from "../../lib/scheduler.js";
+
+const everyFiveMinutes = parseCron("*/5 * * * *");
+const threshold = 60_000;
+
+function iso(dates: Date[]): string[] {
+  return dates.map((date) => date.toISOString());
+}
+
+describe("computeNextFireAt", () => {
+  it("should return the next occurrence after the given time", () => {
+    const after = new Date("2026-06-15T12:03:00.000Z");
+    expect(computeNextFireAt("*/5 * * * *", after).toISOString()).toBe("2026-06-15T12:05:00.000Z");
+  });
+});
+
+describe("planScheduleFires", () => {
+  it("should fire a single on-time occurrence", () => {
+    const plan = planScheduleFires(
+      everyFiveMinutes,
+      new Date("2026-06-15T12:05:00.000Z"),
+      new Date("2026-06-15T12:05:01.000Z"),
+      "skip",
+      threshold
+    );
+
+    expect(iso(plan.fireTimes)).toEqual(["2026-06-15T12:05:00.000Z"]);
+    expect(plan.missedCount).toBe(0);
+    expect(plan.nextFireAt.toISOString()).toBe("2026-06-15T12:10:00.000Z");
+  });
+
+  it("should fire nothing when the next occurrence is in the future", () => {
+    const plan = planScheduleFires(
+      everyFiveMinutes,
+      new Date("2026-06-15T12:05:00.000Z"),
+      new Date("2026-06-15T12:04:00.000Z"),
+      "all",
+      threshold
+    );
+
+    expect(plan.fireTimes).toEqual([]);
+    expect(plan.nextFireAt.toISOString()).toBe("2026-06-15T12:05:00.000Z");
+  });
+
+  it("should drop missed occurrences with the skip policy", () => {
+    const plan = planScheduleFires(
+      everyFiveMinutes,
+      new Date("2026-06-15T12:00:00.000Z"),
+      new Date("2026-06-15T12:17:00.000Z"),
+      "skip",
+      threshold
+    );
+
+    expect(plan.fireTimes).toEqual([]);
+    expect(plan.missedCount).toBe(4);
+    expect(plan.nextFireAt.toISOString()).toBe("2026-06-15T12:20:00.000Z");
+  });
+
+  it("should fire the latest missed occurrence once with the once policy", () => {
+    const plan = planScheduleFires(
+      everyFiveMinutes,
+      new Date("2026-06-15T12:00:00.000Z"),
+      new Date("2026-06-15T12:17:00.000Z"),
+      "once",
+      threshold
+    );
+
+    expect(iso(plan.fireTimes)).toEqual(["2026-06-15T12:15:00.000Z"]);
+    expect(plan.missedCount).toBe(4);
+  });
+
+  it("should fire every missed occurrence with the all policy", () => {
+    const plan = planScheduleFires(
+      everyFiveMinutes,
+      new Date("2026-06-15T12:00:00.000Z"),
+      new Date("2026-06-15T12:17:00.000Z"),
+      "all",
+      threshold
+    );
+
+    expect(iso(plan.fireTimes)).toEqual([
+      "2026-06-15T12:00:00.000Z",
+      "2026-06-15T12:05:00.000Z",
+      "2026-06-15T12:10:00.000Z",
+      "2026-06-15T12:15:00.000Z",
+    ]);
+  });
+
+  it("should still fire on-time occurrences alongside a skipped backlog", () => {
+    const plan = planScheduleFires(
+      everyFiveMinutes,
+      new Date("2026-06-15T12:00:00.000Z"),
+      new Date("2026-06-15T12:15:30.000Z"),
+      "skip",
+      threshold
+    );
+
+    expect(iso(plan.fireTimes)).toEqual(["2026-06-15T12:15:00.000Z"]);
+    expect(plan.missedCount).toBe(3);
+  });
+
+  it("should cap catch-up fires and jump past the remaining backlog", () => {
+    const plan = planScheduleFires(
+      parseCron("* * * * *"),
+      new Date("2026-06-01T00:00:00.000Z"),
+      new Date("2026-06-15T12:00:30.000Z"),
+      "all",
+      threshold
+    );
+
+    expect(plan.fireTimes).toHaveLength(100);
+    expect(plan.nextFireAt.toISOString()).toBe("2026-06-15T12:01:00.000Z");
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import { config } from "../../lib/config.js";
 import {
   signupSchema,
   signinSchema,
@@ -7,7 +8,13 @@ import {
   jobQuerySchema,
   jobIdParamSchema,
   httpMethodSchema,
+  createScheduleSchema,
+  createQueueSchema,
+  updateQueueSchema,
+  updateWorkerSchema,
+  createApiKeySchema,
 } from "../../lib/schemas.js";
+import { encodeJobCursor } from "../../lib/pagination.js";
 
 describe("signupSchema", () => {
   it("should accept valid signup data", () => {
@@ -171,6 +178,223 @@ describe("createJobSchema", () => {
     });
     expect(result.body).toBe(null);
   });
+
+  it("should accept an ISO runAt timestamp", () => {
+    const result = createJobSchema.parse({
+      method: "GET",
+      url: "https://example.com",
+      runAt: "2026-06-15T09:00:00.000Z",
+    });
+    expect(result.runAt).toBe("2026-06-15T09:00:00.000Z");
+    expect(result.delayMs).toBeUndefined();
+  });
+
+  it("should accept a runAt timestamp with a timezone offset", () => {
+    const result = createJobSchema.parse({
+      method: "GET",
+      url: "https://example.com",
+      runAt: "2026-06-15T09:00:00+02:00",
+    });
+    expect(result.runAt).toBe("2026-06-15T09:00:00+02:00");
+  });
+
+  it("should reject an invalid runAt", () => {
+    expect(() =>
+      createJobSchema.parse({
+        method: "GET",
+        url: "https://example.com",
+        runAt: "tomorrow at nine",
+      })
+    ).toThrow();
+  });
+
+  it("should accept a relative delayMs", () => {
+    const result = createJobSchema.parse({
+      method: "GET",
+      url: "https://example.com",
+      delayMs: 60000,
+    });
+    expect(result.delayMs).toBe(60000);
+  });
+
+  it("should reject a negative delayMs", () => {
+    expect(() =>
+      createJobSchema.parse({
+        method: "GET",
+        url: "https://example.com",
+        delayMs: -1,
+      })
+    ).toThrow();
+  });
+
+  it("should accept a per-job retry policy", () => {
+    const result = createJobSchema.parse({
+      method: "POST",
+      url: "https://example.com/payments/callback",
+      maxAttempts: 11,
+      backoffStrategy: "linear",
+      baseDelayMs: 60000,
+      maxDelayMs: 600000,
+      jitterMs: 0,
+    });
+    expect(result.maxAttempts).toBe(11);
+    expect(result.backoffStrategy).toBe("linear");
+    expect(result.baseDelayMs).toBe(60000);
+    expect(result.maxDelayMs).toBe(600000);
+    expect(result.jitterMs).toBe(0);
+  });
+
+  it("should leave retry policy fields undefined when omitted", () => {
+    const result = createJobSchema.parse({ method: "GET", url: "https://example.com" });
+    expect(result.maxAttempts).toBeUndefined();
+    expect(result.backoffStrategy).toBeUndefined();
+  });
+
+  it("should reject maxAttempts below 1", () => {
+    expect(() =>
+      createJobSchema.parse({ method: "GET", url: "https://example.com", maxAttempts: 0 })
+    ).toThrow();
+  });
+
+  it("should reject an unknown backoff strategy", () => {
+    expect(() =>
+      createJobSchema.parse({
+        method: "GET",
+        url: "https://example.com",
+        backoffStrategy: "random",
+      })
+    ).toThrow();
+  });
+
+  it("should reject baseDelayMs greater than maxDelayMs", () => {
+    expect(() =>
+      createJobSchema.parse({
+        method: "GET",
+        url: "https://example.com",
+        baseDelayMs: 5000,
+        maxDelayMs: 1000,
+      })
+    ).toThrow();
+  });
+
+  it("should accept a retryOn rule and apply defaults", () => {
+    const result = createJobSchema.parse({
+      method: "GET",
+      url: "https://example.com",
+      retryOn: { statuses: [429, "5xx", "500-504"] },
+    });
+    expect(result.retryOn).toEqual({
+      statuses: [429, "5xx", "500-504"],
+      networkErrors: true,
+      timeouts: true,
+    });
+  });
+
+  it("should reject malformed retryOn statuses", () => {
+    for (const status of [99, 600, "6xx", "5XX", "500-", "abc"]) {
+      expect(() =>
+        createJobSchema.parse({
+          method: "GET",
+          url: "https://example.com",
+          retryOn: { statuses: [status] },
+        })
+      ).toThrow();
+    }
+  });
+
+  it("should accept a timeoutMs within the configured bounds", () => {
+    const result = createJobSchema.parse({
+      method: "GET",
+      url: "https://example.com",
+      timeoutMs: 60_000,
+    });
+    expect(result.timeoutMs).toBe(60_000);
+  });
+
+  it("should reject a timeoutMs outside the configured bounds", () => {
+    for (const timeoutMs of [config.requestTimeout.minMs - 1, config.requestTimeout.maxMs + 1]) {
+      expect(() =>
+        createJobSchema.parse({ method: "GET", url: "https://example.com", timeoutMs })
+      ).toThrow();
+    }
+  });
+
+  it("should reject runAt and delayMs together", () => {
+    expect(() =>
+      createJobSchema.parse({
+        method: "GET",
+        url: "https://example.com",
+        runAt: "2026-06-15T09:00:00.000Z",
+        delayMs: 1000,
+      })
+    ).toThrow();
+  });
+
+  it("should accept dependsOn job IDs and a parent failure policy", () => {
+    const parentId = "123e4567-e89b-12d3-a456-426614174000";
+    const result = createJobSchema.parse({
+      method: "GET",
+      url: "https://example.com",
+      dependsOn: [parentId],
+      onParentFailure: "skip",
+    });
+    expect(result.dependsOn).toEqual([parentId]);
+    expect(result.onParentFailure).toBe("skip");
+  });
+
+  it("should reject dependsOn entries that are not job IDs", () => {
+    expect(() =>
+      createJobSchema.parse({ method: "GET", url: "https://example.com", dependsOn: ["parent"] })
+    ).toThrow();
+  });
+
+  it("should accept templates that reference dependencies", () => {
+    const parentId = "123e4567-e89b-12d3-a456-426614174000";
+    expect(() =>
+      createJobSchema.parse({
+        method: "POST",
+        url: "https://example.com/customers/{{parents[0].id}}",
+        body: JSON.stringify({ owner: `{{parents["${parentId}"].owner}}` }),
+        dependsOn: [parentId],
+      })
+    ).not.toThrow();
+  });
+
+  it("should reject templates that reference unknown parents", () => {
+    const result = createJobSchema.safeParse({
+      method: "GET",
+      url: "https://example.com/customers/{{parents[0].id}}",
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(["url"]);
+  });
+
+  it("should accept a uniqueKey with a policy", () => {
+    const result = createJobSchema.parse({
+      method: "GET",
+      url: "https://example.com",
+      uniqueKey: "customer-1",
+      uniquePolicy: "merge",
+    });
+    expect(result.uniqueKey).toBe("customer-1");
+    expect(result.uniquePolicy).toBe("merge");
+  });
+
+  it("should reject a uniquePolicy without a uniqueKey", () => {
+    expect(() =>
+      createJobSchema.parse({ method: "GET", url: "https://example.com", uniquePolicy: "replace" })
+    ).toThrow();
+  });
+
+  it("should reject an unknown onParentFailure policy", () => {
+    expect(() =>
+      createJobSchema.parse({
+        method: "GET",
+        url: "https://example.com",
+        onParentFailure: "ignore",
+      })
+    ).toThrow();
+  });
 });
 
 describe("jobQuerySchema", () => {
@@ -180,16 +404,102 @@ describe("jobQuerySchema", () => {
   });
 
   it("should accept valid status filter", () => {
-    expect(jobQuerySchema.parse({ status: "pending" }).status).toBe("pending");
-    expect(jobQuerySchema.parse({ status: "processing" }).status).toBe("processing");
-    expect(jobQuerySchema.parse({ status: "completed" }).status).toBe("completed");
-    expect(jobQuerySchema.parse({ status: "failed" }).status).toBe("failed");
-    expect(jobQuerySchema.parse({ status: "cancelled" }).status).toBe("cancelled");
+    expect(jobQuerySchema.parse({ status: "pending" }).status).toEqual(["pending"]);
+    expect(jobQuerySchema.parse({ status: "processing" }).status).toEqual(["processing"]);
+    expect(jobQuerySchema.parse({ status: "completed" }).status).toEqual(["completed"]);
+    expect(jobQuerySchema.parse({ status: "failed" }).status).toEqual(["failed"]);
+    expect(jobQuerySchema.parse({ status: "cancelled" }).status).toEqual(["cancelled"]);
+  });
+
+  it("should accept comma separated and repeated list filters", () => {
+    expect(jobQuerySchema.parse({ status: "pending,failed" }).status).toEqual([
+      "pending",
+      "failed",
+    ]);
+    expect(jobQuerySchema.parse({ method: ["GET", "POST,PUT"] }).method).toEqual([
+      "GET",
+      "POST",
+      "PUT",
+    ]);
+    expect(() => jobQuerySchema.parse({ status: "pending,bogus" })).toThrow();
+  });
+
+  it("should apply pagination defaults", () => {
+    const result = jobQuerySchema.parse({});
+    expect(result.limit).toBe(50);
+    expect(result.sort).toBe("priority");
+    expect(result.cursor).toBeUndefined();
+  });
+
+  it("should coerce and bound the limit", () => {
+    expect(jobQuerySchema.parse({ limit: "10" }).limit).toBe(10);
+    expect(() => jobQuerySchema.parse({ limit: "0" })).toThrow();
+    expect(() => jobQuerySchema.parse({ limit: "101" })).toThrow();
+    expect(() => jobQuerySchema.parse({ limit: "ten" })).toThrow();
+  });
+
+  it("should reject an unknown sort", () => {
+    expect(() => jobQuerySchema.parse({ sort: "url" })).toThrow();
+  });
+
+  it("should parse createdAfter / createdBefore into dates", () => {
+    const result = jobQuerySchema.parse({
+      createdAfter: "2026-06-01T00:00:00.000Z",
+      createdBefore: "2026-06-02T00:00:00.000Z",
+    });
+    expect(result.createdAfter?.toISOString()).toBe("2026-06-01T00:00:00.000Z");
+    expect(result.createdBefore?.toISOString()).toBe("2026-06-02T00:00:00.000Z");
+  });
+
+  it("should reject an empty created range", () => {
+    expect(() =>
+      jobQuerySchema.parse({
+        createdAfter: "2026-06-02T00:00:00.000Z",
+        createdBefore: "2026-06-01T00:00:00.000Z",
+      })
+    ).toThrow();
+  });
+
+  it("should decode a valid cursor and reject garbage", () => {
+    const cursor = encodeJobCursor("-createdAt", {
+      id: "job-1",
+      priority: 0,
+      createdAt: new Date("2026-06-01T00:00:00.000Z"),
+      updatedAt: new Date("2026-06-01T00:00:00.000Z"),
+    });
+
+    expect(jobQuerySchema.parse({ sort: "-createdAt", cursor }).cursor?.id).toBe("job-1");
+    expect(() => jobQuerySchema.parse({ cursor: "not-a-cursor" })).toThrow();
+  });
+
+  it("should reject a cursor issued for a different sort", () => {
+    const cursor = encodeJobCursor("-createdAt", {
+      id: "job-1",
+      priority: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(() => jobQuerySchema.parse({ sort: "createdAt", cursor })).toThrow();
   });
 
   it("should reject invalid status", () => {
     expect(() => jobQuerySchema.parse({ status: "invalid" })).toThrow();
   });
+
+  it("should parse the scheduled filter into a boolean", () => {
+    expect(jobQuerySchema.parse({ scheduled: "true" }).scheduled).toBe(true);
+    expect(jobQuerySchema.parse({ scheduled: "false" }).scheduled).toBe(false);
+  });
+
+  it("should reject an invalid scheduled value", () => {
+    expect(() => jobQuerySchema.parse({ scheduled: "yes" })).toThrow();
+  });
+
+  it("should reject scheduled combined with a non-pending status", () => {
+    expect(jobQuerySchema.parse({ scheduled: "true", status: "pending" }).scheduled).toBe(true);
+    expect(() => jobQuerySchema.parse({ scheduled: "true", status: "completed" })).toThrow();
+  });
 });
 
 describe("batchCreateJobsSchema", () => {
@@ -251,6 +561,85 @@ describe("batchCreateJobsSchema", () => {
   it("should reject when jobs is not an array", () => {
     expect(() => batchCreateJobsSchema.parse({ jobs: "not-array" })).toThrow();
   });
+
+  it("should accept dependsOn refs to earlier jobs in the batch", () => {
+    const result = batchCreateJobsSchema.parse({
+      jobs: [
+        { ref: "first", method: "GET", url: "https://example.com/a" },
+        { method: "GET", url: "https://example.com/b", dependsOn: ["first"] },
+      ],
+    });
+    expect(result.jobs[1].dependsOn).toEqual(["first"]);
+  });
+
+  it("should reject dependsOn refs to later jobs in the batch", () => {
+    const result = batchCreateJobsSchema.safeParse({
+      jobs: [
+        { method: "GET", url: "https://example.com/a", dependsOn: ["second"] },
+        { ref: "second", method: "GET", url: "https://example.com/b" },
+      ],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe(
+      "dependsOn may only reference earlier jobs in the batch"
+    );
+  });
+
+  it("should reject dependsOn entries that are neither refs nor job IDs", () => {
+    expect(() =>
+      batchCreateJobsSchema.parse({
+        jobs: [{ method: "GET", url: "https://example.com", dependsOn: ["missing"] }],
+      })
+    ).toThrow();
+  });
+
+  it("should validate templates against the batch dependsOn", () => {
+    expect(() =>
+      batchCreateJobsSchema.parse({
+        jobs: [
+          { ref: "first", method: "GET", url: "https://example.com/a" },
+          {
+            method: "GET",
+            url: "https://example.com/{{parents[1].id}}",
+            dependsOn: ["first"],
+          },
+        ],
+      })
+    ).toThrow();
+  });
+
+  it("should reject duplicate idempotency keys", () => {
+    expect(() =>
+      batchCreateJobsSchema.parse({
+        jobs: [
+          { idempotencyKey: "same", method: "GET", url: "https://example.com/a" },
+          { idempotencyKey: "same", method: "GET", url: "https://example.com/b" },
+        ],
+      })
+    ).toThrow();
+  });
+
+  it("should reject duplicate unique keys", () => {
+    expect(() =>
+      batchCreateJobsSchema.parse({
+        jobs: [
+          { uniqueKey: "same", method: "GET", url: "https://example.com/a" },
+          { uniqueKey: "same", method: "GET", url: "https://example.com/b" },
+        ],
+      })
+    ).toThrow();
+  });
+
+  it("should reject duplicate refs", () => {
+    expect(() =>
+      batchCreateJobsSchema.parse({
+        jobs: [
+          { ref: "same", method: "GET", url: "https://example.com/a" },
+          { ref: "same", method: "GET", url: "https://example.com/b" },
+        ],
+      })
+    ).toThrow();
+  });
 });
 
 describe("jobIdParamSchema", () => {
@@ -265,3 +654,115 @@ describe("jobIdParamSchema", () => {
     expect(() => jobIdParamSchema.parse({ id: "123" })).toThrow();
   });
 });
+
+describe("createScheduleSchema", () => {
+  it("should accept a valid schedule and apply defaults", () => {
+    const result = createScheduleSchema.parse({
+      name: "Ping",
+      cronExpression: "*/5 * * * *",
+      method: "GET",
+      url: "https://example.com/ping",
+    });
+    expect(result.catchUp).toBe("skip");
+    expect(result.priority).toBe(0);
+    expect(result.headers).toBe("{}");
+    expect(result.body).toBeNull();
+  });
+
+  it("should accept each catch-up policy", () => {
+    for (const catchUp of ["skip", "once", "all"]) {
+      const result = createScheduleSchema.parse({
+        name: "Ping",
+        cronExpression: "@hourly",
+        catchUp,
+        method: "GET",
+        url: "https://example.com/ping",
+      });
+      expect(result.catchUp).toBe(catchUp);
+    }
+  });
+
+  it("should reject an invalid cron expression", () => {
+    expect(() =>
+      createScheduleSchema.parse({
+        name: "Ping",
+        cronExpression: "61 * * * *",
+        method: "GET",
+        url: "https://example.com/ping",
+      })
+    ).toThrow();
+  });
+
+  it("should reject a missing name", () => {
+    expect(() =>
+      createScheduleSchema.parse({
+        cronExpression: "* * * * *",
+        method: "GET",
+        url: "https://example.com/ping",
+      })
+    ).toThrow();
+  });
+});
+
+describe("createQueueSchema", () => {
+  it("should accept a queue and apply defaults", () => {
+    const result = createQueueSchema.parse({ name: "bulk-imports", concurrency: 2 });
+    expect(result).toEqual({ name: "bulk-imports", concurrency: 2, weight: 1, paused: false });
+  });
+
+  it("should reject invalid names", () => {
+    for (const name of ["", "-bulk", "bulk imports", "a".repeat(65)]) {
+      expect(() => createQueueSchema.parse({ name, concurrency: 1 })).toThrow();
+    }
+  });
+
+  it("should reject out-of-range concurrency and weight", () => {
+    expect(() => createQueueSchema.parse({ name: "bulk", concurrency: 0 })).toThrow();
+    expect(() => createQueueSchema.parse({ name: "bulk", concurrency: 101 })).toThrow();
+    expect(() => createQueueSchema.parse({ name: "bulk", concurrency: 1, weight: 0 })).toThrow();
+  });
+});
+
+describe("updateQueueSchema", () => {
+  it("should require at least one setting", () => {
+    expect(updateQueueSchema.parse({ weight: 3 })).toEqual({ weight: 3 });
+    expect(() => updateQueueSchema.parse({})).toThrow();
+  });
+});
+
+describe("updateWorkerSchema", () => {
+  it("should accept a concurrency between 1 and 100", () => {
+    expect(updateWorkerSchema.parse({ maxConcurrent: 10 })).toEqual({ maxConcurrent: 10 });
+    expect(() => updateWorkerSchema.parse({ maxConcurrent: 0 })).toThrow();
+    expect(() => updateWorkerSchema.parse({ maxConcurrent: 101 })).toThrow();
+    expect(() => updateWorkerSchema.parse({})).toThrow();
+  });
+});
+
+describe("createApiKeySchema", () => {
+  it("should default to both job scopes and no expiry", () => {
+    expect(createApiKeySchema.parse({ name: "deploy bot" })).toEqual({
+      name: "deploy bot",
+      scopes: ["jobs:read", "jobs:write"],
+    });
+  });
+
+  it("should de-duplicate scopes and reject unknown ones", () => {
+    expect(
+      createApiKeySchema.parse({ name: "reader", scopes: ["jobs:read", "jobs:read"] }).scopes
+    ).toEqual(["jobs:read"]);
+    expect(() => createApiKeySchema.parse({ name: "admin", scopes: ["admin"] })).toThrow();
+    expect(() => createApiKeySchema.parse({ name: "none", scopes: [] })).toThrow();
+  });
+
+  it("should only accept an expiry in the future", () => {
+    const expiresAt = new Date(Date.now() + 60_000).toISOString();
+
+    expect(createApiKeySchema.parse({ name: "temp", expiresAt }).expiresAt).toEqual(
+      new Date(expiresAt)
+    );
+    expect(() =>
+      createApiKeySchema.parse({ name: "temp", expiresAt: "2020-01-01T00:00:00Z" })
+    ).toThrow();
+  });
+});
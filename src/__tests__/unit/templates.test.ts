@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  TemplateError,
+  findTemplateExpressions,
+  jsonStringValues,
+  parseTemplateExpression,
+  renderJobRequest,
+  renderTemplate,
+  resolveTemplateReference,
+  validateTemplates,
+  type ParentResult,
+} from "../../lib/templates.js";
+
+const parentId = "123e4567-e89b-12d3-a456-426614174000";
+
+const parents: ParentResult[] = [
+  {
+    id: parentId,
+    position: 0,
+    result: JSON.stringify({ customer: { id: 42, name: "Ada Lovelace" }, tags: ["a", "b"] }),
+  },
+  { id: "223e4567-e89b-12d3-a456-426614174000", position: 1, result: "plain text" },
+];
+
+describe("parseTemplateExpression", () => {
+  it("should parse an index and a dotted path", () => {
+    expect(parseTemplateExpression("parents[0].customer.id")).toEqual({
+      expression: "parents[0].customer.id",
+      parent: 0,
+      path: ["customer", "id"],
+    });
+  });
+
+  it("should accept dotted indices, job IDs and quoted keys", () => {
+    expect(parseTemplateExpression("parents.1").parent).toBe(1);
+    expect(parseTemplateExpression(`parents["${parentId}"].tags[1]`)).toMatchObject({
+      parent: parentId,
+      path: ["tags", "1"],
+    });
+    expect(parseTemplateExpression("parents[0]['first name']").path).toEqual(["first name"]);
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseTemplateExpression("parents")).toThrow(TemplateError);
+    expect(() => parseTemplateExpression("parents[0]..id")).toThrow(TemplateError);
+    expect(() => parseTemplateExpression("parents.fetch.id")).toThrow(TemplateError);
+  });
+});
+
+describe("findTemplateExpressions", () => {
+  it("should only pick up parents references", () => {
+    expect(
+      findTemplateExpressions("/c/{{ parents[0].customer.id }}?q={{other}}&t={{parents.1}}")
+    ).toEqual(["parents[0].customer.id", "parents.1"]);
+  });
+});
+
+describe("jsonStringValues", () => {
+  it("should collect nested string values", () => {
+    expect(jsonStringValues('{"a":"x","b":[1,"y",{"c":"z"}]}')).toEqual(["x", "y", "z"]);
+  });
+
+  it("should fall back to the raw text for invalid JSON", () => {
+    expect(jsonStringValues("not json")).toEqual(["not json"]);
+    expect(jsonStringValues(null)).toEqual([]);
+  });
+});
+
+describe("validateTemplates", () => {
+  it("should accept references to known parents", () => {
+    expect(
+      validateTemplates(["{{parents[0].id}}", `{{parents["${parentId}"]}}`], [parentId])
+    ).toEqual([]);
+  });
+
+  it("should report references outside dependsOn", () => {
+    expect(validateTemplates(["{{parents[1].id}}"], [parentId])).toHaveLength(1);
+    expect(validateTemplates(["{{parents[0].id}}"], [])).toHaveLength(1);
+  });
+});
+
+describe("resolveTemplateReference", () => {
+  it("should walk objects and arrays", () => {
+    expect(resolveTemplateReference(parseTemplateExpression("parents[0].tags[1]"), parents)).toBe(
+      "b"
+    );
+    expect(
+      resolveTemplateReference(parseTemplateExpression(`parents["${parentId}"].customer`), parents)
+    ).toEqual({ id: 42, name: "Ada Lovelace" });
+  });
+
+  it("should expose non-JSON results as text", () => {
+    expect(resolveTemplateReference(parseTemplateExpression("parents[1]"), parents)).toBe(
+      "plain text"
+    );
+  });
+
+  it("should throw when a value is missing", () => {
+    expect(() =>
+      resolveTemplateReference(parseTemplateExpression("parents[0].customer.email"), parents)
+    ).toThrow(`not found in result of job ${parentId}`);
+    expect(() =>
+      resolveTemplateReference(parseTemplateExpression("parents[0].tags[5]"), parents)
+    ).toThrow(TemplateError);
+    expect(() => resolveTemplateReference(parseTemplateExpression("parents[2]"), parents)).toThrow(
+      "unknown parent"
+    );
+  });
+});
+
+describe("renderTemplate", () => {
+  it("should interpolate values as text", () => {
+    expect(
+      renderTemplate("Hi {{parents[0].customer.name}} #{{parents[0].customer.id}}", parents)
+    ).toBe("Hi Ada Lovelace #42");
+  });
+
+  it("should leave other placeholders alone", () => {
+    expect(renderTemplate("{{ name }}", parents)).toBe("{{ name }}");
+  });
+});
+
+describe("renderJobRequest", () => {
+  it("should render the url, headers and body", () => {
+    const rendered = renderJobRequest(
+      {
+        url: "https://api.example.com/customers/{{parents[0].customer.name}}",
+        headers: { "x-customer": "{{parents[0].customer.id}}" },
+        body: JSON.stringify({
+          customerId: "{{parents[0].customer.id}}",
+          tags: "{{parents[0].tags}}",
+          note: "for {{parents[0].customer.name}}",
+        }),
+      },
+      parents
+    );
+
+    expect(rendered.url).toBe("https://api.example.com/customers/Ada%20Lovelace");
+    expect(rendered.headers).toEqual({ "x-customer": "42" });
+    expect(JSON.parse(rendered.body!)).toEqual({
+      customerId: 42,
+      tags: ["a", "b"],
+      note: "for Ada Lovelace",
+    });
+  });
+
+  it("should reject headers fetch would refuse to send", () => {
+    const multiline = [{ id: parentId, position: 0, result: JSON.stringify({ id: "42\r\nx: y" }) }];
+
+    expect(() =>
+      renderJobRequest(
+        {
+          url: "https://api.example.com",
+          headers: { "x-id": "{{parents[0].id}}" },
+          body: undefined,
+        },
+        multiline
+      )
+    ).toThrow(new TemplateError("Rendered value of header x-id contains CR, LF or NUL"));
+    expect(() =>
+      renderJobRequest(
+        { url: "https://api.example.com", headers: { "x id": "1" }, body: undefined },
+        parents
+      )
+    ).toThrow(TemplateError);
+  });
+
+  it("should leave a request without templates unchanged", () => {
+    const request = { url: "https://api.example.com", headers: {}, body: undefined };
+    expect(renderJobRequest(request, [])).toEqual(request);
+  });
+});
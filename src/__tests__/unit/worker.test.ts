@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { config } from "../../lib/config.js";
+import { backoffConfigForJob, truncateResponseBody } from "../../lib/worker.js";
+
+describe("backoffConfigForJob", () => {
+  it("should fall back to the server-wide backoff config", () => {
+    const cfg = backoffConfigForJob({
+      backoffStrategy: "exponential",
+      baseDelayMs: null,
+      maxDelayMs: null,
+      jitterMs: null,
+    });
+
+    expect(cfg).toEqual({
+      strategy: "exponential",
+      baseDelayMs: config.backoff.baseDelayMs,
+      maxDelayMs: config.backoff.maxDelayMs,
+      jitterMs: config.backoff.jitterMs,
+    });
+  });
+
+  it("should prefer per-job overrides", () => {
+    const cfg = backoffConfigForJob({
+      backoffStrategy: "fixed",
+      baseDelayMs: 5000,
+      maxDelayMs: 60000,
+      jitterMs: 0,
+    });
+
+    expect(cfg).toEqual({ strategy: "fixed", baseDelayMs: 5000, maxDelayMs: 60000, jitterMs: 0 });
+  });
+
+  it("should mix overrides with defaults field by field", () => {
+    const cfg = backoffConfigForJob({
+      backoffStrategy: "linear",
+      baseDelayMs: 250,
+      maxDelayMs: null,
+      jitterMs: null,
+    });
+
+    expect(cfg.baseDelayMs).toBe(250);
+    expect(cfg.maxDelayMs).toBe(config.backoff.maxDelayMs);
+    expect(cfg.jitterMs).toBe(config.backoff.jitterMs);
+  });
+});
+
+describe("truncateResponseBody", () => {
+  it("should keep bodies within the limit unchanged", () => {
+    expect(truncateResponseBody("hello", 5)).toBe("hello");
+  });
+
+  it("should cut off and mark longer bodies", () => {
+    expect(truncateResponseBody("hello world", 5)).toBe("hello…[truncated]");
+  });
+});
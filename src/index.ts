@@ -1,15 +1,24 @@
 import cors from "cors";
 import express, { Request, Response } from "express";
+import type { Server } from "node:http";
 import { config } from "./lib/config.js";
 import { connectDatabase, disconnectDatabase } from "./lib/db.js";
 import { logger } from "./lib/logger.js";
+import { startCallbackDispatcher, stopCallbackDispatcher } from "./lib/callbacks.js";
 import { startCleaner, stopCleaner } from "./lib/cleaner.js";
+import { startScheduler, stopScheduler } from "./lib/scheduler.js";
 import { startWorker, stopWorker } from "./lib/worker.js";
 import { errorHandler } from "./middleware/errorHandler.js";
 import { requestLogger } from "./middleware/requestLogger.js";
+import adminRoutes from "./routes/admin.js";
+import apiKeysRoutes from "./routes/apiKeys.js";
 import authRoutes from "./routes/auth.js";
 import jobsRoutes from "./routes/jobs.js";
+import meRoutes from "./routes/me.js";
 import queueRoutes from "./routes/queue.js";
+import queuesRoutes from "./routes/queues.js";
+import rateLimitsRoutes from "./routes/rateLimits.js";
+import schedulesRoutes from "./routes/schedules.js";
 
 const app = express();
 
@@ -29,9 +38,15 @@ app.get("/health", (_req: Request, res: Response) => {
 });
 
 // Routes
+app.use("/admin", adminRoutes);
+app.use("/auth/api-keys", apiKeysRoutes);
 app.use("/auth", authRoutes);
 app.use("/jobs", jobsRoutes);
+app.use("/me", meRoutes);
 app.use("/queue", queueRoutes);
+app.use("/queues", queuesRoutes);
+app.use("/rate-limits", rateLimitsRoutes);
+app.use("/schedules", schedulesRoutes);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
@@ -46,36 +61,71 @@ app.use((_req: Request, res: Response) => {
 // Error handler
 app.use(errorHandler);
 
+let server: Server | null = null;
+let shuttingDown = false;
+
 // Start server
 async function startServer(): Promise<void> {
   await connectDatabase();
   startWorker();
   startCleaner();
+  startScheduler();
+  startCallbackDispatcher();
 
-  app.listen(config.port, () => {
+  server = app.listen(config.port, () => {
     logger.info({ port: config.port }, "server.start");
   });
 }
 
-// Only start server if this is the main module (not imported for testing)
-const isMainModule = import.meta.url === `file://${process.argv[1]}`;
-if (isMainModule) {
-  // Graceful shutdown
-  process.on("SIGINT", async () => {
-    logger.info("server.shutdown");
-    stopCleaner();
-    stopWorker();
-    await disconnectDatabase();
-    process.exit(0);
+/**
+ * Stop accepting connections and resolve once every open one is closed.
+ * Idle keep-alive connections are closed right away; event streams never
+ * end on their own, so they are cut once `closeAll` resolves.
+ */
+function closeServer(httpServer: Server, closeAll: Promise<void>): Promise<void> {
+  const closed = new Promise<void>((resolve, reject) => {
+    httpServer.close((error) => (error ? reject(error) : resolve()));
   });
 
-  process.on("SIGTERM", async () => {
-    logger.info("server.shutdown");
+  httpServer.closeIdleConnections();
+  void closeAll.then(() => httpServer.closeAllConnections());
+
+  return closed;
+}
+
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  // A second signal skips the drain
+  if (shuttingDown) {
+    logger.warn({ signal }, "server.shutdown_forced");
+    process.exit(1);
+  }
+
+  shuttingDown = true;
+  logger.info({ signal }, "server.shutdown");
+
+  try {
     stopCleaner();
-    stopWorker();
+    stopScheduler();
+    stopCallbackDispatcher();
+
+    const workerStopped = stopWorker();
+    await Promise.all([workerStopped, server ? closeServer(server, workerStopped) : undefined]);
     await disconnectDatabase();
-    process.exit(0);
-  });
+  } catch (error) {
+    logger.error({ error }, "server.shutdown_failed");
+    process.exit(1);
+  }
+
+  logger.info("server.stopped");
+  process.exit(0);
+}
+
+// Only start server if this is the main module (not imported for testing)
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  // Graceful shutdown: in-flight jobs drain, then the server and database close
+  process.on("SIGINT", (signal) => void shutdown(signal));
+  process.on("SIGTERM", (signal) => void shutdown(signal));
 
   startServer().catch((error) => {
     logger.error({ error }, "server.start_failed");
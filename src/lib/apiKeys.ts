@@ -0,0 +1,90 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import { prisma } from "./db.js";
+import { apiKeyScopeSchema, type ApiKeyScope } from "./schemas.js";
+import type { ApiKey, Prisma } from "../generated/prisma/client.js";
+
+// Recognisable in logs and secret scanners
+const apiKeyPrefix = "qw_";
+// Characters of the key kept in `prefix`, including `qw_`
+const displayedKeyLength = 11;
+
+/** Columns of an API key exposed through the API. */
+export const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiKeySelect;
+
+type StoredApiKey = Pick<ApiKey, keyof typeof apiKeySelect>;
+
+export type ApiKeyResponse = Omit<StoredApiKey, "scopes"> & { scopes: ApiKeyScope[] };
+
+export interface GeneratedApiKey {
+  /** The full key, returned to the client once and never stored. */
+  readonly key: string;
+  readonly prefix: string;
+  readonly keyHash: string;
+}
+
+export interface AuthenticatedApiKey {
+  readonly id: string;
+  readonly userId: string;
+  readonly scopes: ApiKeyScope[];
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * A new random key, e.g. `qw_3q2-7wEjD0sVl…`.  192 bits of entropy make a
+ * fast, unsalted hash safe to store and look up by.
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${apiKeyPrefix}${randomBytes(24).toString("base64url")}`;
+
+  return { key, prefix: key.slice(0, displayedKeyLength), keyHash: hashApiKey(key) };
+}
+
+export function parseApiKeyScopes(scopesJson: string): ApiKeyScope[] {
+  return apiKeyScopeSchema.array().parse(JSON.parse(scopesJson));
+}
+
+export function toApiKeyResponse(apiKey: StoredApiKey): ApiKeyResponse {
+  return { ...apiKey, scopes: parseApiKeyScopes(apiKey.scopes) };
+}
+
+/**
+ * Look up the key presented by a client.  Returns `null` for unknown,
+ * revoked and expired keys; otherwise records the use.
+ */
+export async function authenticateApiKey(
+  key: string,
+  now: Date = new Date()
+): Promise<AuthenticatedApiKey | null> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    select: { id: true, userId: true, scopes: true, expiresAt: true, revokedAt: true },
+  });
+
+  if (
+    !apiKey ||
+    apiKey.revokedAt !== null ||
+    (apiKey.expiresAt !== null && apiKey.expiresAt <= now)
+  ) {
+    return null;
+  }
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: now },
+  });
+
+  return { id: apiKey.id, userId: apiKey.userId, scopes: parseApiKeyScopes(apiKey.scopes) };
+}
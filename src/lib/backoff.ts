@@ -1,21 +1,39 @@
+import type { BackoffStrategy } from "./schemas.js";
+
 export interface BackoffConfig {
+  readonly strategy?: BackoffStrategy;
   readonly baseDelayMs: number;
   readonly maxDelayMs: number;
   readonly jitterMs: number;
 }
 
+function baseBackoffMs(attempt: number, cfg: BackoffConfig): number {
+  switch (cfg.strategy ?? "exponential") {
+    case "exponential":
+      return cfg.baseDelayMs * Math.pow(2, attempt);
+    case "linear":
+      return cfg.baseDelayMs * (attempt + 1);
+    case "fixed":
+      return cfg.baseDelayMs;
+  }
+}
+
 /**
- * Compute an exponential-backoff delay with random jitter.
+ * Compute a backoff delay with random jitter.
+ *
+ * Formula: min(delay(attempt), maxDelayMs) + random(0, jitterMs), where delay is
  *
- * Formula: min(baseDelayMs * 2^attempt, maxDelayMs) + random(0, jitterMs)
+ * - exponential (default): baseDelayMs * 2^attempt
+ * - linear:                baseDelayMs * (attempt + 1)
+ * - fixed:                 baseDelayMs
  *
  * @param attempt  Zero-based attempt index (0 → first backoff after the first failure).
- * @param cfg      Backoff tunables – base, max, and jitter in milliseconds.
+ * @param cfg      Backoff tunables – strategy, base, max, and jitter in milliseconds.
  * @returns        Delay in milliseconds before the next retry.
  */
 export function calculateBackoffMs(attempt: number, cfg: BackoffConfig): number {
-  const exponential = cfg.baseDelayMs * Math.pow(2, attempt);
-  const clamped = Math.min(exponential, cfg.maxDelayMs);
+  const delay = baseBackoffMs(attempt, cfg);
+  const clamped = Math.min(delay, cfg.maxDelayMs);
   const jitter = Math.floor(Math.random() * cfg.jitterMs);
   return clamped + jitter;
 }
@@ -0,0 +1,297 @@
+import { createHmac } from "node:crypto";
+
+import { calculateBackoffMs, nextRunDate } from "./backoff.js";
+import { config } from "./config.js";
+import { prisma } from "./db.js";
+import { createChildLogger } from "./logger.js";
+import type { CallbackDelivery, Job, Prisma } from "../generated/prisma/client.js";
+
+const callbackLogger = createChildLogger({ scope: "callbacks" });
+
+// Deliveries sent per tick; the rest wait for the next one
+const deliveryBatchSize = 20;
+
+// How long a claimed delivery stays locked to its dispatcher.  Well past the
+// request timeout, so only a dispatcher that died mid-send loses its claim.
+function claimLeaseMs(): number {
+  return config.callbacks.timeoutMs * 2;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let isTickRunning = false;
+
+export type CallbackEvent = "job.completed" | "job.failed";
+
+export interface CallbackOutcome {
+  readonly status: "completed" | "failed";
+  readonly result: string | null;
+  readonly errorMessage: string | null;
+}
+
+/**
+ * Build the JSON envelope POSTed to a job's callback URL.  The payload is
+ * fixed when the delivery is created so every retry sends identical bytes.
+ */
+export function buildCallbackPayload(
+  job: Pick<Job, "id" | "attempts">,
+  event: CallbackEvent,
+  outcome: CallbackOutcome,
+  now: Date = new Date()
+): string {
+  return JSON.stringify({
+    event,
+    timestamp: now.toISOString(),
+    job: {
+      id: job.id,
+      status: outcome.status,
+      attempts: job.attempts,
+      result: outcome.result,
+      errorMessage: outcome.errorMessage,
+    },
+  });
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<payload>`, hex encoded.  Receivers recompute
+ * it from the `X-QueueWizard-Timestamp` header and the raw request body.
+ */
+export function signCallback(secret: string, timestamp: string, payload: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+}
+
+/**
+ * Nested create input for the delivery a finished job owes its callback URL,
+ * or `undefined` when the job has none.  Written in the same update that
+ * finishes the job so a delivery is never lost between the two.
+ */
+export function callbackDeliveryFor(
+  job: Pick<Job, "id" | "attempts" | "callbackUrl">,
+  outcome: CallbackOutcome
+): Prisma.CallbackDeliveryCreateNestedManyWithoutJobInput | undefined {
+  if (!job.callbackUrl) {
+    return undefined;
+  }
+
+  const event: CallbackEvent = outcome.status === "completed" ? "job.completed" : "job.failed";
+
+  return {
+    create: {
+      event,
+      url: job.callbackUrl,
+      payload: buildCallbackPayload(job, event, outcome),
+    },
+  };
+}
+
+/**
+ * POST one delivery claimed until `lockedUntil` and record the outcome, as
+ * long as the claim was not taken over in the meantime.  Non-2xx responses
+ * and network errors are retried with exponential backoff until
+ * `config.callbacks.maxAttempts`.
+ */
+async function sendDelivery(
+  delivery: CallbackDelivery,
+  secret: string | null,
+  lockedUntil: Date
+): Promise<boolean> {
+  const deliveryLogger = callbackLogger.child({ deliveryId: delivery.id, jobId: delivery.jobId });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    "x-queuewizard-event": delivery.event,
+    "x-queuewizard-delivery": delivery.id,
+    "x-queuewizard-timestamp": timestamp,
+  };
+
+  if (secret) {
+    headers["x-queuewizard-signature"] =
+      `sha256=${signCallback(secret, timestamp, delivery.payload)}`;
+  }
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let errorMessage: string | null = null;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.callbacks.timeoutMs);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers,
+      body: delivery.payload,
+      signal: controller.signal,
+    });
+
+    responseStatus = response.status;
+
+    if (!response.ok) {
+      errorMessage = `Callback failed with status ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : "Unknown error";
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const finishedAt = new Date();
+  // Only the holder of the claim records an outcome
+  const claim = { id: delivery.id, status: "sending", lockedUntil };
+
+  if (!errorMessage) {
+    const saved = await prisma.callbackDelivery.updateMany({
+      where: claim,
+      data: {
+        status: "delivered",
+        attempts,
+        responseStatus,
+        errorMessage: null,
+        deliveredAt: finishedAt,
+        lockedUntil: null,
+      },
+    });
+
+    if (saved.count === 0) {
+      deliveryLogger.warn({ attempts }, "callback.claim_lost");
+      return false;
+    }
+
+    deliveryLogger.info({ attempts, responseStatus }, "callback.delivered");
+    return true;
+  }
+
+  const { maxAttempts, baseDelayMs, maxDelayMs } = config.callbacks;
+  const willRetry = attempts < maxAttempts;
+  const backoffMs = willRetry
+    ? calculateBackoffMs(attempts - 1, {
+        baseDelayMs,
+        maxDelayMs,
+        jitterMs: config.backoff.jitterMs,
+      })
+    : 0;
+
+  const saved = await prisma.callbackDelivery.updateMany({
+    where: claim,
+    data: {
+      status: willRetry ? "pending" : "failed",
+      attempts,
+      responseStatus,
+      errorMessage,
+      lockedUntil: null,
+      ...(willRetry && { nextAttemptAt: nextRunDate(backoffMs, finishedAt) }),
+    },
+  });
+
+  if (saved.count === 0) {
+    deliveryLogger.warn({ attempts, errorMessage }, "callback.claim_lost");
+    return false;
+  }
+
+  deliveryLogger.warn(
+    { attempts, maxAttempts, responseStatus, errorMessage, ...(willRetry && { backoffMs }) },
+    willRetry ? "callback.retrying" : "callback.failed"
+  );
+  return false;
+}
+
+/**
+ * Deliveries this dispatcher may claim: pending ones whose `nextAttemptAt`
+ * has passed, and ones whose sender died before recording an outcome.
+ */
+function claimableWhere(now: Date): Prisma.CallbackDeliveryWhereInput {
+  return {
+    OR: [
+      { status: "pending", nextAttemptAt: { lte: now } },
+      { status: "sending", lockedUntil: { lte: now } },
+    ],
+  };
+}
+
+/**
+ * Claim and send every due delivery.  Each one is claimed with a conditional
+ * update first, so with several server processes only one of them sends it.
+ * Sends run one after another, so each claim and send reads the clock anew.
+ * Returns the number of deliveries that succeeded.
+ */
+export async function deliverDueCallbacks(): Promise<number> {
+  const due = await prisma.callbackDelivery.findMany({
+    where: claimableWhere(new Date()),
+    orderBy: { nextAttemptAt: "asc" },
+    take: deliveryBatchSize,
+    include: { job: { select: { callbackSecret: true } } },
+  });
+
+  let delivered = 0;
+
+  for (const { job, ...delivery } of due) {
+    try {
+      const claimedAt = new Date();
+      const lockedUntil = new Date(claimedAt.getTime() + claimLeaseMs());
+      const claimed = await prisma.callbackDelivery.updateMany({
+        where: { id: delivery.id, ...claimableWhere(claimedAt) },
+        data: { status: "sending", lockedUntil },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      if (await sendDelivery(delivery, job.callbackSecret, lockedUntil)) {
+        delivered += 1;
+      }
+    } catch (error) {
+      callbackLogger.error({ err: error, deliveryId: delivery.id }, "callback.delivery_failed");
+    }
+  }
+
+  return delivered;
+}
+
+async function runTick(): Promise<void> {
+  if (isTickRunning) {
+    return;
+  }
+
+  isTickRunning = true;
+
+  try {
+    await deliverDueCallbacks();
+  } catch (error) {
+    callbackLogger.error({ err: error }, "callbacks.tick_failed");
+  } finally {
+    isTickRunning = false;
+  }
+}
+
+/**
+ * Start the periodic callback dispatcher.  Safe to call multiple times —
+ * subsequent calls are no-ops.
+ */
+export function startCallbackDispatcher(): void {
+  if (timer) {
+    return;
+  }
+
+  const { intervalMs, maxAttempts } = config.callbacks;
+
+  callbackLogger.info({ intervalMs, maxAttempts }, "callbacks.started");
+
+  void runTick();
+
+  timer = setInterval(() => {
+    void runTick();
+  }, intervalMs);
+}
+
+/**
+ * Stop the periodic callback dispatcher.
+ */
+export function stopCallbackDispatcher(): void {
+  if (!timer) {
+    return;
+  }
+
+  clearInterval(timer);
+  timer = null;
+  callbackLogger.info("callbacks.stopped");
+}
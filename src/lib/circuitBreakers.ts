@@ -0,0 +1,207 @@
+import { config } from "./config.js";
+import { createChildLogger } from "./logger.js";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/** What one request said about the health of its target host. */
+export type CircuitOutcome = "success" | "failure" | "neutral";
+
+export interface CircuitBreakerSettings {
+  readonly failureRatio: number;
+  readonly minRequests: number;
+  readonly windowSize: number;
+  readonly cooldownMs: number;
+}
+
+interface CircuitBreaker {
+  state: CircuitState;
+  /** Recent request outcomes while closed, oldest first; `true` = failure. */
+  outcomes: boolean[];
+  openedAt: number | null;
+  /** When the last outcome was recorded; idle closed breakers are forgotten. */
+  lastOutcomeAt: number;
+  /** A half-open breaker lets exactly one job through at a time. */
+  probeInFlight: boolean;
+}
+
+export interface CircuitBreakerStatus {
+  readonly host: string;
+  readonly state: CircuitState;
+  readonly requests: number;
+  readonly failures: number;
+  readonly openedAt: string | null;
+  /** When an open breaker will let a probe through. */
+  readonly retryAt: string | null;
+}
+
+// Breakers live in this process only and start closed after a restart.
+// Every host a job reached gets one, so closed ones are evicted once idle.
+const breakers = new Map<string, CircuitBreaker>();
+const circuitLogger = createChildLogger({ scope: "circuit" });
+
+/**
+ * Host (with a non-default port) a job's requests go to, or `null` for an
+ * unparseable URL.
+ */
+export function hostOf(url: string): string | null {
+  return URL.canParse(url) ? new URL(url).host : null;
+}
+
+function open(host: string, breaker: CircuitBreaker, now: number): void {
+  breaker.state = "open";
+  breaker.openedAt = now;
+  breaker.probeInFlight = false;
+  circuitLogger.warn({ host, outcomes: breaker.outcomes.length }, "circuit.opened");
+}
+
+/**
+ * Hosts the worker must not dispatch to right now: open breakers still in
+ * their cool-down and half-open breakers already probing.  An open breaker
+ * whose cool-down has passed turns half-open here, and a closed one that
+ * recorded nothing for a cool-down is dropped.
+ */
+export function unavailableHosts(
+  now: number = Date.now(),
+  settings: CircuitBreakerSettings = config.circuitBreaker
+): string[] {
+  const hosts: string[] = [];
+
+  for (const [host, breaker] of breakers) {
+    if (breaker.state === "closed" && now - breaker.lastOutcomeAt >= settings.cooldownMs) {
+      breakers.delete(host);
+      continue;
+    }
+
+    if (breaker.state === "open" && now - breaker.openedAt! >= settings.cooldownMs) {
+      breaker.state = "half_open";
+      circuitLogger.info({ host }, "circuit.half_opened");
+    }
+
+    if (breaker.state === "open" || (breaker.state === "half_open" && breaker.probeInFlight)) {
+      hosts.push(host);
+    }
+  }
+
+  return hosts;
+}
+
+/**
+ * Milliseconds until the earliest open breaker lets a probe through, or
+ * `null` when none is open.
+ */
+export function msUntilHalfOpen(
+  now: number = Date.now(),
+  settings: CircuitBreakerSettings = config.circuitBreaker
+): number | null {
+  let earliest: number | null = null;
+
+  for (const breaker of breakers.values()) {
+    if (breaker.state === "open") {
+      const waitMs = Math.max(0, breaker.openedAt! + settings.cooldownMs - now);
+      earliest = earliest === null ? waitMs : Math.min(earliest, waitMs);
+    }
+  }
+
+  return earliest;
+}
+
+/**
+ * Note that a job for `host` was claimed.  The first job through a
+ * half-open breaker becomes its probe.
+ */
+export function recordDispatch(host: string | null): void {
+  const breaker = host === null ? undefined : breakers.get(host);
+
+  if (breaker?.state === "half_open") {
+    breaker.probeInFlight = true;
+  }
+}
+
+/**
+ * Feed the result of a finished job into its host's breaker.  Failures are
+ * only counted while closed; a half-open probe closes or re-opens it.
+ */
+export function recordCircuitOutcome(
+  host: string | null,
+  outcome: CircuitOutcome,
+  now: number = Date.now(),
+  settings: CircuitBreakerSettings = config.circuitBreaker
+): void {
+  if (host === null) {
+    return;
+  }
+
+  const breaker = breakers.get(host);
+
+  if (breaker?.state === "half_open") {
+    breaker.probeInFlight = false;
+
+    if (outcome === "failure") {
+      open(host, breaker, now);
+    } else if (outcome === "success") {
+      breakers.delete(host);
+      circuitLogger.info({ host }, "circuit.closed");
+    }
+    return;
+  }
+
+  // Requests dispatched before the breaker opened say nothing new
+  if (breaker?.state === "open" || outcome === "neutral") {
+    return;
+  }
+
+  const tracked = breaker ?? {
+    state: "closed",
+    outcomes: [],
+    openedAt: null,
+    lastOutcomeAt: now,
+    probeInFlight: false,
+  };
+  tracked.outcomes = [...tracked.outcomes, outcome === "failure"].slice(-settings.windowSize);
+  tracked.lastOutcomeAt = now;
+  breakers.set(host, tracked);
+
+  const failures = tracked.outcomes.filter(Boolean).length;
+
+  if (
+    tracked.outcomes.length >= settings.minRequests &&
+    failures / tracked.outcomes.length >= settings.failureRatio
+  ) {
+    open(host, tracked, now);
+  }
+}
+
+/**
+ * Snapshot of every breaker that is open, half-open or has recent
+ * failures, ordered by host.
+ */
+export function getCircuitBreakers(
+  settings: CircuitBreakerSettings = config.circuitBreaker
+): CircuitBreakerStatus[] {
+  return [...breakers.entries()]
+    .filter(([, breaker]) => breaker.state !== "closed" || breaker.outcomes.some(Boolean))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([host, breaker]) => ({
+      host,
+      state: breaker.state,
+      requests: breaker.outcomes.length,
+      failures: breaker.outcomes.filter(Boolean).length,
+      openedAt: breaker.openedAt === null ? null : new Date(breaker.openedAt).toISOString(),
+      retryAt:
+        breaker.state === "open"
+          ? new Date(breaker.openedAt! + settings.cooldownMs).toISOString()
+          : null,
+    }));
+}
+
+/**
+ * Close a host's breaker by hand, forgetting its recent outcomes.  Returns
+ * `false` when the host was not tracked.
+ */
+export function resetCircuitBreaker(host: string): boolean {
+  return breakers.delete(host);
+}
+
+export function resetCircuitBreakersForTest(): void {
+  breakers.clear();
+}
@@ -15,7 +15,7 @@ export function ttlCutoffDate(ttlDays: number, now: Date = new Date()): Date {
 }
 
 /**
- * Delete all completed / failed / cancelled jobs whose `updatedAt`
+ * Delete all completed / failed / cancelled / skipped jobs whose `updatedAt`
  * is older than the configured TTL.  Returns the number of rows removed.
  */
 export async function deleteExpiredJobs(ttlDays: number = config.cleaner.ttlDays): Promise<number> {
@@ -23,7 +23,7 @@ export async function deleteExpiredJobs(ttlDays: number = config.cleaner.ttlDays
 
   const result = await prisma.job.deleteMany({
     where: {
-      status: { in: ["completed", "failed", "cancelled"] },
+      status: { in: ["completed", "failed", "cancelled", "skipped"] },
       updatedAt: { lt: cutoff },
     },
   });
@@ -3,15 +3,91 @@ import "dotenv/config";
 export const config = {
   port: parseInt(process.env["PORT"] || "3000", 10),
   jwtSecret: process.env["JWT_SECRET"] || "default-secret-change-me",
-  jwtExpiresIn: "24h" as const,
+  // 24 h as before refresh tokens existed; lower it (e.g. to 900) once clients refresh
+  jwtExpiresInSeconds: parseInt(process.env["JWT_EXPIRES_IN_SECONDS"] || "86400", 10), // 24 h
+  refreshTokenTtlMs: parseInt(process.env["REFRESH_TOKEN_TTL_MS"] || "2592000000", 10), // 30 days
   logLevel: process.env["LOG_LEVEL"] || "info",
   backoff: {
     baseDelayMs: parseInt(process.env["BACKOFF_BASE_MS"] || "1000", 10),
     maxDelayMs: parseInt(process.env["BACKOFF_MAX_MS"] || "30000", 10),
     jitterMs: parseInt(process.env["BACKOFF_JITTER_MS"] || "500", 10),
+    // Upper bound for delays requested by a target's Retry-After header
+    retryAfterMaxMs: parseInt(process.env["BACKOFF_RETRY_AFTER_MAX_MS"] || "3600000", 10), // 1 h
+  },
+  requestTimeout: {
+    // Used when a job does not set its own timeoutMs
+    defaultMs: parseInt(process.env["REQUEST_TIMEOUT_MS"] || "10000", 10),
+    minMs: parseInt(process.env["REQUEST_TIMEOUT_MIN_MS"] || "100", 10),
+    maxMs: parseInt(process.env["REQUEST_TIMEOUT_MAX_MS"] || "300000", 10), // 5 min
+  },
+  attemptLog: {
+    // Response bodies longer than this are cut off in the attempt history
+    maxBodyLength: parseInt(process.env["ATTEMPT_BODY_MAX_LENGTH"] || "4096", 10),
+  },
+  callbacks: {
+    intervalMs: parseInt(process.env["CALLBACK_INTERVAL_MS"] || "1000", 10),
+    timeoutMs: parseInt(process.env["CALLBACK_TIMEOUT_MS"] || "10000", 10),
+    maxAttempts: parseInt(process.env["CALLBACK_MAX_ATTEMPTS"] || "5", 10),
+    baseDelayMs: parseInt(process.env["CALLBACK_BACKOFF_BASE_MS"] || "5000", 10),
+    maxDelayMs: parseInt(process.env["CALLBACK_BACKOFF_MAX_MS"] || "600000", 10), // 10 min
+  },
+  workers: {
+    // Jobs one process runs at once; can be changed at runtime through /admin/worker
+    maxConcurrent: parseInt(process.env["WORKER_MAX_CONCURRENT"] || "5", 10),
+    // Poll interval while busy; idle workers back off up to maxIdlePollIntervalMs
+    pollIntervalMs: parseInt(process.env["WORKER_POLL_INTERVAL_MS"] || "2500", 10),
+    maxIdlePollIntervalMs: parseInt(process.env["WORKER_MAX_IDLE_POLL_INTERVAL_MS"] || "15000", 10),
+    // Used when a job does not set its own maxAttempts
+    defaultMaxAttempts: parseInt(process.env["WORKER_DEFAULT_MAX_ATTEMPTS"] || "3", 10),
+    // A claimed job is leased to its worker for this long; heartbeats renew the lease
+    leaseMs: parseInt(process.env["WORKER_LEASE_MS"] || "30000", 10),
+    heartbeatIntervalMs: parseInt(process.env["WORKER_HEARTBEAT_INTERVAL_MS"] || "10000", 10),
+    // On shutdown, running jobs get this long to finish before they are aborted and requeued
+    drainTimeoutMs: parseInt(process.env["WORKER_DRAIN_TIMEOUT_MS"] || "25000", 10),
+  },
+  recovery: {
+    // How often processing jobs are checked for a dead or stalled owner
+    intervalMs: parseInt(process.env["RECOVERY_INTERVAL_MS"] || "15000", 10),
+    // Attempts running longer than this are logged as stale; must exceed REQUEST_TIMEOUT_MAX_MS
+    staleAfterMs: parseInt(process.env["RECOVERY_STALE_AFTER_MS"] || "600000", 10), // 10 min
+  },
+  queues: {
+    // Concurrency of the implicit "default" queue until it is configured via /queues
+    defaultConcurrency: parseInt(process.env["QUEUE_DEFAULT_CONCURRENCY"] || "5", 10),
+  },
+  circuitBreaker: {
+    // Open a host's breaker once this share of its recent requests failed...
+    failureRatio: parseFloat(process.env["CIRCUIT_BREAKER_FAILURE_RATIO"] || "0.5"),
+    // ...out of at least this many, looking at no more than the last `windowSize`
+    minRequests: parseInt(process.env["CIRCUIT_BREAKER_MIN_REQUESTS"] || "5", 10),
+    windowSize: parseInt(process.env["CIRCUIT_BREAKER_WINDOW_SIZE"] || "20", 10),
+    // How long an open breaker holds jobs back before letting a single probe through
+    cooldownMs: parseInt(process.env["CIRCUIT_BREAKER_COOLDOWN_MS"] || "30000", 10),
+  },
+  idempotency: {
+    // Repeats of an Idempotency-Key within this window return the original job
+    windowMs: parseInt(process.env["IDEMPOTENCY_WINDOW_MS"] || "86400000", 10), // 24 h
+  },
+  quotas: {
+    // Limits on jobs created through POST /jobs, /jobs/batch and schedules, applied to each user
+    maxPendingJobs: parseInt(process.env["QUOTA_MAX_PENDING_JOBS"] || "1000", 10),
+    // Counted per UTC day; deleting jobs does not give quota back
+    jobsPerDay: parseInt(process.env["QUOTA_JOBS_PER_DAY"] || "10000", 10),
+    // Batches are also capped at 100 jobs by validation
+    maxBatchSize: parseInt(process.env["QUOTA_MAX_BATCH_SIZE"] || "100", 10),
+    maxBodyBytes: parseInt(process.env["QUOTA_MAX_BODY_BYTES"] || "65536", 10), // 64 KiB
+  },
+  events: {
+    // Comment line sent on idle SSE streams so proxies keep the connection open
+    heartbeatMs: parseInt(process.env["EVENTS_HEARTBEAT_MS"] || "15000", 10),
   },
   cleaner: {
     ttlDays: parseInt(process.env["JOB_TTL_DAYS"] || "30", 10),
     intervalMs: parseInt(process.env["CLEANER_INTERVAL_MS"] || "86400000", 10), // 24 h
   },
+  scheduler: {
+    intervalMs: parseInt(process.env["SCHEDULER_INTERVAL_MS"] || "1000", 10),
+    // Fires older than this when the scheduler sees them count as missed (catch-up policy applies)
+    misfireThresholdMs: parseInt(process.env["SCHEDULER_MISFIRE_THRESHOLD_MS"] || "60000", 10),
+  },
 } as const;
@@ -0,0 +1,203 @@
+export interface CronExpression {
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  readonly daysOfWeek: ReadonlySet<number>;
+  /** `true` when the day-of-month field is not `*` (affects day matching). */
+  readonly daysOfMonthRestricted: boolean;
+  /** `true` when the day-of-week field is not `*` (affects day matching). */
+  readonly daysOfWeekRestricted: boolean;
+}
+
+interface FieldRange {
+  readonly name: string;
+  readonly min: number;
+  readonly max: number;
+}
+
+const fieldRanges: readonly FieldRange[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const macros: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// Upper bound on how far ahead `nextCronDate` searches before giving up on
+// expressions that can never match (e.g. "0 0 30 2 *").
+const maxSearchYears = 5;
+
+function parseNumber(value: string, range: FieldRange): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${range.name} value "${value}"`);
+  }
+
+  const parsed = parseInt(value, 10);
+
+  if (parsed < range.min || parsed > range.max) {
+    throw new Error(`${range.name} value ${parsed} out of range ${range.min}-${range.max}`);
+  }
+
+  return parsed;
+}
+
+function parseField(field: string, range: FieldRange): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart, ...rest] = part.split("/");
+
+    if (!rangePart || rest.length > 0) {
+      throw new Error(`Invalid ${range.name} field "${field}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      step = parseNumber(stepPart, { ...range, min: 1, max: range.max });
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === "*") {
+      start = range.min;
+      end = range.max;
+    } else if (rangePart.includes("-")) {
+      const [from, to, ...extra] = rangePart.split("-");
+
+      if (from === undefined || to === undefined || extra.length > 0) {
+        throw new Error(`Invalid ${range.name} range "${rangePart}"`);
+      }
+
+      start = parseNumber(from, range);
+      end = parseNumber(to, range);
+
+      if (start > end) {
+        throw new Error(`Invalid ${range.name} range "${rangePart}"`);
+      }
+    } else {
+      start = parseNumber(rangePart, range);
+      // "5/15" means "every 15 starting at 5"
+      end = stepPart !== undefined ? range.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a standard five-field cron expression
+ * (`minute hour day-of-month month day-of-week`) or one of the `@daily`-style
+ * macros.  Supports `*`, lists, ranges and steps.  Day-of-week accepts 0-7
+ * where both 0 and 7 mean Sunday.
+ *
+ * @throws Error when the expression is malformed.
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  const normalized = macros[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 cron fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, fieldRanges[index] as FieldRange)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2]?.startsWith("*"),
+    daysOfWeekRestricted: !fields[4]?.startsWith("*"),
+  };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  // Classic cron semantics: when both day fields are restricted, either may match.
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+
+  return domMatch && dowMatch;
+}
+
+/**
+ * Return the first time strictly after `after` that matches `cron`.
+ * All matching is done in UTC with minute precision.
+ *
+ * @throws Error when no matching time exists within the search window.
+ */
+export function nextCronDate(cron: CronExpression, after: Date): Date {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limitYear = candidate.getUTCFullYear() + maxSearchYears;
+
+  while (candidate.getUTCFullYear() <= limitYear) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  throw new Error("Cron expression has no upcoming run time");
+}
+
+/**
+ * `true` when `expression` parses and fires at least once in the future.
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    nextCronDate(parseCron(expression), new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -25,7 +25,16 @@ const databaseUrl = process.env["DATABASE_URL"];
 const dbPath = databaseUrl ? resolveDatabasePath(databaseUrl) : defaultDbPath;
 const adapter = new PrismaBetterSqlite3({ url: dbPath });
 
-export const prisma = new PrismaClient({ adapter });
+// Callback signing secrets are write-only and idempotency, API key and refresh
+// token hashes internal: never load them unless a query asks explicitly
+export const prisma = new PrismaClient({
+  adapter,
+  omit: {
+    job: { callbackSecret: true, idempotencyHash: true },
+    apiKey: { keyHash: true },
+    session: { refreshTokenHash: true },
+  },
+});
 
 export async function connectDatabase(): Promise<void> {
   try {
@@ -0,0 +1,137 @@
+import { callbackDeliveryFor } from "./callbacks.js";
+import { prisma } from "./db.js";
+import { ConflictError, ValidationError } from "./errors.js";
+import { publishJobEvent, type JobEventType } from "./events.js";
+import { createJobLogger } from "./logger.js";
+import type { ParentFailurePolicy } from "./schemas.js";
+import type { Job, Prisma } from "../generated/prisma/client.js";
+
+/** Statuses from which a job can never reach `completed` without a manual retry. */
+const deadEndStatuses = ["failed", "cancelled", "skipped"];
+
+const policyOutcomes: Record<
+  ParentFailurePolicy,
+  { readonly status: string; readonly event: JobEventType }
+> = {
+  fail: { status: "failed", event: "job.failed" },
+  cancel: { status: "cancelled", event: "job.cancelled" },
+  skip: { status: "skipped", event: "job.skipped" },
+};
+
+/**
+ * Check that every parent exists, belongs to the user and can still complete.
+ * Runs inside the creating transaction so a parent cannot fail in between.
+ */
+export async function assertDependenciesUsable(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  parentIds: readonly string[]
+): Promise<void> {
+  if (parentIds.length === 0) {
+    return;
+  }
+
+  const parents = await tx.job.findMany({
+    where: { id: { in: [...parentIds] }, userId },
+    select: { id: true, status: true },
+  });
+  const statusById = new Map(parents.map((parent) => [parent.id, parent.status]));
+
+  for (const parentId of parentIds) {
+    const status = statusById.get(parentId);
+
+    if (status === undefined) {
+      throw new ValidationError(`Unknown dependency: ${parentId}`);
+    }
+
+    if (deadEndStatuses.includes(status)) {
+      throw new ConflictError(`Dependency ${parentId} is already ${status}`);
+    }
+  }
+}
+
+/**
+ * Reject a manual retry of a job while one of its parents sits in a dead-end
+ * status.  The job would go back to pending, but the claim query never runs
+ * it and no cascade would reach it again.
+ */
+export async function assertParentsRetryable(
+  tx: Prisma.TransactionClient,
+  jobId: string
+): Promise<void> {
+  const deadParent = await tx.job.findFirst({
+    where: {
+      status: { in: deadEndStatuses },
+      dependents: { some: { childId: jobId } },
+    },
+    select: { id: true, status: true },
+  });
+
+  if (deadParent) {
+    throw new ConflictError(
+      `Cannot retry while dependency ${deadParent.id} is ${deadParent.status}`
+    );
+  }
+}
+
+/**
+ * Apply each pending descendant's `onParentFailure` policy after `parent`
+ * reached a dead-end status, walking the DAG breadth-first.  Returns the
+ * number of descendants that changed status.
+ */
+export async function cascadeParentFailure(parent: Pick<Job, "id" | "status">): Promise<number> {
+  const queue: Array<Pick<Job, "id" | "status">> = [parent];
+  let affected = 0;
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    const children = await prisma.job.findMany({
+      where: { status: "pending", dependencies: { some: { parentId: current.id } } },
+    });
+
+    for (const child of children) {
+      const outcome = policyOutcomes[child.onParentFailure as ParentFailurePolicy];
+      const errorMessage = `Dependency ${current.id} ${current.status}`;
+
+      // Conditional on `pending` so a concurrent cancel or cascade wins cleanly
+      const updated = await prisma.job.updateMany({
+        where: { id: child.id, status: "pending" },
+        data: { status: outcome.status, errorMessage, failureKind: "dependency", nextRunAt: null },
+      });
+
+      if (updated.count === 0) {
+        continue;
+      }
+
+      if (outcome.status === "failed") {
+        const callbacks = callbackDeliveryFor(child, {
+          status: "failed",
+          result: null,
+          errorMessage,
+        });
+
+        if (callbacks) {
+          await prisma.job.update({ where: { id: child.id }, data: { callbacks } });
+        }
+      }
+
+      createJobLogger(child.id).info(
+        { parentId: current.id, parentStatus: current.status, status: outcome.status },
+        "job.dependency_cascaded"
+      );
+      publishJobEvent({
+        type: outcome.event,
+        jobId: child.id,
+        userId: child.userId,
+        status: outcome.status,
+        data: { parentId: current.id, errorMessage },
+      });
+
+      affected += 1;
+      queue.push({ id: child.id, status: outcome.status });
+    }
+  }
+
+  return affected;
+}
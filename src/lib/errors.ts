@@ -22,6 +22,13 @@ export class AuthenticationError extends AppError {
   }
 }
 
+export class ForbiddenError extends AppError {
+  constructor(message: string = "Insufficient permissions") {
+    super(403, message);
+    this.name = "ForbiddenError";
+  }
+}
+
 export class NotFoundError extends AppError {
   constructor(message: string = "Resource not found") {
     super(404, message);
@@ -35,3 +42,10 @@ export class ConflictError extends AppError {
     this.name = "ConflictError";
   }
 }
+
+export class QuotaExceededError extends AppError {
+  constructor(message: string = "Quota exceeded") {
+    super(429, message);
+    this.name = "QuotaExceededError";
+  }
+}
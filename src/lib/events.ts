@@ -0,0 +1,85 @@
+import { EventEmitter } from "node:events";
+
+export type JobEventType =
+  | "job.created"
+  | "job.started"
+  | "job.retrying"
+  | "job.completed"
+  | "job.failed"
+  | "job.cancelled"
+  | "job.skipped";
+
+export interface JobEvent {
+  /** Monotonic per-process sequence number, used as the SSE event id. */
+  readonly id: number;
+  readonly type: JobEventType;
+  readonly jobId: string;
+  readonly userId: string;
+  readonly status: string;
+  readonly timestamp: string;
+  /** Event-specific details, e.g. `attempts` or `nextRunAt`. */
+  readonly data: Record<string, unknown>;
+}
+
+export type JobEventInput = Omit<JobEvent, "id" | "timestamp" | "data"> & {
+  readonly data?: Record<string, unknown>;
+};
+
+export type JobEventListener = (event: JobEvent) => void;
+
+const emitter = new EventEmitter();
+// Every open SSE stream adds a listener; there is no meaningful upper bound
+emitter.setMaxListeners(0);
+
+let sequence = 0;
+
+/**
+ * Publish a job lifecycle event to every in-process subscriber.  Publishing
+ * never throws: a failing listener must not break the worker or a request.
+ */
+export function publishJobEvent(input: JobEventInput, now: Date = new Date()): void {
+  sequence += 1;
+
+  const event: JobEvent = {
+    id: sequence,
+    type: input.type,
+    jobId: input.jobId,
+    userId: input.userId,
+    status: input.status,
+    timestamp: now.toISOString(),
+    data: input.data ?? {},
+  };
+
+  for (const listener of emitter.listeners("job") as JobEventListener[]) {
+    try {
+      listener(event);
+    } catch {
+      // Subscribers own their error handling
+    }
+  }
+}
+
+/**
+ * Subscribe to job events, optionally narrowed by a predicate.
+ * Returns a function that removes the subscription.
+ */
+export function subscribeToJobEvents(
+  listener: JobEventListener,
+  filter?: (event: JobEvent) => boolean
+): () => void {
+  const wrapped: JobEventListener = (event) => {
+    if (!filter || filter(event)) {
+      listener(event);
+    }
+  };
+
+  emitter.on("job", wrapped);
+
+  return () => {
+    emitter.off("job", wrapped);
+  };
+}
+
+export function getJobEventSubscriberCount(): number {
+  return emitter.listenerCount("job");
+}
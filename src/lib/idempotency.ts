@@ -0,0 +1,48 @@
+import { createHash } from "node:crypto";
+
+import { config } from "./config.js";
+import { ConflictError } from "./errors.js";
+import type { CreateJobInput } from "./schemas.js";
+import type { Job, Prisma } from "../generated/prisma/client.js";
+
+/**
+ * Fingerprint of a validated job payload.  Zod emits keys in schema order,
+ * so equal payloads always serialise identically.
+ */
+export function hashJobPayload(jobData: CreateJobInput): string {
+  return createHash("sha256").update(JSON.stringify(jobData)).digest("hex");
+}
+
+/**
+ * The job created under `key` within the idempotency window, or `null` when
+ * the key is new or has expired.  Throws a `ConflictError` when the key was
+ * used for a different payload.
+ */
+export async function findIdempotentJob(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  key: string,
+  payloadHash: string,
+  now: Date = new Date()
+): Promise<Omit<Job, "callbackSecret" | "idempotencyHash"> | null> {
+  const existing = await tx.job.findFirst({
+    where: {
+      userId,
+      idempotencyKey: key,
+      createdAt: { gte: new Date(now.getTime() - config.idempotency.windowMs) },
+    },
+    orderBy: { createdAt: "desc" },
+    omit: { idempotencyHash: false },
+  });
+
+  if (!existing) {
+    return null;
+  }
+
+  if (existing.idempotencyHash !== payloadHash) {
+    throw new ConflictError(`Idempotency key ${key} was already used with a different payload`);
+  }
+
+  const { idempotencyHash: _hash, ...job } = existing;
+  return job;
+}
@@ -0,0 +1,178 @@
+import { prisma } from "./db.js";
+import { assertParentsRetryable, cascadeParentFailure } from "./dependencies.js";
+import { ConflictError } from "./errors.js";
+import { publishJobEvent } from "./events.js";
+import { encodeJobCursor, jobCursorWhere, jobOrderBy } from "./pagination.js";
+import { assertQueueExists } from "./queues.js";
+import { assertPendingJobsWithinQuota } from "./quotas.js";
+import { wakeWorker } from "./worker.js";
+import type { JobQueryInput } from "./schemas.js";
+import type { Job, Prisma } from "../generated/prisma/client.js";
+
+/** A job as read through the client, without the columns it omits by default. */
+export type StoredJob = Omit<Job, "callbackSecret" | "idempotencyHash">;
+
+export interface JobPage {
+  readonly jobs: StoredJob[];
+  readonly nextCursor: string | null;
+  readonly hasMore: boolean;
+}
+
+/**
+ * Prisma filter for the list query's status, method, queue, URL, creation
+ * time and scheduling filters.  Ownership is left to the caller.
+ */
+export function jobListWhere(query: JobQueryInput, now: Date = new Date()): Prisma.JobWhereInput {
+  const whereClause: Prisma.JobWhereInput = {};
+
+  if (query.status) {
+    whereClause.status = { in: query.status };
+  }
+
+  if (query.method) {
+    whereClause.method = { in: query.method };
+  }
+
+  if (query.queue) {
+    whereClause.queue = { in: query.queue };
+  }
+
+  if (query.url) {
+    whereClause.url = { contains: query.url };
+  }
+
+  if (query.createdAfter || query.createdBefore) {
+    whereClause.createdAt = {
+      ...(query.createdAfter && { gte: query.createdAfter }),
+      ...(query.createdBefore && { lt: query.createdBefore }),
+    };
+  }
+
+  if (query.scheduled !== undefined) {
+    whereClause.status = "pending";
+
+    if (query.scheduled) {
+      whereClause.nextRunAt = { gt: now };
+    } else {
+      whereClause.OR = [{ nextRunAt: null }, { nextRunAt: { lte: now } }];
+    }
+  }
+
+  return whereClause;
+}
+
+/**
+ * One page of jobs matching `where`, in the query's sort order, starting
+ * after the query's cursor.
+ */
+export async function findJobPage(
+  where: Prisma.JobWhereInput,
+  query: Pick<JobQueryInput, "sort" | "limit" | "cursor">
+): Promise<JobPage> {
+  // Fetch one extra row to learn whether another page follows
+  const rows = await prisma.job.findMany({
+    where: query.cursor ? { AND: [where, jobCursorWhere(query.cursor)] } : where,
+    orderBy: jobOrderBy(query.sort),
+    take: query.limit + 1,
+  });
+
+  const hasMore = rows.length > query.limit;
+  const jobs = hasMore ? rows.slice(0, query.limit) : rows;
+  const lastJob = jobs[jobs.length - 1];
+  const nextCursor = hasMore && lastJob ? encodeJobCursor(query.sort, lastJob) : null;
+
+  return { jobs, nextCursor, hasMore };
+}
+
+const retryConflictMessages: Record<string, string> = {
+  pending: "Job is already pending",
+  processing: "Cannot retry a job that is currently processing",
+  completed: "Cannot retry a completed job",
+  cancelled: "Cannot retry a cancelled job",
+  skipped: "Cannot retry a skipped job",
+};
+
+/**
+ * Put a failed job back in the queue with a fresh set of attempts.  Throws a
+ * `ConflictError` for jobs in any other state, including when a concurrent
+ * retry got there first, and while a parent can no longer complete.  A job
+ * whose queue has since been deleted throws a `ValidationError`, as creating
+ * one would.  The job counts against its owner's pending job quota again, so
+ * a retry past it throws a `QuotaExceededError`.
+ */
+export async function retryFailedJob(
+  job: Pick<Job, "id" | "status" | "userId" | "queue">
+): Promise<StoredJob> {
+  if (job.status !== "failed") {
+    throw new ConflictError(retryConflictMessages[job.status] ?? "Job cannot be retried");
+  }
+
+  const updatedJob = await prisma.$transaction(async (tx) => {
+    await assertQueueExists(tx, job.queue);
+    await assertParentsRetryable(tx, job.id);
+
+    // Conditional on `failed` so two concurrent retries cannot both succeed
+    const updated = await tx.job.updateMany({
+      where: { id: job.id, status: "failed" },
+      data: {
+        status: "pending",
+        attempts: 0,
+        retries: { increment: 1 },
+        errorMessage: null,
+        failureKind: null,
+        result: null,
+        nextRunAt: null,
+      },
+    });
+    const current = await tx.job.findUniqueOrThrow({ where: { id: job.id } });
+
+    if (updated.count === 0) {
+      throw new ConflictError(retryConflictMessages[current.status] ?? "Job cannot be retried");
+    }
+
+    await assertPendingJobsWithinQuota(tx, job.userId);
+
+    return current;
+  });
+
+  publishJobEvent({
+    type: "job.retrying",
+    jobId: updatedJob.id,
+    userId: updatedJob.userId,
+    status: updatedJob.status,
+    data: { attempts: updatedJob.attempts, retries: updatedJob.retries },
+  });
+  wakeWorker();
+
+  return updatedJob;
+}
+
+/**
+ * Cancel a pending job, keeping it for audit, and apply its dependents'
+ * parent-failure policies.  Throws a `ConflictError` for jobs in any other
+ * state.
+ */
+export async function cancelPendingJob(job: Pick<Job, "id" | "status">): Promise<StoredJob> {
+  if (job.status !== "pending") {
+    const messages: Record<string, string> = {
+      processing: "Cannot cancel a job that is currently processing",
+      cancelled: "Job is already cancelled",
+    };
+    throw new ConflictError(messages[job.status] ?? `Cannot cancel a ${job.status} job`);
+  }
+
+  const updatedJob = await prisma.job.update({
+    where: { id: job.id },
+    data: { status: "cancelled" },
+  });
+
+  publishJobEvent({
+    type: "job.cancelled",
+    jobId: updatedJob.id,
+    userId: updatedJob.userId,
+    status: updatedJob.status,
+  });
+  await cascadeParentFailure(updatedJob);
+
+  return updatedJob;
+}
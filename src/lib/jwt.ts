@@ -1,13 +1,18 @@
 import jwt from "jsonwebtoken";
 import { config } from "./config.js";
+import type { UserRole } from "./schemas.js";
 
 export interface JwtPayload {
   userId: string;
+  // Tokens issued before roles existed carry none; they are treated as "user"
+  role?: UserRole;
+  // Session the token was issued for; a revoked session invalidates the token
+  sessionId?: string;
 }
 
-export function generateToken(userId: string): string {
-  return jwt.sign({ userId }, config.jwtSecret, {
-    expiresIn: config.jwtExpiresIn,
+export function generateToken(userId: string, role: UserRole = "user", sessionId?: string): string {
+  return jwt.sign({ userId, role, sessionId }, config.jwtSecret, {
+    expiresIn: config.jwtExpiresInSeconds,
   });
 }
 
@@ -0,0 +1,75 @@
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+
+import { config } from "./config.js";
+import { prisma } from "./db.js";
+import type { Worker } from "../generated/prisma/client.js";
+
+export interface WorkerLoad {
+  readonly maxConcurrent: number;
+  readonly currentJobs: number;
+}
+
+/**
+ * Unique id for a worker process, e.g. `api-1:4242:9f86d081`.  The random
+ * suffix keeps ids distinct when a pid is reused after a restart.
+ */
+export function generateWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * When a lease taken or renewed at `now` runs out.
+ */
+export function leaseExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + config.workers.leaseMs);
+}
+
+/**
+ * Register or refresh a worker and renew the leases of the jobs it is
+ * processing.  Workers that stopped heartbeating are forgotten.
+ * Returns the number of renewed leases.
+ */
+export async function heartbeatWorker(
+  workerId: string,
+  load: WorkerLoad,
+  now: Date = new Date()
+): Promise<number> {
+  await prisma.worker.upsert({
+    where: { id: workerId },
+    create: {
+      id: workerId,
+      hostname: hostname(),
+      pid: process.pid,
+      ...load,
+      startedAt: now,
+      lastHeartbeatAt: now,
+    },
+    update: { ...load, lastHeartbeatAt: now },
+  });
+
+  const renewed = await prisma.job.updateMany({
+    where: { lockedBy: workerId, status: "processing" },
+    data: { lockedUntil: leaseExpiry(now) },
+  });
+
+  await prisma.worker.deleteMany({
+    where: { lastHeartbeatAt: { lt: new Date(now.getTime() - config.workers.leaseMs) } },
+  });
+
+  return renewed.count;
+}
+
+export async function unregisterWorker(workerId: string): Promise<void> {
+  await prisma.worker.deleteMany({ where: { id: workerId } });
+}
+
+/**
+ * Workers that heartbeated within the last lease period, oldest first.
+ */
+export async function listLiveWorkers(now: Date = new Date()): Promise<Worker[]> {
+  return prisma.worker.findMany({
+    where: { lastHeartbeatAt: { gte: new Date(now.getTime() - config.workers.leaseMs) } },
+    orderBy: { startedAt: "asc" },
+  });
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+import type { Job, Prisma } from "../generated/prisma/client.js";
+
+type SortField = "priority" | "createdAt" | "updatedAt";
+type SortDirection = "asc" | "desc";
+
+export const jobSortKeys = [
+  "priority",
+  "-priority",
+  "createdAt",
+  "-createdAt",
+  "updatedAt",
+  "-updatedAt",
+] as const;
+
+export type JobSort = (typeof jobSortKeys)[number];
+
+// Columns behind each sort option.  `id` is always appended as the final
+// tie-breaker so the order is total and a cursor identifies one position.
+const jobSortColumns: Record<JobSort, ReadonlyArray<readonly [SortField, SortDirection]>> = {
+  // Historical GET /jobs order: most urgent first, newest first within a priority
+  priority: [
+    ["priority", "asc"],
+    ["createdAt", "desc"],
+  ],
+  "-priority": [
+    ["priority", "desc"],
+    ["createdAt", "desc"],
+  ],
+  createdAt: [["createdAt", "asc"]],
+  "-createdAt": [["createdAt", "desc"]],
+  updatedAt: [["updatedAt", "asc"]],
+  "-updatedAt": [["updatedAt", "desc"]],
+};
+
+export interface JobCursor {
+  readonly sort: JobSort;
+  /** Sort column values of the last row on the previous page, in column order. */
+  readonly values: ReadonlyArray<number | Date>;
+  readonly id: string;
+}
+
+const rawCursorSchema = z.object({
+  s: z.enum(jobSortKeys),
+  v: z.array(z.union([z.number(), z.string()])),
+  id: z.string().min(1),
+});
+
+function tieBreakerDirection(sort: JobSort): SortDirection {
+  const columns = jobSortColumns[sort];
+  return columns[columns.length - 1]![1];
+}
+
+/**
+ * Prisma `orderBy` for a sort option, including the `id` tie-breaker.
+ */
+export function jobOrderBy(sort: JobSort): Prisma.JobOrderByWithRelationInput[] {
+  return [
+    ...jobSortColumns[sort].map(([field, direction]) => ({ [field]: direction })),
+    { id: tieBreakerDirection(sort) },
+  ];
+}
+
+/**
+ * Opaque cursor pointing just after `job` in the given sort order.
+ */
+export function encodeJobCursor(
+  sort: JobSort,
+  job: Pick<Job, "id" | "priority" | "createdAt" | "updatedAt">
+): string {
+  const values = jobSortColumns[sort].map(([field]) => {
+    const value = job[field];
+    return value instanceof Date ? value.toISOString() : value;
+  });
+
+  return Buffer.from(JSON.stringify({ s: sort, v: values, id: job.id })).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by `encodeJobCursor`.  Returns `null` for
+ * anything malformed or tampered with.
+ */
+export function decodeJobCursor(cursor: string): JobCursor | null {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  const parsed = rawCursorSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    return null;
+  }
+
+  const columns = jobSortColumns[parsed.data.s];
+
+  if (parsed.data.v.length !== columns.length) {
+    return null;
+  }
+
+  const values: Array<number | Date> = [];
+
+  for (const [index, [field]] of columns.entries()) {
+    const value = parsed.data.v[index];
+
+    if (field === "priority") {
+      if (typeof value !== "number" || !Number.isInteger(value)) {
+        return null;
+      }
+      values.push(value);
+      continue;
+    }
+
+    const date = typeof value === "string" ? new Date(value) : null;
+
+    if (!date || Number.isNaN(date.getTime())) {
+      return null;
+    }
+    values.push(date);
+  }
+
+  return { sort: parsed.data.s, values, id: parsed.data.id };
+}
+
+/**
+ * Keyset condition selecting the rows strictly after the cursor position:
+ * `(a > a0) OR (a = a0 AND b > b0) OR (a = a0 AND b = b0 AND id > id0)`,
+ * with `<` for descending columns.
+ */
+export function jobCursorWhere(cursor: JobCursor): Prisma.JobWhereInput {
+  const columns: Array<readonly [SortField | "id", SortDirection]> = [
+    ...jobSortColumns[cursor.sort],
+    ["id", tieBreakerDirection(cursor.sort)],
+  ];
+  const values = [...cursor.values, cursor.id];
+
+  return {
+    OR: columns.map(([field, direction], index) => {
+      const condition: Record<string, unknown> = {};
+
+      for (let previous = 0; previous < index; previous += 1) {
+        condition[columns[previous]![0]] = values[previous];
+      }
+
+      condition[field] = { [direction === "asc" ? "gt" : "lt"]: values[index] };
+      return condition as Prisma.JobWhereInput;
+    }),
+  };
+}
@@ -0,0 +1,93 @@
+import { config } from "./config.js";
+import { prisma } from "./db.js";
+import { ValidationError } from "./errors.js";
+import type { Prisma, Queue } from "../generated/prisma/client.js";
+
+export const defaultQueueName = "default";
+
+export type QueueSettings = Pick<Queue, "name" | "concurrency" | "weight" | "paused">;
+
+/** Columns of a queue exposed through the API and used by the worker. */
+export const queueSettingsSelect = {
+  name: true,
+  concurrency: true,
+  weight: true,
+  paused: true,
+} satisfies Prisma.QueueSelect;
+
+/**
+ * Settings of the "default" queue while it has no row of its own.
+ */
+export function implicitDefaultQueue(): QueueSettings {
+  return {
+    name: defaultQueueName,
+    concurrency: config.queues.defaultConcurrency,
+    weight: 1,
+    paused: false,
+  };
+}
+
+/**
+ * Every queue the worker serves, ordered by name.  The implicit default
+ * queue is included unless it has been configured explicitly.
+ */
+export async function loadQueues(): Promise<QueueSettings[]> {
+  const queues: QueueSettings[] = await prisma.queue.findMany({
+    select: queueSettingsSelect,
+    orderBy: { name: "asc" },
+  });
+
+  if (!queues.some((queue) => queue.name === defaultQueueName)) {
+    queues.push(implicitDefaultQueue());
+    queues.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return queues;
+}
+
+/**
+ * Reject jobs for queues that were never created.
+ */
+export async function assertQueueExists(tx: Prisma.TransactionClient, name: string): Promise<void> {
+  if (name === defaultQueueName) {
+    return;
+  }
+
+  const queue = await tx.queue.findUnique({ where: { name } });
+
+  if (!queue) {
+    throw new ValidationError(`Unknown queue: ${name}`);
+  }
+}
+
+/**
+ * Choose the queue the worker should claim from next: among queues that are
+ * not paused, below their concurrency and not yet found empty this tick, the
+ * one with the fewest running jobs per unit of weight.  Under load this
+ * splits worker slots between busy queues in proportion to their weights.
+ */
+export function pickQueue(
+  queues: readonly QueueSettings[],
+  running: ReadonlyMap<string, number>,
+  exhausted: ReadonlySet<string>
+): QueueSettings | null {
+  let best: QueueSettings | null = null;
+  let bestLoad = Infinity;
+
+  for (const queue of queues) {
+    const inFlight = running.get(queue.name) ?? 0;
+
+    if (queue.paused || exhausted.has(queue.name) || inFlight >= queue.concurrency) {
+      continue;
+    }
+
+    const load = inFlight / queue.weight;
+
+    if (load < bestLoad) {
+      best = queue;
+      bestLoad = load;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,118 @@
+import { config } from "./config.js";
+import { prisma } from "./db.js";
+import { QuotaExceededError } from "./errors.js";
+import type { Prisma } from "../generated/prisma/client.js";
+
+export interface QuotaUsage {
+  readonly pendingJobs: { readonly used: number; readonly limit: number };
+  readonly jobsToday: { readonly used: number; readonly limit: number; readonly resetsAt: Date };
+  readonly maxBatchSize: number;
+  readonly maxBodyBytes: number;
+}
+
+/**
+ * The UTC date the daily quota is counted under, e.g. `"2026-10-19"`.
+ */
+export function usageDay(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * When the daily quota of `now`'s UTC day starts over.
+ */
+export function nextUsageReset(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+/**
+ * Reject a batch with more jobs than a user may submit at once.
+ */
+export function assertBatchSizeWithinQuota(size: number): void {
+  if (size > config.quotas.maxBatchSize) {
+    throw new QuotaExceededError(
+      `Batch of ${size} jobs exceeds the limit of ${config.quotas.maxBatchSize}`
+    );
+  }
+}
+
+/**
+ * Reject a job whose body is larger than the quota, measured in UTF-8 bytes.
+ */
+export function assertBodyWithinQuota(body: string | null, label: string = "Job body"): void {
+  const bytes = body === null ? 0 : Buffer.byteLength(body, "utf8");
+
+  if (bytes > config.quotas.maxBodyBytes) {
+    throw new QuotaExceededError(
+      `${label} of ${bytes} bytes exceeds the limit of ${config.quotas.maxBodyBytes}`
+    );
+  }
+}
+
+/**
+ * Reject when the user has more pending jobs than the quota allows.  Call
+ * inside the transaction that created or re-pended jobs, after the write, so
+ * a `QuotaExceededError` rolls it back.
+ */
+export async function assertPendingJobsWithinQuota(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<void> {
+  const pending = await tx.job.count({ where: { userId, status: "pending" } });
+
+  if (pending > config.quotas.maxPendingJobs) {
+    throw new QuotaExceededError(`Pending job limit of ${config.quotas.maxPendingJobs} reached`);
+  }
+}
+
+/**
+ * Charge `count` jobs the user just created to their quota.  Call inside the
+ * creating transaction, after the jobs were inserted, so the pending count
+ * includes them and a `QuotaExceededError` rolls them back.
+ */
+export async function chargeJobQuota(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  count: number,
+  now: Date = new Date()
+): Promise<void> {
+  if (count === 0) {
+    return;
+  }
+
+  await assertPendingJobsWithinQuota(tx, userId);
+
+  const usage = await tx.dailyUsage.upsert({
+    where: { userId_day: { userId, day: usageDay(now) } },
+    create: { userId, day: usageDay(now), jobsCreated: count },
+    update: { jobsCreated: { increment: count } },
+  });
+
+  if (usage.jobsCreated > config.quotas.jobsPerDay) {
+    throw new QuotaExceededError(
+      `Daily job limit of ${config.quotas.jobsPerDay} reached; resets at ${nextUsageReset(now).toISOString()}`
+    );
+  }
+}
+
+/**
+ * The user's current consumption against each quota.
+ */
+export async function getQuotaUsage(userId: string, now: Date = new Date()): Promise<QuotaUsage> {
+  const [pendingJobs, usage] = await Promise.all([
+    prisma.job.count({ where: { userId, status: "pending" } }),
+    prisma.dailyUsage.findUnique({
+      where: { userId_day: { userId, day: usageDay(now) } },
+    }),
+  ]);
+
+  return {
+    pendingJobs: { used: pendingJobs, limit: config.quotas.maxPendingJobs },
+    jobsToday: {
+      used: usage?.jobsCreated ?? 0,
+      limit: config.quotas.jobsPerDay,
+      resetsAt: nextUsageReset(now),
+    },
+    maxBatchSize: config.quotas.maxBatchSize,
+    maxBodyBytes: config.quotas.maxBodyBytes,
+  };
+}
@@ -0,0 +1,120 @@
+import { hostOf } from "./circuitBreakers.js";
+import { prisma } from "./db.js";
+import type { Prisma, RateLimit } from "../generated/prisma/client.js";
+
+export type RateLimitRule = Pick<RateLimit, "key" | "limit" | "intervalMs">;
+
+/** Columns of a rate limit exposed through the API and used by the worker. */
+export const rateLimitRuleSelect = {
+  key: true,
+  limit: true,
+  intervalMs: true,
+} satisfies Prisma.RateLimitSelect;
+
+export interface TokenBucket {
+  readonly tokens: number;
+  /** `Date.now()` at which `tokens` was computed. */
+  readonly refilledAt: number;
+}
+
+// Buckets live in this process only; they start full after a restart
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * The bucket a job draws from: its explicit `rateLimitKey`, otherwise the
+ * host (with a non-default port) of its URL.
+ */
+export function rateLimitKeyFor(url: string, explicitKey?: string | null): string | null {
+  if (explicitKey) {
+    return explicitKey;
+  }
+
+  return hostOf(url);
+}
+
+/**
+ * Top a bucket up for the time elapsed since it was last refilled.  Tokens
+ * accrue continuously at `limit / intervalMs` and never exceed `limit`; an
+ * unknown bucket starts full.
+ */
+export function refillBucket(
+  bucket: TokenBucket | undefined,
+  rule: RateLimitRule,
+  now: number
+): TokenBucket {
+  if (!bucket) {
+    return { tokens: rule.limit, refilledAt: now };
+  }
+
+  const elapsedMs = Math.max(0, now - bucket.refilledAt);
+
+  return {
+    tokens: Math.min(rule.limit, bucket.tokens + (elapsedMs * rule.limit) / rule.intervalMs),
+    refilledAt: now,
+  };
+}
+
+/**
+ * Every configured rate limit, keyed by bucket key.
+ */
+export async function loadRateLimitRules(): Promise<Map<string, RateLimitRule>> {
+  const rules = await prisma.rateLimit.findMany({ select: rateLimitRuleSelect });
+  return new Map(rules.map((rule) => [rule.key, rule]));
+}
+
+/**
+ * Keys whose bucket cannot pay for another request right now.  Jobs with
+ * these keys must stay pending.
+ */
+export function exhaustedRateLimitKeys(
+  rules: ReadonlyMap<string, RateLimitRule>,
+  now: number = Date.now()
+): string[] {
+  return [...rules.values()]
+    .filter((rule) => refillBucket(buckets.get(rule.key), rule, now).tokens < 1)
+    .map((rule) => rule.key);
+}
+
+/**
+ * Milliseconds until the earliest empty bucket can pay for a request again,
+ * or `null` when none is empty.
+ */
+export function msUntilRateLimitToken(
+  rules: ReadonlyMap<string, RateLimitRule>,
+  now: number = Date.now()
+): number | null {
+  let earliest: number | null = null;
+
+  for (const rule of rules.values()) {
+    const { tokens } = refillBucket(buckets.get(rule.key), rule, now);
+
+    if (tokens < 1) {
+      const waitMs = Math.ceil(((1 - tokens) * rule.intervalMs) / rule.limit);
+      earliest = earliest === null ? waitMs : Math.min(earliest, waitMs);
+    }
+  }
+
+  return earliest;
+}
+
+/**
+ * Charge one request to the job's bucket.  Keys without a rule are unlimited.
+ */
+export function takeRateLimitToken(
+  rules: ReadonlyMap<string, RateLimitRule>,
+  key: string | null,
+  now: number = Date.now()
+): void {
+  const rule = key === null ? undefined : rules.get(key);
+
+  if (!rule) {
+    return;
+  }
+
+  const bucket = refillBucket(buckets.get(rule.key), rule, now);
+  buckets.set(rule.key, { tokens: bucket.tokens - 1, refilledAt: bucket.refilledAt });
+}
+
+export function resetRateLimitBucketsForTest(): void {
+  buckets.clear();
+}
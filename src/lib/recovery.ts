@@ -0,0 +1,174 @@
+import { callbackDeliveryFor } from "./callbacks.js";
+import { config } from "./config.js";
+import { prisma } from "./db.js";
+import { cascadeParentFailure } from "./dependencies.js";
+import { publishJobEvent } from "./events.js";
+import { listLiveWorkers } from "./leases.js";
+import { createJobLogger } from "./logger.js";
+import { Prisma, type Job } from "../generated/prisma/client.js";
+
+/** Why a `processing` job is considered abandoned. */
+export type StuckReason = "lease_expired" | "unowned" | "owner_gone";
+
+/**
+ * Classify a `processing` job, or return `null` while its owner is among
+ * `liveWorkerIds` and still holds a valid lease.  A live lease is never
+ * taken away, however long the attempt has been running.
+ */
+export function stuckReason(
+  job: Pick<Job, "lockedBy" | "lockedUntil">,
+  liveWorkerIds: ReadonlySet<string>,
+  now: Date = new Date()
+): StuckReason | null {
+  // Jobs claimed before leases existed, or released by hand, have no owner to finish them
+  if (job.lockedBy === null || job.lockedUntil === null) {
+    return "unowned";
+  }
+
+  if (job.lockedUntil < now) {
+    return "lease_expired";
+  }
+
+  if (!liveWorkerIds.has(job.lockedBy)) {
+    return "owner_gone";
+  }
+
+  return null;
+}
+
+/**
+ * Whether an attempt has been running for longer than `staleAfterMs`.
+ */
+export function isStaleAttempt(
+  job: Pick<Job, "lockedAt" | "updatedAt">,
+  now: Date = new Date(),
+  staleAfterMs: number = config.recovery.staleAfterMs
+): boolean {
+  const startedAt = job.lockedAt ?? job.updatedAt;
+
+  return now.getTime() - startedAt.getTime() > staleAfterMs;
+}
+
+/**
+ * Throw unless `RECOVERY_STALE_AFTER_MS` is above `REQUEST_TIMEOUT_MAX_MS`;
+ * otherwise healthy attempts would be reported as stale.
+ */
+export function assertRecoveryConfig(): void {
+  if (config.recovery.staleAfterMs <= config.requestTimeout.maxMs) {
+    throw new Error(
+      `RECOVERY_STALE_AFTER_MS (${config.recovery.staleAfterMs}) must be greater than ` +
+        `REQUEST_TIMEOUT_MAX_MS (${config.requestTimeout.maxMs})`
+    );
+  }
+}
+
+/**
+ * Move `processing` jobs without a live owner out of `processing`: their
+ * lease ran out or their owner has no live `Worker` row.  The interrupted
+ * attempt stays counted and is added to the attempt history: jobs with
+ * attempts left go back to `pending`, the others fail.  Each job is updated
+ * on the lease it was found with, so a renewal in the meantime wins.
+ * Attempts older than `config.recovery.staleAfterMs` whose owner is alive
+ * are only logged.  Returns the number of recovered jobs.
+ */
+export async function recoverStuckJobs(now: Date = new Date()): Promise<number> {
+  // Bounded by the workers' concurrency.  Owners are looked up afterwards, so
+  // a worker that claimed one of these jobs had registered by then.
+  const candidates = await prisma.job.findMany({ where: { status: "processing" } });
+  const liveWorkerIds = new Set((await listLiveWorkers(now)).map((worker) => worker.id));
+
+  let recovered = 0;
+
+  for (const job of candidates) {
+    const reason = stuckReason(job, liveWorkerIds, now);
+
+    if (reason === null) {
+      // Its worker is alive and will abort the attempt at its timeout
+      if (isStaleAttempt(job, now)) {
+        createJobLogger(job.id).warn(
+          { lockedBy: job.lockedBy, lockedAt: job.lockedAt?.toISOString() ?? null },
+          "job.stale_attempt"
+        );
+      }
+      continue;
+    }
+
+    const willRetry = job.attempts < job.maxAttempts;
+    const status = willRetry ? "pending" : "failed";
+    const errorMessage = `Attempt ${job.attempts} was interrupted: its worker stopped responding`;
+    const startedAt = job.lockedAt ?? job.updatedAt;
+
+    try {
+      await prisma.job.update({
+        where: {
+          id: job.id,
+          status: "processing",
+          lockedBy: job.lockedBy,
+          lockedUntil: job.lockedUntil,
+        },
+        data: {
+          status,
+          errorMessage,
+          failureKind: "interrupted",
+          result: null,
+          nextRunAt: null,
+          lockedBy: null,
+          lockedAt: null,
+          lockedUntil: null,
+          ...(!willRetry && {
+            callbacks: callbackDeliveryFor(job, { status: "failed", result: null, errorMessage }),
+          }),
+          attemptHistory: {
+            create: {
+              attempt: job.attempts,
+              outcome: willRetry ? "retrying" : "failed",
+              startedAt,
+              finishedAt: now,
+              durationMs: Math.max(0, now.getTime() - startedAt.getTime()),
+              failureKind: "interrupted",
+              errorMessage,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      // Finished or renewed since it was found
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+        continue;
+      }
+      throw error;
+    }
+
+    recovered += 1;
+
+    const jobLogger = createJobLogger(job.id);
+    jobLogger.warn(
+      {
+        reason,
+        lockedBy: job.lockedBy,
+        lockedUntil: job.lockedUntil?.toISOString() ?? null,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        status,
+      },
+      "job.recovered"
+    );
+    publishJobEvent({
+      type: willRetry ? "job.retrying" : "job.failed",
+      jobId: job.id,
+      userId: job.userId,
+      status,
+      data: { attempts: job.attempts, failureKind: "interrupted", errorMessage },
+    });
+
+    if (!willRetry) {
+      await cascadeParentFailure({ id: job.id, status: "failed" }).catch(
+        (cascadeError: unknown) => {
+          jobLogger.error({ err: cascadeError }, "job.cascade_failed");
+        }
+      );
+    }
+  }
+
+  return recovered;
+}
@@ -0,0 +1,134 @@
+import { retryOnSchema, type RetryOnRule } from "./schemas.js";
+import { TemplateError } from "./templates.js";
+
+export type FailureKind = "status" | "timeout" | "network" | "template" | "error";
+
+export interface JobFailure {
+  readonly kind: FailureKind;
+  /** HTTP status, only set when `kind` is `"status"`. */
+  readonly status?: number;
+}
+
+/**
+ * Thrown by the worker when the target answers with a non-2xx status.
+ * Carries the parsed `Retry-After` delay so the retry can honour it.
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly retryAfterMs: number | null,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * Map an error thrown while executing a job onto a failure kind.
+ * `fetch` rejects with an `AbortError` when our timeout fires and with a
+ * `TypeError` for connection-level problems (DNS, refused, reset).
+ */
+export function classifyFailure(error: unknown): JobFailure {
+  if (error instanceof HttpStatusError) {
+    return { kind: "status", status: error.status };
+  }
+
+  if (error instanceof TemplateError) {
+    return { kind: "template" };
+  }
+
+  if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
+    return { kind: "timeout" };
+  }
+
+  if (error instanceof TypeError) {
+    return { kind: "network" };
+  }
+
+  return { kind: "error" };
+}
+
+function matchesStatus(token: number | string, status: number): boolean {
+  if (typeof token === "number") {
+    return token === status;
+  }
+
+  if (token.endsWith("xx")) {
+    return Math.floor(status / 100) === Number(token[0]);
+  }
+
+  const [min, max] = token.split("-").map(Number) as [number, number];
+  return status >= min && status <= max;
+}
+
+/**
+ * Decide whether a failure may be retried under a job's `retryOn` rule.
+ * A `null` rule keeps the historical behaviour of retrying every failure.
+ * Errors that are neither HTTP, timeout nor network failures (e.g. malformed
+ * stored headers) are never retried under a rule since they cannot succeed.
+ * Unresolvable templates are never retried at all: parent results are final.
+ * A 429 is a rate-limit signal rather than an error and is always retried,
+ * whatever the rule lists.
+ */
+export function isRetryableFailure(rule: RetryOnRule | null, failure: JobFailure): boolean {
+  if (failure.kind === "template") {
+    return false;
+  }
+
+  if (failure.kind === "status" && failure.status === 429) {
+    return true;
+  }
+
+  if (!rule) {
+    return true;
+  }
+
+  switch (failure.kind) {
+    case "status":
+      return rule.statuses.some((token) => matchesStatus(token, failure.status ?? 0));
+    case "timeout":
+      return rule.timeouts;
+    case "network":
+      return rule.networkErrors;
+    case "error":
+      return false;
+  }
+}
+
+/**
+ * Parse a stored `retryOn` JSON string.  Returns `null` when unset.
+ */
+export function parseRetryOn(retryOnJson: string | null): RetryOnRule | null {
+  if (!retryOnJson) {
+    return null;
+  }
+
+  return retryOnSchema.parse(JSON.parse(retryOnJson));
+}
+
+/**
+ * Parse an HTTP `Retry-After` header, which is either a number of seconds
+ * or an HTTP-date.  Returns the delay in milliseconds, or `null` when the
+ * header is missing or malformed.  Dates in the past yield `0`.
+ */
+export function parseRetryAfterMs(value: string | null, now: Date = new Date()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  // HTTP-dates always spell out the day and month names
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+
+  if (Number.isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(0, date - now.getTime());
+}
@@ -0,0 +1,262 @@
+import { config } from "./config.js";
+import { nextCronDate, parseCron, type CronExpression } from "./cron.js";
+import { prisma } from "./db.js";
+import { QuotaExceededError } from "./errors.js";
+import { publishJobEvent } from "./events.js";
+import { createChildLogger } from "./logger.js";
+import { hostOf } from "./circuitBreakers.js";
+import { chargeJobQuota } from "./quotas.js";
+import { rateLimitKeyFor } from "./rateLimits.js";
+import { wakeWorker } from "./worker.js";
+import type { CatchUpPolicy } from "./schemas.js";
+import type { Schedule } from "../generated/prisma/client.js";
+
+const schedulerLogger = createChildLogger({ scope: "scheduler" });
+
+// Safety cap on how many occurrences one schedule can materialise in a single pass
+// (e.g. an every-minute schedule with catchUp "all" after a week of downtime).
+const maxCatchUpFires = 100;
+
+let timer: NodeJS.Timeout | null = null;
+let isTickRunning = false;
+
+export interface FirePlan {
+  /** Occurrence times that should each materialise a job. */
+  readonly fireTimes: Date[];
+  /** Number of due occurrences older than the misfire threshold. */
+  readonly missedCount: number;
+  /** First occurrence strictly after `now`. */
+  readonly nextFireAt: Date;
+}
+
+/**
+ * Compute the next time a cron expression fires after `after`.
+ */
+export function computeNextFireAt(cronExpression: string, after: Date = new Date()): Date {
+  return nextCronDate(parseCron(cronExpression), after);
+}
+
+function selectFireTimes(catchUp: CatchUpPolicy, missed: Date[], onTime: Date[]): Date[] {
+  switch (catchUp) {
+    case "all":
+      return [...missed, ...onTime];
+    case "once": {
+      const latestMissed = missed[missed.length - 1];
+      return latestMissed ? [latestMissed, ...onTime] : onTime;
+    }
+    case "skip":
+      return onTime;
+  }
+}
+
+/**
+ * Work out which occurrences between `nextFireAt` and `now` should fire.
+ * Occurrences within `misfireThresholdMs` of `now` always fire; older ones
+ * were missed (e.g. the server was down) and follow the `catchUp` policy:
+ *
+ * - `skip` — drop them
+ * - `once` — fire a single job for the most recent missed occurrence
+ * - `all`  — fire one job per missed occurrence (capped per pass)
+ */
+export function planScheduleFires(
+  cron: CronExpression,
+  nextFireAt: Date,
+  now: Date,
+  catchUp: CatchUpPolicy,
+  misfireThresholdMs: number = config.scheduler.misfireThresholdMs
+): FirePlan {
+  const due: Date[] = [];
+  let cursor = nextFireAt;
+
+  while (cursor.getTime() <= now.getTime() && due.length < maxCatchUpFires) {
+    due.push(cursor);
+    cursor = nextCronDate(cron, cursor);
+  }
+
+  // Anything beyond the cap is dropped so the schedule does not stay behind forever.
+  if (cursor.getTime() <= now.getTime()) {
+    cursor = nextCronDate(cron, now);
+  }
+
+  const cutoff = now.getTime() - misfireThresholdMs;
+  const missed = due.filter((date) => date.getTime() < cutoff);
+  const onTime = due.filter((date) => date.getTime() >= cutoff);
+
+  return {
+    fireTimes: selectFireTimes(catchUp, missed, onTime),
+    missedCount: missed.length,
+    nextFireAt: cursor,
+  };
+}
+
+async function fireSchedule(schedule: Schedule, now: Date): Promise<number> {
+  const plan = planScheduleFires(
+    parseCron(schedule.cronExpression),
+    schedule.nextFireAt,
+    now,
+    schedule.catchUp as CatchUpPolicy
+  );
+
+  // Advance nextFireAt only if nobody else has since the schedule was read,
+  // so overlapping passes cannot materialise the same occurrence twice.
+  const claimWhere = { id: schedule.id, paused: false, nextFireAt: schedule.nextFireAt };
+  let created: { id: string; status: string }[];
+
+  try {
+    created = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.schedule.updateMany({
+        where: claimWhere,
+        data: {
+          nextFireAt: plan.nextFireAt,
+          ...(plan.fireTimes.length > 0 && { lastFiredAt: now }),
+        },
+      });
+
+      if (claimed.count === 0 || plan.fireTimes.length === 0) {
+        return [];
+      }
+
+      const jobs = await tx.job.createManyAndReturn({
+        select: { id: true, status: true },
+        data: plan.fireTimes.map((fireTime) => ({
+          priority: schedule.priority,
+          method: schedule.method,
+          url: schedule.url,
+          host: hostOf(schedule.url),
+          headers: schedule.headers,
+          body: schedule.body,
+          rateLimitKey: rateLimitKeyFor(schedule.url),
+          maxAttempts: config.workers.defaultMaxAttempts,
+          runAt: fireTime,
+          scheduleId: schedule.id,
+          userId: schedule.userId,
+        })),
+      });
+      await chargeJobQuota(tx, schedule.userId, jobs.length, now);
+
+      return jobs;
+    });
+  } catch (error) {
+    if (!(error instanceof QuotaExceededError)) {
+      throw error;
+    }
+
+    // The occurrences are skipped rather than attempted again on every pass
+    await prisma.schedule.updateMany({
+      where: claimWhere,
+      data: { nextFireAt: plan.nextFireAt },
+    });
+    schedulerLogger.warn(
+      {
+        scheduleId: schedule.id,
+        userId: schedule.userId,
+        skippedCount: plan.fireTimes.length,
+        reason: error.message,
+        nextFireAt: plan.nextFireAt.toISOString(),
+      },
+      "schedule.quota_exceeded"
+    );
+    return 0;
+  }
+
+  for (const job of created) {
+    publishJobEvent({
+      type: "job.created",
+      jobId: job.id,
+      userId: schedule.userId,
+      status: job.status,
+      data: { scheduleId: schedule.id },
+    });
+  }
+
+  schedulerLogger.info(
+    {
+      scheduleId: schedule.id,
+      userId: schedule.userId,
+      jobCount: created.length,
+      missedCount: plan.missedCount,
+      catchUp: schedule.catchUp,
+      nextFireAt: plan.nextFireAt.toISOString(),
+    },
+    "schedule.fired"
+  );
+
+  return created.length;
+}
+
+/**
+ * Materialise jobs for every active schedule whose `nextFireAt` has passed.
+ * Returns the number of jobs created.
+ */
+export async function fireDueSchedules(now: Date = new Date()): Promise<number> {
+  const due = await prisma.schedule.findMany({
+    where: { paused: false, nextFireAt: { lte: now } },
+  });
+
+  let created = 0;
+
+  for (const schedule of due) {
+    try {
+      created += await fireSchedule(schedule, now);
+    } catch (error) {
+      schedulerLogger.error({ err: error, scheduleId: schedule.id }, "schedule.fire_failed");
+    }
+  }
+
+  if (created > 0) {
+    wakeWorker();
+  }
+
+  return created;
+}
+
+async function runTick(): Promise<void> {
+  if (isTickRunning) {
+    return;
+  }
+
+  isTickRunning = true;
+
+  try {
+    await fireDueSchedules();
+  } catch (error) {
+    schedulerLogger.error({ err: error }, "scheduler.tick_failed");
+  } finally {
+    isTickRunning = false;
+  }
+}
+
+/**
+ * Start the periodic scheduler.  Runs an initial pass immediately (applying
+ * each schedule's catch-up policy to fires missed while the server was down),
+ * then repeats on the configured interval.  Safe to call multiple times —
+ * subsequent calls are no-ops.
+ */
+export function startScheduler(): void {
+  if (timer) {
+    return;
+  }
+
+  const { intervalMs, misfireThresholdMs } = config.scheduler;
+
+  schedulerLogger.info({ intervalMs, misfireThresholdMs }, "scheduler.started");
+
+  void runTick();
+
+  timer = setInterval(() => {
+    void runTick();
+  }, intervalMs);
+}
+
+/**
+ * Stop the periodic scheduler.
+ */
+export function stopScheduler(): void {
+  if (!timer) {
+    return;
+  }
+
+  clearInterval(timer);
+  timer = null;
+  schedulerLogger.info("scheduler.stopped");
+}
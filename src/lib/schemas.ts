@@ -1,4 +1,8 @@
 import { z } from "zod";
+import { config } from "./config.js";
+import { isValidCron } from "./cron.js";
+import { decodeJobCursor, jobSortKeys } from "./pagination.js";
+import { jsonStringValues, validateTemplates } from "./templates.js";
 
 // Auth schemas
 export const signupSchema = z.object({
@@ -12,6 +16,45 @@ export const signinSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const signoutSchema = z.object({
+  // true = end every session of the user, e.g. after a token leaked
+  all: z.boolean().default(false),
+});
+
+export const userRoleSchema = z.enum(["user", "admin"]);
+
+export const apiKeyScopeSchema = z.enum(["jobs:read", "jobs:write"]);
+
+const apiKeyNameSchema = z.string().min(1, "Name is required").max(255, "Name too long");
+
+export const createApiKeySchema = z.object({
+  name: apiKeyNameSchema,
+  scopes: z
+    .array(apiKeyScopeSchema)
+    .min(1, "Provide at least one scope")
+    .transform((scopes) => [...new Set(scopes)])
+    .default(["jobs:read", "jobs:write"]),
+  // Omitted = the key never expires
+  expiresAt: z
+    .string()
+    .datetime({ offset: true, message: "expiresAt must be an ISO 8601 timestamp" })
+    .transform((val) => new Date(val))
+    .refine((val) => val.getTime() > Date.now(), { message: "expiresAt must be in the future" })
+    .optional(),
+});
+
+export const updateApiKeySchema = z.object({
+  name: apiKeyNameSchema,
+});
+
+export const apiKeyIdParamSchema = z.object({
+  id: z.string().uuid("Invalid API key ID"),
+});
+
 // Job schemas
 export const httpMethodSchema = z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]);
 
@@ -21,65 +64,459 @@ export const jobStatusSchema = z.enum([
   "completed",
   "failed",
   "cancelled",
+  "skipped",
 ]);
 
-export const createJobSchema = z.object({
-  priority: z.number().int().default(0),
-  method: httpMethodSchema,
-  url: z.string().url("Invalid URL"),
-  headers: z
-    .string()
-    .default("{}")
-    .refine(
-      (val) => {
-        try {
-          JSON.parse(val);
-          return true;
-        } catch {
-          return false;
-        }
-      },
-      { message: "Headers must be a valid JSON string" }
-    ),
-  body: z
+// What happens to a pending job when one of its dependencies fails, is cancelled or is skipped
+export const parentFailurePolicySchema = z.enum(["fail", "cancel", "skip"]);
+
+const maxDependencies = 50;
+
+// What happens when a job's uniqueKey matches a pending or processing job
+export const uniquePolicySchema = z.enum(["reject", "replace", "merge"]);
+
+export const queueNameSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/,
+    "Queue name must be 1-64 letters, digits, '-' or '_', starting with a letter or digit"
+  );
+
+// Host or explicit bucket name; also used as a path segment under /rate-limits
+export const rateLimitKeySchema = z
+  .string()
+  .min(1)
+  .max(255)
+  .regex(/^[^\s/]+$/, "Rate limit key must not contain whitespace or '/'");
+
+export const backoffStrategySchema = z.enum(["exponential", "linear", "fixed"]);
+
+// Upper bound for per-job backoff delays (24 h)
+const maxBackoffDelayMs = 24 * 60 * 60 * 1000;
+
+const backoffDelaySchema = z
+  .number()
+  .int()
+  .nonnegative("Backoff delays must be non-negative")
+  .max(maxBackoffDelayMs, "Backoff delays must not exceed 24 hours");
+
+// A single status code (e.g. 429), a class (e.g. "5xx") or an inclusive range (e.g. "500-504")
+const retryStatusSchema = z.union([
+  z.number().int().min(100).max(599),
+  z
     .string()
-    .nullable()
-    .default(null)
-    .refine(
-      (val) => {
-        if (val === null) return true;
-        try {
-          JSON.parse(val);
-          return true;
-        } catch {
-          return false;
-        }
-      },
-      { message: "Body must be a valid JSON string or null" }
-    ),
-});
+    .regex(/^([1-5]xx|[1-5]\d{2}-[1-5]\d{2})$/, 'Status ranges must look like "5xx" or "500-504"'),
+]);
 
-export const jobQuerySchema = z.object({
-  status: jobStatusSchema.optional(),
+export const retryOnSchema = z.object({
+  statuses: z.array(retryStatusSchema).max(50).default([]),
+  networkErrors: z.boolean().default(true),
+  timeouts: z.boolean().default(true),
 });
 
+export const jobHeadersSchema = z
+  .string()
+  .default("{}")
+  .refine(
+    (val) => {
+      try {
+        JSON.parse(val);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Headers must be a valid JSON string" }
+  );
+
+export const jobBodySchema = z
+  .string()
+  .nullable()
+  .default(null)
+  .refine(
+    (val) => {
+      if (val === null) return true;
+      try {
+        JSON.parse(val);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Body must be a valid JSON string or null" }
+  );
+
+export const createJobSchema = z
+  .object({
+    priority: z.number().int().default(0),
+    // Named queue; omitted = the "default" queue
+    queue: queueNameSchema.optional(),
+    method: httpMethodSchema,
+    url: z.string().url("Invalid URL"),
+    headers: jobHeadersSchema,
+    body: jobBodySchema,
+    runAt: z
+      .string()
+      .datetime({ offset: true, message: "runAt must be an ISO 8601 timestamp" })
+      .optional(),
+    delayMs: z.number().int().nonnegative("delayMs must be a non-negative integer").optional(),
+    // Retry policy — omitted fields fall back to the server defaults
+    maxAttempts: z
+      .number()
+      .int()
+      .min(1, "maxAttempts must be at least 1")
+      .max(100, "maxAttempts must not exceed 100")
+      .optional(),
+    backoffStrategy: backoffStrategySchema.optional(),
+    baseDelayMs: backoffDelaySchema.optional(),
+    maxDelayMs: backoffDelaySchema.optional(),
+    jitterMs: backoffDelaySchema.optional(),
+    // Which failures may be retried; omitted = retry every failure
+    retryOn: retryOnSchema.optional(),
+    // Per-request timeout; omitted = config.requestTimeout.defaultMs
+    timeoutMs: z
+      .number()
+      .int()
+      .min(config.requestTimeout.minMs)
+      .max(config.requestTimeout.maxMs)
+      .optional(),
+    // Token bucket the job draws from; omitted = the URL host
+    rateLimitKey: rateLimitKeySchema.optional(),
+    // Notified when the job completes or finally fails; the secret signs each delivery
+    callbackUrl: z.string().url("Invalid callback URL").optional(),
+    callbackSecret: z.string().min(16).max(256).optional(),
+    // IDs of existing jobs that must complete before this one may run
+    dependsOn: z
+      .array(z.string().uuid("dependsOn entries must be job IDs"))
+      .max(maxDependencies)
+      .optional(),
+    onParentFailure: parentFailurePolicySchema.optional(),
+    // Only one pending/processing job per uniqueKey; the policy decides what a duplicate does
+    uniqueKey: z.string().min(1).max(255).optional(),
+    uniquePolicy: uniquePolicySchema.optional(),
+  })
+  .refine((val) => val.runAt === undefined || val.delayMs === undefined, {
+    message: "Provide either runAt or delayMs, not both",
+    path: ["delayMs"],
+  })
+  .refine(
+    (val) =>
+      val.baseDelayMs === undefined ||
+      val.maxDelayMs === undefined ||
+      val.baseDelayMs <= val.maxDelayMs,
+    {
+      message: "baseDelayMs must not exceed maxDelayMs",
+      path: ["baseDelayMs"],
+    }
+  )
+  .refine((val) => val.callbackSecret === undefined || val.callbackUrl !== undefined, {
+    message: "callbackSecret requires a callbackUrl",
+    path: ["callbackSecret"],
+  })
+  .refine((val) => val.uniquePolicy === undefined || val.uniqueKey !== undefined, {
+    message: "uniquePolicy requires a uniqueKey",
+    path: ["uniquePolicy"],
+  })
+  .superRefine((val, ctx) => {
+    // `{{parents…}}` templates may only point at the job's own dependencies
+    for (const field of ["url", "headers", "body"] as const) {
+      const texts = field === "url" ? [val.url] : jsonStringValues(val[field]);
+
+      for (const message of validateTemplates(texts, val.dependsOn ?? [])) {
+        ctx.addIssue({ code: "custom", message, path: [field] });
+      }
+    }
+  });
+
+// Query list values may be comma separated (?status=pending,failed) or repeated
+// (?status=pending&status=failed); both normalise to an array.
+function queryListSchema<T extends z.ZodType>(item: T) {
+  return z.preprocess(
+    (val) =>
+      val === undefined
+        ? undefined
+        : (Array.isArray(val) ? val : [val]).flatMap((entry) =>
+            typeof entry === "string" ? entry.split(",").filter((part) => part !== "") : [entry]
+          ),
+    z.array(item).min(1)
+  );
+}
+
+const queryDateSchema = z
+  .string()
+  .datetime({ offset: true, message: "Must be an ISO 8601 timestamp" })
+  .transform((val) => new Date(val));
+
+export const defaultJobPageSize = 50;
+export const maxJobPageSize = 100;
+
+export const jobQuerySchema = z
+  .object({
+    status: queryListSchema(jobStatusSchema).optional(),
+    // "true" → pending jobs not yet due, "false" → pending jobs ready to run
+    scheduled: z
+      .enum(["true", "false"])
+      .transform((val) => val === "true")
+      .optional(),
+    method: queryListSchema(httpMethodSchema).optional(),
+    queue: queryListSchema(queueNameSchema).optional(),
+    // Substring match against the job URL
+    url: z.string().min(1).max(2048).optional(),
+    createdAfter: queryDateSchema.optional(),
+    createdBefore: queryDateSchema.optional(),
+    sort: z.enum(jobSortKeys).default("priority"),
+    limit: z.coerce.number().int().min(1).max(maxJobPageSize).default(defaultJobPageSize),
+    cursor: z
+      .string()
+      .transform((val, ctx) => {
+        const cursor = decodeJobCursor(val);
+
+        if (!cursor) {
+          ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+          return z.NEVER;
+        }
+
+        return cursor;
+      })
+      .optional(),
+  })
+  .refine(
+    (val) =>
+      val.scheduled === undefined ||
+      val.status === undefined ||
+      (val.status.length === 1 && val.status[0] === "pending"),
+    {
+      message: "scheduled can only be combined with status=pending",
+      path: ["scheduled"],
+    }
+  )
+  .refine(
+    (val) =>
+      val.createdAfter === undefined ||
+      val.createdBefore === undefined ||
+      val.createdAfter < val.createdBefore,
+    {
+      message: "createdAfter must be before createdBefore",
+      path: ["createdAfter"],
+    }
+  )
+  .refine((val) => val.cursor === undefined || val.cursor.sort === val.sort, {
+    message: "Cursor was issued for a different sort",
+    path: ["cursor"],
+  });
+
 export const jobIdParamSchema = z.object({
   id: z.string().uuid("Invalid job ID"),
 });
 
 // Batch schemas
-export const batchCreateJobsSchema = z.object({
-  jobs: z
-    .array(createJobSchema)
-    .min(1, "At least one job is required")
-    .max(100, "Maximum 100 jobs per batch"),
+// Sent as the Idempotency-Key header on POST /jobs, or per job in a batch
+export const idempotencyKeySchema = z.string().trim().min(1).max(255);
+
+// Inside a batch, `dependsOn` may also name the `ref` of an earlier job in the same batch
+export const batchJobSchema = createJobSchema.safeExtend({
+  ref: z.string().min(1).max(100).optional(),
+  idempotencyKey: idempotencyKeySchema.optional(),
+  dependsOn: z.array(z.string().min(1)).max(maxDependencies).optional(),
+});
+
+export const batchCreateJobsSchema = z
+  .object({
+    jobs: z
+      .array(batchJobSchema)
+      .min(1, "At least one job is required")
+      .max(100, "Maximum 100 jobs per batch"),
+  })
+  .superRefine((val, ctx) => {
+    const earlierRefs = new Set<string>();
+    const allRefs = new Set(val.jobs.flatMap((job) => (job.ref ? [job.ref] : [])));
+
+    const idempotencyKeys = new Set<string>();
+    const uniqueKeys = new Set<string>();
+
+    val.jobs.forEach((job, index) => {
+      if (job.idempotencyKey !== undefined) {
+        if (idempotencyKeys.has(job.idempotencyKey)) {
+          ctx.addIssue({
+            code: "custom",
+            message: "idempotencyKey must be unique within the batch",
+            path: ["jobs", index, "idempotencyKey"],
+          });
+        }
+        idempotencyKeys.add(job.idempotencyKey);
+      }
+
+      if (job.uniqueKey !== undefined) {
+        if (uniqueKeys.has(job.uniqueKey)) {
+          ctx.addIssue({
+            code: "custom",
+            message: "uniqueKey must be unique within the batch",
+            path: ["jobs", index, "uniqueKey"],
+          });
+        }
+        uniqueKeys.add(job.uniqueKey);
+      }
+
+      for (const [depIndex, dependency] of (job.dependsOn ?? []).entries()) {
+        if (earlierRefs.has(dependency) || z.string().uuid().safeParse(dependency).success) {
+          continue;
+        }
+
+        ctx.addIssue({
+          code: "custom",
+          message: allRefs.has(dependency)
+            ? "dependsOn may only reference earlier jobs in the batch"
+            : "dependsOn entries must be job IDs or refs of earlier jobs in the batch",
+          path: ["jobs", index, "dependsOn", depIndex],
+        });
+      }
+
+      if (job.ref) {
+        if (earlierRefs.has(job.ref)) {
+          ctx.addIssue({
+            code: "custom",
+            message: "ref must be unique within the batch",
+            path: ["jobs", index, "ref"],
+          });
+        }
+        earlierRefs.add(job.ref);
+      }
+    });
+  });
+
+// Schedule schemas
+export const catchUpPolicySchema = z.enum(["skip", "once", "all"]);
+
+export const createScheduleSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255, "Name too long"),
+  cronExpression: z.string().refine(isValidCron, { message: "Invalid cron expression" }),
+  catchUp: catchUpPolicySchema.default("skip"),
+  priority: z.number().int().default(0),
+  method: httpMethodSchema,
+  url: z.string().url("Invalid URL"),
+  headers: jobHeadersSchema,
+  body: jobBodySchema,
+});
+
+export const scheduleIdParamSchema = z.object({
+  id: z.string().uuid("Invalid schedule ID"),
+});
+
+// Queue schemas
+const queueConcurrencySchema = z
+  .number()
+  .int()
+  .min(1, "concurrency must be at least 1")
+  .max(100, "concurrency must not exceed 100");
+
+const queueWeightSchema = z
+  .number()
+  .int()
+  .min(1, "weight must be at least 1")
+  .max(100, "weight must not exceed 100");
+
+export const createQueueSchema = z.object({
+  name: queueNameSchema,
+  concurrency: queueConcurrencySchema,
+  weight: queueWeightSchema.default(1),
+  paused: z.boolean().default(false),
+});
+
+export const updateQueueSchema = z
+  .object({
+    concurrency: queueConcurrencySchema.optional(),
+    weight: queueWeightSchema.optional(),
+  })
+  .refine((data) => data.concurrency !== undefined || data.weight !== undefined, {
+    message: "Provide concurrency or weight",
+  });
+
+export const queueNameParamSchema = z.object({
+  name: queueNameSchema,
+});
+
+export const circuitBreakerHostParamSchema = z.object({
+  host: z.string().min(1).max(255),
+});
+
+// Worker admin schemas
+export const updateWorkerSchema = z.object({
+  maxConcurrent: z
+    .number()
+    .int()
+    .min(1, "maxConcurrent must be at least 1")
+    .max(100, "maxConcurrent must not exceed 100"),
+});
+
+export const adminJobQuerySchema = jobQuerySchema.safeExtend({
+  userId: z.string().uuid("Invalid user ID").optional(),
+});
+
+export const userIdParamSchema = z.object({
+  id: z.string().uuid("Invalid user ID"),
+});
+
+export const updateUserSchema = z.object({
+  role: userRoleSchema,
+});
+
+// Rate limit schemas
+const rateLimitLimitSchema = z
+  .number()
+  .int()
+  .min(1, "limit must be at least 1")
+  .max(10000, "limit must not exceed 10000");
+
+const rateLimitIntervalSchema = z
+  .number()
+  .int()
+  .min(100, "intervalMs must be at least 100")
+  .max(maxBackoffDelayMs, "intervalMs must not exceed 24 hours");
+
+export const createRateLimitSchema = z.object({
+  key: rateLimitKeySchema,
+  limit: rateLimitLimitSchema,
+  intervalMs: rateLimitIntervalSchema.default(1000),
+});
+
+export const updateRateLimitSchema = z
+  .object({
+    limit: rateLimitLimitSchema.optional(),
+    intervalMs: rateLimitIntervalSchema.optional(),
+  })
+  .refine((data) => data.limit !== undefined || data.intervalMs !== undefined, {
+    message: "Provide limit or intervalMs",
+  });
+
+export const rateLimitKeyParamSchema = z.object({
+  key: rateLimitKeySchema,
 });
 
 // Types
 export type SignupInput = z.infer<typeof signupSchema>;
 export type SigninInput = z.infer<typeof signinSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type SignoutInput = z.infer<typeof signoutSchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type UpdateApiKeyInput = z.infer<typeof updateApiKeySchema>;
 export type CreateJobInput = z.infer<typeof createJobSchema>;
+export type BatchJobInput = z.infer<typeof batchJobSchema>;
 export type BatchCreateJobsInput = z.infer<typeof batchCreateJobsSchema>;
 export type JobQueryInput = z.infer<typeof jobQuerySchema>;
 export type HttpMethod = z.infer<typeof httpMethodSchema>;
 export type JobStatus = z.infer<typeof jobStatusSchema>;
+export type BackoffStrategy = z.infer<typeof backoffStrategySchema>;
+export type RetryOnRule = z.infer<typeof retryOnSchema>;
+export type ParentFailurePolicy = z.infer<typeof parentFailurePolicySchema>;
+export type UniquePolicy = z.infer<typeof uniquePolicySchema>;
+export type CreateQueueInput = z.infer<typeof createQueueSchema>;
+export type UpdateQueueInput = z.infer<typeof updateQueueSchema>;
+export type UpdateWorkerInput = z.infer<typeof updateWorkerSchema>;
+export type AdminJobQueryInput = z.infer<typeof adminJobQuerySchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type CreateRateLimitInput = z.infer<typeof createRateLimitSchema>;
+export type UpdateRateLimitInput = z.infer<typeof updateRateLimitSchema>;
+export type CreateScheduleInput = z.infer<typeof createScheduleSchema>;
+export type CatchUpPolicy = z.infer<typeof catchUpPolicySchema>;
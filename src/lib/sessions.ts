@@ -0,0 +1,134 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+
+import { config } from "./config.js";
+import { prisma } from "./db.js";
+import { createChildLogger } from "./logger.js";
+
+const sessionLogger = createChildLogger({ scope: "sessions" });
+
+export interface IssuedSession {
+  readonly sessionId: string;
+  readonly userId: string;
+  /** Returned to the client once; only its hash is stored. */
+  readonly refreshToken: string;
+  readonly expiresAt: Date;
+}
+
+export function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * A refresh token names its session, so a token that was already rotated
+ * away can still be traced to the session it belonged to.
+ */
+export function generateRefreshToken(sessionId: string): string {
+  return `${sessionId}.${randomBytes(32).toString("base64url")}`;
+}
+
+function sessionIdOf(refreshToken: string): string | null {
+  const separator = refreshToken.indexOf(".");
+  return separator > 0 ? refreshToken.slice(0, separator) : null;
+}
+
+/**
+ * Start a session for a user who just signed in.
+ */
+export async function createSession(
+  userId: string,
+  now: Date = new Date()
+): Promise<IssuedSession> {
+  const sessionId = randomUUID();
+  const refreshToken = generateRefreshToken(sessionId);
+  const session = await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      expiresAt: new Date(now.getTime() + config.refreshTokenTtlMs),
+    },
+  });
+
+  return { sessionId: session.id, userId, refreshToken, expiresAt: session.expiresAt };
+}
+
+/**
+ * Exchange a refresh token for a new one.  The old token stops working, and
+ * of two concurrent refreshes with the same token only one succeeds.  A token
+ * that was already rotated away, or loses such a race, was presented twice:
+ * it may have been stolen, so the whole session is revoked.  Returns `null`
+ * for unknown, reused, revoked and expired tokens.  The session's expiry
+ * does not move.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  now: Date = new Date()
+): Promise<IssuedSession | null> {
+  const sessionId = sessionIdOf(refreshToken);
+  const session =
+    sessionId === null
+      ? null
+      : await prisma.session.findUnique({
+          where: { id: sessionId },
+          omit: { refreshTokenHash: false },
+        });
+
+  if (!session || session.revokedAt !== null || session.expiresAt <= now) {
+    return null;
+  }
+
+  const presentedHash = hashRefreshToken(refreshToken);
+  const nextToken = generateRefreshToken(session.id);
+  const rotated =
+    session.refreshTokenHash === presentedHash
+      ? await prisma.session.updateMany({
+          where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+          data: { refreshTokenHash: hashRefreshToken(nextToken), lastRefreshedAt: now },
+        })
+      : { count: 0 };
+
+  if (rotated.count === 0) {
+    await revokeSessions(session.userId, session.id, now);
+    sessionLogger.warn(
+      { sessionId: session.id, userId: session.userId },
+      "session.refresh_token_reused"
+    );
+    return null;
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.userId,
+    refreshToken: nextToken,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Whether access tokens issued for the session may still be used.
+ */
+export async function isSessionActive(sessionId: string, now: Date = new Date()): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+
+  return session !== null && session.revokedAt === null && session.expiresAt > now;
+}
+
+/**
+ * Revoke one session, or every active session of the user when `sessionId`
+ * is omitted.  Returns the number of sessions revoked.
+ */
+export async function revokeSessions(
+  userId: string,
+  sessionId?: string,
+  now: Date = new Date()
+): Promise<number> {
+  const revoked = await prisma.session.updateMany({
+    where: { userId, revokedAt: null, ...(sessionId !== undefined && { id: sessionId }) },
+    data: { revokedAt: now },
+  });
+
+  return revoked.count;
+}
@@ -0,0 +1,299 @@
+// Result templates: a job's url, headers and body may embed `{{parents[0].customer.id}}`
+// style references to the stored `result` of one of its dependencies.  The first
+// accessor picks the parent, either by its index in `dependsOn` or by its job ID;
+// the rest is a JSONPath-like walk into the parent's parsed result.
+
+const templatePattern = /\{\{\s*(parents\b[^{}]*?)\s*\}\}/g;
+const wholeTemplatePattern = /^\{\{\s*(parents\b[^{}]*?)\s*\}\}$/;
+const accessorPattern = /^(?:\.([^.[\]\s]+)|\[(\d+)\]|\["([^"]*)"\]|\['([^']*)'\])/;
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// RFC 9110 field names are tokens; values may not contain CR, LF or NUL
+const headerNamePattern = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const invalidHeaderValuePattern = /[\r\n\0]/;
+
+/**
+ * Thrown when a template is malformed or a referenced value is missing.
+ * Such failures are never retried: the parents' results will not change.
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export interface TemplateReference {
+  readonly expression: string;
+  /** Index into `dependsOn` or the parent's job ID. */
+  readonly parent: number | string;
+  readonly path: readonly string[];
+}
+
+export interface ParentResult {
+  readonly id: string;
+  readonly position: number;
+  readonly result: string | null;
+}
+
+export interface JobRequestTemplate {
+  readonly url: string;
+  readonly headers: Record<string, string>;
+  readonly body: string | undefined;
+}
+
+/**
+ * Parse the inside of a `{{ … }}` placeholder, e.g. `parents[0].items[2]["first name"]`.
+ */
+export function parseTemplateExpression(expression: string): TemplateReference {
+  let rest = expression.trim().slice("parents".length);
+  const segments: string[] = [];
+
+  while (rest.length > 0) {
+    const match = accessorPattern.exec(rest);
+
+    if (!match) {
+      throw new TemplateError(`Invalid template expression: ${expression}`);
+    }
+
+    segments.push(match[1] ?? match[2] ?? match[3] ?? match[4]!);
+    rest = rest.slice(match[0].length);
+  }
+
+  const [parent, ...path] = segments;
+
+  if (parent === undefined) {
+    throw new TemplateError(`Template ${expression} must name a parent`);
+  }
+
+  if (/^\d+$/.test(parent)) {
+    return { expression, parent: Number(parent), path };
+  }
+
+  if (!uuidPattern.test(parent)) {
+    throw new TemplateError(
+      `Template ${expression} must pick a parent by dependsOn index or job ID`
+    );
+  }
+
+  return { expression, parent: parent.toLowerCase(), path };
+}
+
+/**
+ * Every `{{parents…}}` expression in `text`.  Other `{{ }}` sequences are left alone.
+ */
+export function findTemplateExpressions(text: string): string[] {
+  return [...text.matchAll(templatePattern)].map((match) => match[1]!);
+}
+
+/**
+ * Every string value of a JSON document, where templates in `headers` and
+ * `body` live once their quotes are unescaped.  Unparseable input is returned as is.
+ */
+export function jsonStringValues(json: string | null | undefined): string[] {
+  if (!json) {
+    return [];
+  }
+
+  const collect = (value: unknown): string[] => {
+    if (typeof value === "string") {
+      return [value];
+    }
+
+    if (typeof value === "object" && value !== null) {
+      return Object.values(value).flatMap(collect);
+    }
+
+    return [];
+  };
+
+  try {
+    return collect(JSON.parse(json));
+  } catch {
+    return [json];
+  }
+}
+
+/**
+ * Check a job's templates against its `dependsOn` list at creation time.
+ * Returns one message per problem; an empty array means the templates are usable.
+ */
+export function validateTemplates(
+  texts: ReadonlyArray<string | null | undefined>,
+  dependsOn: readonly string[]
+): string[] {
+  const problems: string[] = [];
+
+  for (const expression of texts.flatMap((text) => (text ? findTemplateExpressions(text) : []))) {
+    let reference: TemplateReference;
+
+    try {
+      reference = parseTemplateExpression(expression);
+    } catch (error) {
+      problems.push((error as TemplateError).message);
+      continue;
+    }
+
+    const known =
+      typeof reference.parent === "number"
+        ? reference.parent < dependsOn.length
+        : dependsOn.some((id) => id.toLowerCase() === reference.parent);
+
+    if (!known) {
+      problems.push(`Template ${expression} references a parent missing from dependsOn`);
+    }
+  }
+
+  return problems;
+}
+
+function parseResult(result: string | null): unknown {
+  if (result === null) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(result) as unknown;
+  } catch {
+    // Non-JSON responses are stored as plain text
+    return result;
+  }
+}
+
+/**
+ * Look up the value a reference points at.  Throws a `TemplateError` when the
+ * parent or any step of the path is missing.
+ */
+export function resolveTemplateReference(
+  reference: TemplateReference,
+  parents: readonly ParentResult[]
+): unknown {
+  const parent = parents.find((candidate) =>
+    typeof reference.parent === "number"
+      ? candidate.position === reference.parent
+      : candidate.id === reference.parent
+  );
+
+  if (!parent) {
+    throw new TemplateError(`Template ${reference.expression} references an unknown parent`);
+  }
+
+  let value = parseResult(parent.result);
+
+  for (const segment of reference.path) {
+    if (Array.isArray(value) && /^\d+$/.test(segment) && Number(segment) < value.length) {
+      value = value[Number(segment)] as unknown;
+    } else if (
+      typeof value === "object" &&
+      value !== null &&
+      !Array.isArray(value) &&
+      Object.hasOwn(value, segment)
+    ) {
+      value = (value as Record<string, unknown>)[segment];
+    } else {
+      throw new TemplateError(
+        `Template ${reference.expression} not found in result of job ${parent.id}`
+      );
+    }
+  }
+
+  return value;
+}
+
+function resolve(expression: string, parents: readonly ParentResult[]): unknown {
+  return resolveTemplateReference(parseTemplateExpression(expression), parents);
+}
+
+function stringifyValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Interpolate every placeholder in `text` as a string.
+ */
+export function renderTemplate(
+  text: string,
+  parents: readonly ParentResult[],
+  encode: (value: string) => string = (value) => value
+): string {
+  return text.replace(templatePattern, (_match, expression: string) =>
+    encode(stringifyValue(resolve(expression, parents)))
+  );
+}
+
+/**
+ * Render the string values of a parsed JSON document.  A string that is a
+ * single placeholder is replaced by the referenced value itself, keeping its
+ * JSON type; placeholders inside longer strings are interpolated as text.
+ */
+function renderJsonValue(value: unknown, parents: readonly ParentResult[]): unknown {
+  if (typeof value === "string") {
+    const whole = wholeTemplatePattern.exec(value);
+    return whole ? resolve(whole[1]!, parents) : renderTemplate(value, parents);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => renderJsonValue(item, parents));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderJsonValue(item, parents)])
+    );
+  }
+
+  return value;
+}
+
+function renderHeaders(
+  headers: Record<string, string>,
+  parents: readonly ParentResult[]
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => {
+      const rendered = renderTemplate(value, parents);
+
+      if (!headerNamePattern.test(name)) {
+        throw new TemplateError(`Header name is invalid: ${JSON.stringify(name)}`);
+      }
+
+      if (invalidHeaderValuePattern.test(rendered)) {
+        throw new TemplateError(`Rendered value of header ${name} contains CR, LF or NUL`);
+      }
+
+      return [name, rendered];
+    })
+  );
+}
+
+/**
+ * Resolve the templates of an outgoing request right before it is sent.
+ * Values substituted into the URL are percent-encoded.  A header that
+ * `fetch` would refuse to send throws a `TemplateError`, so the job fails
+ * once instead of being retried as a network error.
+ */
+export function renderJobRequest(
+  request: JobRequestTemplate,
+  parents: readonly ParentResult[]
+): JobRequestTemplate {
+  const url = renderTemplate(request.url, parents, encodeURIComponent);
+
+  if (!URL.canParse(url)) {
+    throw new TemplateError(`Rendered URL is invalid: ${url}`);
+  }
+
+  return {
+    url,
+    headers: renderHeaders(request.headers, parents),
+    body:
+      request.body === undefined
+        ? undefined
+        : JSON.stringify(renderJsonValue(JSON.parse(request.body), parents)),
+  };
+}
+
+/**
+ * Whether any part of the request contains a `{{parents…}}` placeholder.
+ */
+export function hasTemplates(...texts: ReadonlyArray<string | null | undefined>): boolean {
+  return texts.some((text) => typeof text === "string" && findTemplateExpressions(text).length > 0);
+}
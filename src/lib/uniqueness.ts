@@ -0,0 +1,73 @@
+import { ConflictError } from "./errors.js";
+import type { UniquePolicy } from "./schemas.js";
+import type { Job, Prisma } from "../generated/prisma/client.js";
+
+type StoredJob = Omit<Job, "callbackSecret" | "idempotencyHash">;
+
+export interface UniqueOutcome {
+  /** Existing job the submission was folded into (`merge`); no job should be created. */
+  readonly merged: StoredJob | null;
+  /** Pending jobs cancelled to make room for the new one (`replace`). */
+  readonly replaced: StoredJob[];
+}
+
+/**
+ * Enforce "one active job per uniqueKey" for a submission, inside the creating
+ * transaction.  Active means `pending` or `processing`.
+ *
+ * - `reject`: any active match is a `ConflictError`.
+ * - `replace`: pending matches are cancelled; a processing match is a `ConflictError`.
+ * - `merge`: the oldest active match is kept, adopting the more urgent priority.
+ */
+export async function applyUniquePolicy(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  uniqueKey: string,
+  policy: UniquePolicy,
+  priority: number
+): Promise<UniqueOutcome> {
+  const active = await tx.job.findMany({
+    where: { userId, uniqueKey, status: { in: ["pending", "processing"] } },
+    orderBy: { createdAt: "asc" },
+  });
+  const [oldest] = active;
+
+  if (!oldest) {
+    return { merged: null, replaced: [] };
+  }
+
+  switch (policy) {
+    case "reject":
+      throw new ConflictError(
+        `Job ${oldest.id} with uniqueKey ${uniqueKey} is already ${oldest.status}`
+      );
+
+    case "replace": {
+      const processing = active.find((job) => job.status === "processing");
+
+      if (processing) {
+        throw new ConflictError(`Cannot replace job ${processing.id} while it is processing`);
+      }
+
+      await tx.job.updateMany({
+        where: { id: { in: active.map((job) => job.id) }, status: "pending" },
+        data: { status: "cancelled" },
+      });
+
+      return {
+        merged: null,
+        replaced: active.map((job) => ({ ...job, status: "cancelled" })),
+      };
+    }
+
+    case "merge": {
+      // Lower numbers run first; a processing job's priority no longer matters
+      if (oldest.status !== "pending" || oldest.priority <= priority) {
+        return { merged: oldest, replaced: [] };
+      }
+
+      const merged = await tx.job.update({ where: { id: oldest.id }, data: { priority } });
+      return { merged, replaced: [] };
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { prisma } from "./db.js";
+import { NotFoundError } from "./errors.js";
+import type { UserRole } from "./schemas.js";
+
+/**
+ * The user's current role, or `null` when the user no longer exists.
+ */
+export async function findUserRole(userId: string): Promise<UserRole | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+
+  return user ? (user.role as UserRole) : null;
+}
+
+/**
+ * Give the user signed up with `email` the admin role, e.g. the first admin
+ * of an install.  Later admins can be promoted through `PATCH /admin/users/:id`.
+ */
+export async function promoteToAdmin(email: string): Promise<{ id: string; email: string }> {
+  const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+
+  if (!user) {
+    throw new NotFoundError(`No user signed up with ${email}`);
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: { role: "admin" },
+    select: { id: true, email: true },
+  });
+}
@@ -1,21 +1,104 @@
 import { z } from "zod";
 
-import { calculateBackoffMs, nextRunDate } from "./backoff.js";
+import { calculateBackoffMs, nextRunDate, type BackoffConfig } from "./backoff.js";
+import { callbackDeliveryFor } from "./callbacks.js";
 import { config } from "./config.js";
+import {
+  recordCircuitOutcome,
+  msUntilHalfOpen,
+  recordDispatch,
+  resetCircuitBreakersForTest,
+  unavailableHosts,
+  type CircuitOutcome,
+} from "./circuitBreakers.js";
+import { cascadeParentFailure } from "./dependencies.js";
+import { ConflictError } from "./errors.js";
+import { publishJobEvent } from "./events.js";
 import { prisma } from "./db.js";
+import {
+  generateWorkerId,
+  heartbeatWorker,
+  leaseExpiry,
+  listLiveWorkers,
+  unregisterWorker,
+} from "./leases.js";
 import { createJobLogger, createWorkerLogger } from "./logger.js";
-import type { Job } from "../generated/prisma/client.js";
+import { loadQueues, pickQueue } from "./queues.js";
+import { assertRecoveryConfig, recoverStuckJobs } from "./recovery.js";
+import {
+  exhaustedRateLimitKeys,
+  loadRateLimitRules,
+  msUntilRateLimitToken,
+  resetRateLimitBucketsForTest,
+  takeRateLimitToken,
+} from "./rateLimits.js";
+import {
+  HttpStatusError,
+  classifyFailure,
+  isRetryableFailure,
+  parseRetryAfterMs,
+  parseRetryOn,
+} from "./retry.js";
+import type { BackoffStrategy } from "./schemas.js";
+import { hasTemplates, renderJobRequest, type JobRequestTemplate } from "./templates.js";
+import { Prisma, type Job, type Worker } from "../generated/prisma/client.js";
+
+const { pollIntervalMs, maxIdlePollIntervalMs } = config.workers;
+const workerId = generateWorkerId();
+
+interface AttemptResponse {
+  readonly status: number;
+  readonly headers: string;
+  readonly body: string;
+}
+
+/** Due jobs the worker must leave pending for now. */
+interface ClaimExclusions {
+  /** Keys whose rate limit bucket is empty. */
+  readonly rateLimitKeys: readonly string[];
+  /** Hosts behind an open (or probing half-open) circuit breaker. */
+  readonly hosts: readonly string[];
+}
 
-export const maxConcurrent = 5;
+/** A job this process is executing. */
+interface RunningJob {
+  readonly controller: AbortController;
+  readonly done: Promise<void>;
+}
 
-const pollIntervalMs = 2500;
-const requestTimeoutMs = 10000;
-const maxAttempts = 3;
-const workerId = "main";
+/**
+ * Abort reason for jobs still running when the drain timeout of `stopWorker`
+ * ran out.  Such jobs are requeued instead of failed.
+ */
+class WorkerStoppedError extends Error {
+  constructor() {
+    super("Worker stopped before the job finished");
+    this.name = "WorkerStoppedError";
+  }
+}
+
+interface AttemptOutcome {
+  readonly outcome: "completed" | "retrying" | "failed";
+  readonly failureKind?: string;
+  readonly errorMessage?: string;
+  readonly backoffMs?: number;
+}
 
 let currentWorkers = 0;
+// Runtime settings, changed through the admin API
+let maxConcurrent: number = config.workers.maxConcurrent;
+let isPaused = false;
+const runningByQueue = new Map<string, number>();
+const runningJobs = new Map<string, RunningJob>();
+let isRunning = false;
 let poller: NodeJS.Timeout | null = null;
-let isTickRunning = false;
+let pollDelayMs = pollIntervalMs;
+let heartbeat: NodeJS.Timeout | null = null;
+let recovery: NodeJS.Timeout | null = null;
+let activeTick: Promise<number> | null = null;
+// Set when a wake-up arrives mid-tick; the tick is then repeated
+let tickRequested = false;
+let stopping: Promise<void> | null = null;
 
 const workerLogger = createWorkerLogger(workerId);
 const headersSchema = z.record(z.string(), z.string());
@@ -34,58 +117,234 @@ function parseBody(bodyJson: string | null): string | undefined {
   return JSON.stringify(parsed);
 }
 
-async function claimNextJob(): Promise<Job | null> {
+/**
+ * Cut a response body down to `maxLength` characters for the attempt history.
+ */
+export function truncateResponseBody(
+  body: string,
+  maxLength: number = config.attemptLog.maxBodyLength
+): string {
+  return body.length > maxLength ? `${body.slice(0, maxLength)}…[truncated]` : body;
+}
+
+/**
+ * Nested create input for the `JobAttempt` row describing one execution.
+ * Written in the same update that records the job's new status.
+ */
+function attemptRecordFor(
+  job: Pick<Job, "attempts">,
+  startedAt: number,
+  response: AttemptResponse | null,
+  outcome: AttemptOutcome
+): Prisma.JobAttemptCreateNestedManyWithoutJobInput {
+  const finishedAt = Date.now();
+
+  return {
+    create: {
+      attempt: job.attempts,
+      outcome: outcome.outcome,
+      startedAt: new Date(startedAt),
+      finishedAt: new Date(finishedAt),
+      durationMs: finishedAt - startedAt,
+      responseStatus: response?.status ?? null,
+      responseHeaders: response?.headers ?? null,
+      responseBody: response?.body ?? null,
+      failureKind: outcome.failureKind ?? null,
+      errorMessage: outcome.errorMessage ?? null,
+      backoffMs: outcome.backoffMs ?? null,
+    },
+  };
+}
+
+/**
+ * Resolve a job's backoff tunables, falling back to the server-wide
+ * `config.backoff` values for anything the job did not override.
+ */
+export function backoffConfigForJob(
+  job: Pick<Job, "backoffStrategy" | "baseDelayMs" | "maxDelayMs" | "jitterMs">
+): BackoffConfig {
+  return {
+    strategy: job.backoffStrategy as BackoffStrategy,
+    baseDelayMs: job.baseDelayMs ?? config.backoff.baseDelayMs,
+    maxDelayMs: job.maxDelayMs ?? config.backoff.maxDelayMs,
+    jitterMs: job.jitterMs ?? config.backoff.jitterMs,
+  };
+}
+
+/**
+ * Resolve `{{parents…}}` templates in the job's request against the stored
+ * results of its dependencies.  Requests without templates are returned as is.
+ */
+async function renderRequest(job: Job, request: JobRequestTemplate): Promise<JobRequestTemplate> {
+  if (!hasTemplates(job.url, job.headers, job.body)) {
+    return request;
+  }
+
+  const dependencies = await prisma.jobDependency.findMany({
+    where: { childId: job.id },
+    select: { position: true, parent: { select: { id: true, result: true } } },
+  });
+
+  return renderJobRequest(
+    request,
+    dependencies.map(({ position, parent }) => ({ ...parent, position }))
+  );
+}
+
+async function claimNextJob(queueName: string, exclusions: ClaimExclusions): Promise<Job | null> {
   // Pass current time as a parameter so Prisma serialises it in the
   // same ISO-8601 format used for stored DateTime values.  SQLite's
   // datetime('now') produces 'YYYY-MM-DD HH:MM:SS' which would never
   // compare correctly against Prisma's 'YYYY-MM-DDTHH:MM:SS.sssZ'.
   const now = new Date();
+  // Excluded jobs stay pending without using an attempt
+  const rateLimitFilter =
+    exclusions.rateLimitKeys.length > 0
+      ? Prisma.sql`AND (j.rateLimitKey IS NULL OR j.rateLimitKey NOT IN (${Prisma.join(exclusions.rateLimitKeys)}))`
+      : Prisma.empty;
+  const hostFilter =
+    exclusions.hosts.length > 0
+      ? Prisma.sql`AND (j.host IS NULL OR j.host NOT IN (${Prisma.join(exclusions.hosts)}))`
+      : Prisma.empty;
 
   const jobs = await prisma.$queryRaw<Job[]>`
     UPDATE Job
     SET status = 'processing',
         attempts = attempts + 1,
         nextRunAt = NULL,
+        lockedBy = ${workerId},
+        lockedAt = ${now},
+        lockedUntil = ${leaseExpiry(now)},
         updatedAt = CURRENT_TIMESTAMP
     WHERE id = (
-      SELECT id FROM Job
-      WHERE status = 'pending'
-        AND (nextRunAt IS NULL OR nextRunAt <= ${now})
-      ORDER BY priority ASC, createdAt ASC
+      SELECT j.id FROM Job j
+      WHERE j.status = 'pending'
+        AND j.queue = ${queueName}
+        AND (j.nextRunAt IS NULL OR j.nextRunAt <= ${now})
+        ${rateLimitFilter}
+        ${hostFilter}
+        AND NOT EXISTS (
+          SELECT 1 FROM JobDependency d
+          JOIN Job p ON p.id = d.parentId
+          WHERE d.childId = j.id AND p.status <> 'completed'
+        )
+      ORDER BY j.priority ASC, j.createdAt ASC
       LIMIT 1
     )
     RETURNING
       id,
       priority,
+      queue,
       method,
       url,
+      host,
       headers,
       body,
       status,
       attempts,
       retries,
+      maxAttempts,
+      backoffStrategy,
+      baseDelayMs,
+      maxDelayMs,
+      jitterMs,
+      retryOn,
+      timeoutMs,
+      callbackUrl,
+      callbackSecret,
+      idempotencyKey,
+      idempotencyHash,
+      uniqueKey,
+      rateLimitKey,
       result,
       errorMessage,
+      failureKind,
+      onParentFailure,
+      runAt,
       nextRunAt,
+      lockedBy,
+      lockedAt,
+      lockedUntil,
       createdAt,
       updatedAt,
-      userId;
+      userId,
+      scheduleId;
   `;
 
   return jobs[0] ?? null;
 }
 
-async function executeJob(job: Job): Promise<void> {
+/**
+ * Store the result of an attempt and release the lease, but only while this
+ * worker still holds it.  Returns `false` when the lease expired and the job
+ * was reclaimed: it belongs to whichever worker claimed it next.
+ */
+async function saveAttempt(
+  job: Job,
+  data: Prisma.JobUpdateInput,
+  jobLogger: ReturnType<typeof createJobLogger>
+): Promise<boolean> {
+  try {
+    await prisma.job.update({
+      where: { id: job.id, lockedBy: workerId },
+      data: { ...data, lockedBy: null, lockedAt: null, lockedUntil: null },
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      jobLogger.warn({ attempts: job.attempts }, "job.lease_lost");
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Hand a job aborted by `stopWorker` back to the queue as if it had never
+ * been claimed: the interrupted attempt is not counted.
+ */
+async function requeueJob(job: Job, jobLogger: ReturnType<typeof createJobLogger>): Promise<void> {
+  const saved = await saveAttempt(
+    job,
+    { status: "pending", attempts: { decrement: 1 }, nextRunAt: null },
+    jobLogger
+  );
+
+  if (saved) {
+    jobLogger.info({ attempts: job.attempts - 1 }, "job.requeued");
+  }
+}
+
+async function executeJob(job: Job, controller: AbortController): Promise<void> {
   const jobLogger = createJobLogger(job.id);
   const startedAt = Date.now();
+  const timeoutMs = job.timeoutMs ?? config.requestTimeout.defaultMs;
+  let attemptResponse: AttemptResponse | null = null;
+  // Only answers from the target (or the lack of one) count towards its circuit breaker
+  let circuitOutcome: CircuitOutcome = "neutral";
 
   currentWorkers += 1;
-  jobLogger.info({ attempts: job.attempts, method: job.method, url: job.url }, "job.started");
+  runningByQueue.set(job.queue, (runningByQueue.get(job.queue) ?? 0) + 1);
+  jobLogger.info(
+    { attempts: job.attempts, method: job.method, url: job.url, timeoutMs },
+    "job.started"
+  );
+  publishJobEvent({
+    type: "job.started",
+    jobId: job.id,
+    userId: job.userId,
+    status: "processing",
+    data: { attempts: job.attempts },
+  });
 
   try {
-    const rawHeaders = parseHeaders(job.headers);
-    const body = parseBody(job.body ?? null);
-    const headers: Record<string, string> = { ...rawHeaders };
+    const request = await renderRequest(job, {
+      url: job.url,
+      headers: parseHeaders(job.headers),
+      body: parseBody(job.body ?? null),
+    });
+    const body = request.body;
+    const headers: Record<string, string> = { ...request.headers };
     const hasContentType = Object.keys(headers).some((key) => key.toLowerCase() === "content-type");
 
     if (body && !hasContentType) {
@@ -96,21 +355,31 @@ async function executeJob(job: Job): Promise<void> {
       headers["accept"] = headers["accept"] ?? "application/json";
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), requestTimeoutMs);
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
-      const response = await fetch(job.url, {
+      const response = await fetch(request.url, {
         method: job.method,
         headers,
         body: body && job.method !== "GET" ? body : undefined,
         signal: controller.signal,
       });
 
+      circuitOutcome = response.status >= 500 ? "failure" : "success";
       const responseText = await response.text();
 
+      attemptResponse = {
+        status: response.status,
+        headers: JSON.stringify(Object.fromEntries(response.headers)),
+        body: truncateResponseBody(responseText),
+      };
+
       if (!response.ok) {
-        throw new Error(`Request failed with status ${response.status}: ${responseText}`);
+        throw new HttpStatusError(
+          response.status,
+          parseRetryAfterMs(response.headers.get("retry-after")),
+          `Request failed with status ${response.status}: ${responseText}`
+        );
       }
 
       let result = responseText;
@@ -125,112 +394,564 @@ async function executeJob(job: Job): Promise<void> {
         }
       }
 
-      await prisma.job.update({
-        where: { id: job.id },
-        data: {
+      const saved = await saveAttempt(
+        job,
+        {
           status: "completed",
           result,
           errorMessage: null,
+          failureKind: null,
+          callbacks: callbackDeliveryFor(job, { status: "completed", result, errorMessage: null }),
+          attemptHistory: attemptRecordFor(job, startedAt, attemptResponse, {
+            outcome: "completed",
+          }),
         },
-      });
+        jobLogger
+      );
+
+      if (!saved) {
+        return;
+      }
 
       jobLogger.info({ durationMs: Date.now() - startedAt }, "job.completed");
+      publishJobEvent({
+        type: "job.completed",
+        jobId: job.id,
+        userId: job.userId,
+        status: "completed",
+        data: { attempts: job.attempts },
+      });
     } finally {
       clearTimeout(timeoutId);
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    if (controller.signal.reason instanceof WorkerStoppedError) {
+      await requeueJob(job, jobLogger);
+      return;
+    }
+
+    const failure = classifyFailure(error);
+
+    if (failure.kind === "network" || failure.kind === "timeout") {
+      circuitOutcome = "failure";
+    }
+    const errorMessage =
+      failure.kind === "timeout"
+        ? `Request timed out after ${timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : "Unknown error";
+    const retryable = isRetryableFailure(parseRetryOn(job.retryOn), failure);
+
+    // `attempts` was already incremented when the job was claimed
+    const willRetry = retryable && job.attempts < job.maxAttempts;
+
+    // A Retry-After from the target takes precedence over our own backoff
+    const retryAfterMs = error instanceof HttpStatusError ? error.retryAfterMs : null;
+    let backoffMs = 0;
+
+    if (willRetry) {
+      backoffMs =
+        retryAfterMs !== null
+          ? Math.min(retryAfterMs, config.backoff.retryAfterMaxMs)
+          : calculateBackoffMs(job.attempts - 1, backoffConfigForJob(job));
+    }
 
-    const nextAttempts = job.attempts + 1;
-    const willRetry = nextAttempts < maxAttempts;
-    const backoffMs = willRetry ? calculateBackoffMs(job.attempts - 1, config.backoff) : 0;
     const nextRun = willRetry ? nextRunDate(backoffMs) : null;
 
-    await prisma.job.update({
-      where: { id: job.id },
-      data: {
+    const saved = await saveAttempt(
+      job,
+      {
         status: willRetry ? "pending" : "failed",
         errorMessage,
+        failureKind: failure.kind,
         result: null,
-        attempts: {
-          increment: 1,
-        },
         nextRunAt: nextRun,
+        ...(!willRetry && {
+          callbacks: callbackDeliveryFor(job, { status: "failed", result: null, errorMessage }),
+        }),
+        attemptHistory: attemptRecordFor(job, startedAt, attemptResponse, {
+          outcome: willRetry ? "retrying" : "failed",
+          failureKind: failure.kind,
+          errorMessage,
+          ...(willRetry && { backoffMs }),
+        }),
       },
-    });
+      jobLogger
+    );
+
+    if (!saved) {
+      return;
+    }
 
     jobLogger.warn(
       {
         durationMs: Date.now() - startedAt,
-        attempts: nextAttempts,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        failureKind: failure.kind,
+        ...(failure.status !== undefined && { status: failure.status }),
+        ...(!retryable && { retryable }),
         errorMessage,
-        ...(willRetry && { nextRunAt: nextRun?.toISOString(), backoffMs }),
+        ...(willRetry && {
+          nextRunAt: nextRun?.toISOString(),
+          backoffMs,
+          ...(retryAfterMs !== null && { retryAfterMs }),
+        }),
       },
       willRetry ? "job.retrying" : "job.failed"
     );
+    publishJobEvent({
+      type: willRetry ? "job.retrying" : "job.failed",
+      jobId: job.id,
+      userId: job.userId,
+      status: willRetry ? "pending" : "failed",
+      data: {
+        attempts: job.attempts,
+        failureKind: failure.kind,
+        errorMessage,
+        ...(willRetry && { nextRunAt: nextRun?.toISOString() }),
+      },
+    });
+
+    if (!willRetry) {
+      await cascadeParentFailure({ id: job.id, status: "failed" }).catch(
+        (cascadeError: unknown) => {
+          jobLogger.error({ err: cascadeError }, "job.cascade_failed");
+        }
+      );
+    }
   } finally {
+    recordCircuitOutcome(job.host, circuitOutcome);
     currentWorkers = Math.max(0, currentWorkers - 1);
+    runningByQueue.set(job.queue, Math.max(0, (runningByQueue.get(job.queue) ?? 0) - 1));
+    // The freed slot, or dependents this job unblocked, may have work waiting
+    wakeWorker();
   }
 }
 
-async function runTick(): Promise<void> {
-  if (isTickRunning) {
-    return;
-  }
+interface TickResult {
+  /** Jobs the tick started. */
+  readonly claimed: number;
+  /**
+   * When due jobs may have been held back by a rate limit or circuit
+   * breaker: milliseconds until the earliest of them lets a job through.
+   */
+  readonly throttledForMs: number | null;
+}
+
+/**
+ * Claim and start jobs until the slots are full or nothing is due.
+ */
+async function runTick(): Promise<TickResult> {
+  let claimed = 0;
+  let throttledForMs: number | null = null;
 
-  isTickRunning = true;
+  if (isPaused) {
+    return { claimed, throttledForMs };
+  }
 
   try {
-    while (currentWorkers < maxConcurrent) {
-      const job = await claimNextJob();
+    const [queues, rateLimits] = await Promise.all([loadQueues(), loadRateLimitRules()]);
+    // Queues with no due job left; not asked again until the next tick
+    const exhausted = new Set<string>();
+    let throttled = false;
 
-      if (!job) {
+    // A stopping worker claims nothing more, even mid-tick
+    while (isRunning && !isPaused && currentWorkers < maxConcurrent) {
+      const queue = pickQueue(queues, runningByQueue, exhausted);
+
+      if (!queue) {
         break;
       }
 
-      void executeJob(job);
+      const exclusions = {
+        rateLimitKeys: exhaustedRateLimitKeys(rateLimits),
+        hosts: unavailableHosts(),
+      };
+      const job = await claimNextJob(queue.name, exclusions);
+
+      if (!job) {
+        throttled ||= exclusions.rateLimitKeys.length > 0 || exclusions.hosts.length > 0;
+        exhausted.add(queue.name);
+        continue;
+      }
+
+      takeRateLimitToken(rateLimits, job.rateLimitKey);
+      recordDispatch(job.host);
+      claimed += 1;
+
+      const controller = new AbortController();
+      runningJobs.set(job.id, {
+        controller,
+        done: executeJob(job, controller).finally(() => {
+          runningJobs.delete(job.id);
+        }),
+      });
+    }
+
+    if (throttled) {
+      const waits = [msUntilRateLimitToken(rateLimits), msUntilHalfOpen()].filter(
+        (waitMs) => waitMs !== null
+      );
+      throttledForMs = waits.length > 0 ? Math.min(...waits) : null;
     }
   } catch (error) {
     workerLogger.error({ err: error }, "worker.tick_failed");
-  } finally {
-    isTickRunning = false;
   }
+
+  return { claimed, throttledForMs };
 }
 
-export function startWorker(): void {
+/**
+ * Milliseconds until the earliest delayed job (backoff or `runAt`) becomes
+ * due, or `null` when none is waiting.
+ */
+async function msUntilNextDueJob(now: Date = new Date()): Promise<number | null> {
+  const next = await prisma.job.findFirst({
+    where: { status: "pending", nextRunAt: { gt: now } },
+    orderBy: { nextRunAt: "asc" },
+    select: { nextRunAt: true },
+  });
+
+  return next?.nextRunAt ? next.nextRunAt.getTime() - now.getTime() : null;
+}
+
+/**
+ * Schedule the fallback poll, replacing any poll already scheduled.
+ */
+function schedulePoll(delayMs: number): void {
   if (poller) {
+    clearTimeout(poller);
+  }
+
+  poller = setTimeout(() => {
+    poller = null;
+    void tick();
+  }, delayMs);
+}
+
+/**
+ * Run a tick, then schedule the next poll: at the base interval while jobs
+ * are being claimed, backing off while idle but never past the next delayed
+ * job or the moment a rate limit or circuit breaker lets held-back jobs
+ * through.  Calls while a tick is in progress make it run once more
+ * afterwards.  Resolves with the number of jobs the tick started.
+ */
+function tick(): Promise<number> {
+  if (activeTick) {
+    tickRequested = true;
+    return activeTick;
+  }
+
+  activeTick = (async () => {
+    const { claimed, throttledForMs } = await runTick();
+
+    if (!isRunning) {
+      return claimed;
+    }
+
+    pollDelayMs = claimed > 0 ? pollIntervalMs : Math.min(pollDelayMs * 2, maxIdlePollIntervalMs);
+
+    let delayMs = throttledForMs === null ? pollDelayMs : Math.min(pollDelayMs, throttledForMs);
+
+    try {
+      const untilDueMs = await msUntilNextDueJob();
+
+      if (untilDueMs !== null) {
+        delayMs = Math.min(delayMs, untilDueMs);
+      }
+    } catch (error) {
+      workerLogger.error({ err: error }, "worker.tick_failed");
+    }
+
+    if (isRunning) {
+      schedulePoll(delayMs);
+    }
+
+    return claimed;
+  })().finally(() => {
+    activeTick = null;
+
+    if (tickRequested && isRunning) {
+      tickRequested = false;
+      void tick();
+    }
+  });
+
+  return activeTick;
+}
+
+/**
+ * Look for work right away instead of at the next poll, e.g. because a job
+ * was created, retried or fired by a schedule.  A no-op while stopped.
+ */
+export function wakeWorker(): void {
+  if (!isRunning) {
     return;
   }
 
-  workerLogger.info({ maxConcurrent, pollIntervalMs }, "worker.started");
+  pollDelayMs = pollIntervalMs;
+  void tick();
+}
 
-  poller = setInterval(() => {
-    void runTick();
-  }, pollIntervalMs);
+async function sendHeartbeat(): Promise<void> {
+  try {
+    const renewed = await heartbeatWorker(workerId, {
+      maxConcurrent,
+      currentJobs: currentWorkers,
+    });
+    workerLogger.debug({ renewed }, "worker.heartbeat");
+  } catch (error) {
+    workerLogger.error({ err: error }, "worker.heartbeat_failed");
+  }
+}
+
+async function runRecovery(): Promise<void> {
+  try {
+    const recovered = await recoverStuckJobs();
 
-  void runTick();
+    if (recovered > 0) {
+      workerLogger.info({ recovered }, "worker.jobs_recovered");
+      wakeWorker();
+    }
+  } catch (error) {
+    workerLogger.error({ err: error }, "worker.recovery_failed");
+  }
+}
+
+export function startWorker(): void {
+  if (isRunning || stopping) {
+    return;
+  }
+
+  assertRecoveryConfig();
+
+  isRunning = true;
+  pollDelayMs = pollIntervalMs;
+  tickRequested = false;
+
+  workerLogger.info(
+    {
+      maxConcurrent,
+      pollIntervalMs,
+      maxIdlePollIntervalMs,
+      leaseMs: config.workers.leaseMs,
+      recoveryIntervalMs: config.recovery.intervalMs,
+    },
+    "worker.started"
+  );
+
+  heartbeat = setInterval(() => {
+    void sendHeartbeat();
+  }, config.workers.heartbeatIntervalMs);
+
+  // Jobs abandoned by a worker that crashed, lost its database or hung
+  recovery = setInterval(() => {
+    void runRecovery();
+  }, config.recovery.intervalMs);
+
+  // Registered before the first claim, so recovery elsewhere sees a live owner.
+  // Orphans from before a restart are claimable again by the first tick.
+  void sendHeartbeat().then(runRecovery).then(tick);
 }
 
 export function resetWorkerStateForTest(): void {
   currentWorkers = 0;
-  isTickRunning = false;
-  poller = null;
+  runningByQueue.clear();
+  resetRateLimitBucketsForTest();
+  resetCircuitBreakersForTest();
+  maxConcurrent = config.workers.maxConcurrent;
+  isPaused = false;
+  runningJobs.clear();
+  activeTick = null;
+  tickRequested = false;
+  stopping = null;
+  isRunning = false;
+  pollDelayMs = pollIntervalMs;
+
+  if (poller) {
+    clearTimeout(poller);
+    poller = null;
+  }
+
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+
+  if (recovery) {
+    clearInterval(recovery);
+    recovery = null;
+  }
 }
 
-export function stopWorker(): void {
-  if (!poller) {
-    return;
+/**
+ * Wait for every running job to finish, for at most `timeoutMs`.  Returns
+ * `false` when some were still running at the deadline.
+ */
+async function drainRunningJobs(timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  const drained = Promise.allSettled([...runningJobs.values()].map((run) => run.done)).then(
+    () => true
+  );
+
+  try {
+    return await Promise.race([drained, deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function drainAndStop(drainTimeoutMs: number): Promise<void> {
+  isRunning = false;
+
+  if (poller) {
+    clearTimeout(poller);
+    poller = null;
+  }
+
+  if (recovery) {
+    clearInterval(recovery);
+    recovery = null;
+  }
+
+  // A claim in progress still hands its job over before the drain starts
+  await activeTick;
+  workerLogger.info({ running: runningJobs.size, drainTimeoutMs }, "worker.draining");
+
+  // Heartbeats keep renewing the leases of the jobs being drained
+  const drained = await drainRunningJobs(drainTimeoutMs);
+  const aborted = runningJobs.size;
+
+  if (!drained) {
+    const runs = [...runningJobs.values()];
+
+    for (const run of runs) {
+      run.controller.abort(new WorkerStoppedError());
+    }
+
+    await Promise.allSettled(runs.map((run) => run.done));
   }
 
-  clearInterval(poller);
-  poller = null;
-  isTickRunning = false;
-  workerLogger.info("worker.stopped");
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+
+  try {
+    await unregisterWorker(workerId);
+  } catch (error) {
+    workerLogger.error({ err: error }, "worker.unregister_failed");
+  }
+
+  workerLogger.info({ aborted }, "worker.stopped");
+}
+
+/**
+ * Stop claiming jobs and wait up to `drainTimeoutMs` for running ones to
+ * finish.  Jobs still running then are aborted and requeued.  Calls made
+ * while stopping share the same promise.
+ */
+export function stopWorker(drainTimeoutMs: number = config.workers.drainTimeoutMs): Promise<void> {
+  if (stopping) {
+    return stopping;
+  }
+
+  if (!isRunning) {
+    return Promise.resolve();
+  }
+
+  stopping = drainAndStop(drainTimeoutMs).finally(() => {
+    stopping = null;
+  });
+
+  return stopping;
+}
+
+/**
+ * Change how many jobs this process runs at once.  Above a lowered limit,
+ * running jobs finish normally and nothing new is claimed until below it.
+ */
+export function setMaxConcurrent(value: number): void {
+  const previous = maxConcurrent;
+  maxConcurrent = value;
+  workerLogger.info({ previous, maxConcurrent }, "worker.concurrency_changed");
+
+  if (isRunning) {
+    void sendHeartbeat();
+    wakeWorker();
+  }
+}
+
+/**
+ * Stop claiming jobs without stopping the worker.  Running jobs finish and
+ * heartbeats continue.
+ */
+export function pauseWorker(): void {
+  if (isPaused) {
+    throw new ConflictError("Worker is already paused");
+  }
+
+  isPaused = true;
+  workerLogger.info({ running: runningJobs.size }, "worker.paused");
+}
+
+export function resumeWorker(): void {
+  if (!isPaused) {
+    throw new ConflictError("Worker is not paused");
+  }
+
+  isPaused = false;
+  workerLogger.info("worker.resumed");
+  wakeWorker();
+}
+
+/**
+ * Claim due jobs right now instead of at the next poll.  Waits for a tick in
+ * progress first.  Resolves with the number of jobs started.
+ */
+export async function triggerTick(): Promise<number> {
+  if (!isRunning) {
+    throw new ConflictError("Worker is not running");
+  }
+
+  if (isPaused) {
+    throw new ConflictError("Worker is paused");
+  }
+
+  await activeTick;
+  pollDelayMs = pollIntervalMs;
+
+  const claimed = await tick();
+  workerLogger.info({ claimed }, "worker.tick_triggered");
+
+  return claimed;
 }
 
-export function getWorkerStatus(): {
+export async function getWorkerStatus(): Promise<{
+  /** Id of the worker in this process. */
+  readonly workerId: string;
+  /** `false` before `startWorker` and after `stopWorker`. */
+  readonly running: boolean;
+  readonly paused: boolean;
   readonly currentWorkers: number;
   readonly maxConcurrent: number;
-} {
-  return { currentWorkers, maxConcurrent };
+  /** Jobs this process is executing, per queue name. */
+  readonly runningByQueue: Readonly<Record<string, number>>;
+  /** Every worker that heartbeated within the last lease period, this one included. */
+  readonly workers: Worker[];
+}> {
+  return {
+    workerId,
+    running: isRunning,
+    paused: isPaused,
+    currentWorkers,
+    maxConcurrent,
+    runningByQueue: Object.fromEntries(runningByQueue),
+    workers: await listLiveWorkers(),
+  };
 }
@@ -1,12 +1,56 @@
 import { Request, Response, NextFunction } from "express";
-import { verifyToken } from "../lib/jwt.js";
+import { authenticateApiKey } from "../lib/apiKeys.js";
+import { verifyToken, type JwtPayload } from "../lib/jwt.js";
 import { createChildLogger } from "../lib/logger.js";
-import { AuthenticationError } from "../lib/errors.js";
+import { isSessionActive } from "../lib/sessions.js";
+import { findUserRole } from "../lib/users.js";
+import { AuthenticationError, ForbiddenError } from "../lib/errors.js";
+import type { ApiKeyScope, UserRole } from "../lib/schemas.js";
 
-export function authMiddleware(req: Request, _res: Response, next: NextFunction): void {
-  try {
-    const authHeader = req.headers.authorization;
+async function authenticateWithApiKey(req: Request, key: string): Promise<void> {
+  const apiKey = await authenticateApiKey(key.trim());
+
+  if (!apiKey) {
+    throw new AuthenticationError("Invalid, expired or revoked API key");
+  }
+
+  req.userId = apiKey.userId;
+  // Keys act for their owner as a regular user, whatever the owner's role
+  req.userRole = "user";
+  req.apiKeyId = apiKey.id;
+  req.apiKeyScopes = apiKey.scopes;
+
+  createChildLogger({
+    requestId: req.requestId,
+    userId: req.userId,
+    apiKeyId: apiKey.id,
+  }).debug("auth.validated");
+}
+
+/**
+ * Authenticate with either `Authorization: Bearer <jwt>` or
+ * `Authorization: ApiKey <key>`.
+ */
+export async function authMiddleware(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader?.startsWith("ApiKey ")) {
+    try {
+      await authenticateWithApiKey(req, authHeader.substring(7));
+      next();
+    } catch (error) {
+      next(error);
+    }
+    return;
+  }
+
+  let payload: JwtPayload;
 
+  try {
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
       throw new AuthenticationError("Missing or invalid authorization header");
     }
@@ -17,20 +61,105 @@ export function authMiddleware(req: Request, _res: Response, next: NextFunction)
       throw new AuthenticationError("Token not provided");
     }
 
-    const payload = verifyToken(token);
+    payload = verifyToken(token);
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      next(error);
+    } else {
+      next(new AuthenticationError("Invalid or expired token"));
+    }
+    return;
+  }
+
+  try {
+    // Tokens issued before sessions existed carry none and stay valid until they expire
+    if (payload.sessionId && !(await isSessionActive(payload.sessionId))) {
+      throw new AuthenticationError("Session has been revoked or has expired");
+    }
+
     req.userId = payload.userId;
+    req.userRole = payload.role ?? "user";
+    req.sessionId = payload.sessionId;
 
     createChildLogger({
       requestId: req.requestId,
       userId: req.userId,
+      role: req.userRole,
+      sessionId: req.sessionId,
     }).debug("auth.validated");
 
     next();
   } catch (error) {
-    if (error instanceof AuthenticationError) {
+    next(error);
+  }
+}
+
+/**
+ * Only let requests through whose user currently holds one of `roles`.  The
+ * role is looked up again rather than read from the token, so a demoted
+ * admin loses access right away.  Mount after `authMiddleware`.
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      // API keys keep the "user" role they were given, whatever their owner's role
+      if (!req.apiKeyId && req.userId) {
+        req.userRole = (await findUserRole(req.userId)) ?? undefined;
+      }
+
+      if (!req.userRole || !roles.includes(req.userRole)) {
+        createChildLogger({
+          requestId: req.requestId,
+          userId: req.userId,
+          role: req.userRole,
+          requiredRoles: roles,
+        }).warn("auth.forbidden");
+        throw new ForbiddenError(`Requires the ${roles.join(" or ")} role`);
+      }
+
+      next();
+    } catch (error) {
       next(error);
-    } else {
-      next(new AuthenticationError("Invalid or expired token"));
     }
+  };
+}
+
+/**
+ * Check API key scopes on job routes: reads need `jobs:read`, everything else
+ * `jobs:write`.  Requests authenticated with a JWT pass.
+ */
+export function requireJobScope(req: Request, _res: Response, next: NextFunction): void {
+  const scope: ApiKeyScope =
+    req.method === "GET" || req.method === "HEAD" ? "jobs:read" : "jobs:write";
+
+  if (req.apiKeyScopes && !req.apiKeyScopes.includes(scope)) {
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      apiKeyId: req.apiKeyId,
+      requiredScope: scope,
+    }).warn("auth.forbidden");
+    next(new ForbiddenError(`API key lacks the ${scope} scope`));
+    return;
   }
+
+  next();
+}
+
+/**
+ * Turn away requests authenticated with an API key, for routes that need a
+ * signed-in user.
+ */
+export function requireJwt(req: Request, _res: Response, next: NextFunction): void {
+  if (req.apiKeyId) {
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      apiKeyId: req.apiKeyId,
+    }).warn("auth.forbidden");
+    next(new ForbiddenError("API keys cannot be used here"));
+    return;
+  }
+
+  next();
 }
@@ -0,0 +1,422 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { prisma } from "../lib/db.js";
+import {
+  cancelPendingJob,
+  findJobPage,
+  jobListWhere,
+  retryFailedJob,
+  type StoredJob,
+} from "../lib/jobs.js";
+import { createChildLogger } from "../lib/logger.js";
+import {
+  getWorkerStatus,
+  pauseWorker,
+  resumeWorker,
+  setMaxConcurrent,
+  triggerTick,
+} from "../lib/worker.js";
+import { authMiddleware, requireRole } from "../middleware/auth.js";
+import {
+  adminJobQuerySchema,
+  jobIdParamSchema,
+  updateUserSchema,
+  updateWorkerSchema,
+  userIdParamSchema,
+} from "../lib/schemas.js";
+import { AuthenticationError, ConflictError, NotFoundError } from "../lib/errors.js";
+import type { Prisma } from "../generated/prisma/client.js";
+
+const router = Router();
+
+// All routes require an admin
+router.use(authMiddleware, requireRole("admin"));
+
+const adminUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+type AdminUser = Prisma.UserGetPayload<{ select: typeof adminUserSelect }>;
+
+async function findJob(id: string): Promise<StoredJob> {
+  const job = await prisma.job.findUnique({ where: { id } });
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  return job;
+}
+
+async function findUser(id: string): Promise<AdminUser> {
+  const user = await prisma.user.findUnique({ select: adminUserSelect, where: { id } });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  return user;
+}
+
+// GET /admin/worker - runtime settings and state of this process's worker
+router.get("/worker", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const worker = await getWorkerStatus();
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+    }).info("worker.fetched");
+
+    res.json({
+      success: true,
+      data: {
+        worker,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /admin/worker - change concurrency without a restart
+router.patch("/worker", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const validatedData = updateWorkerSchema.parse(req.body);
+    setMaxConcurrent(validatedData.maxConcurrent);
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      maxConcurrent: validatedData.maxConcurrent,
+    }).info("worker.updated");
+
+    res.json({
+      success: true,
+      data: {
+        worker: await getWorkerStatus(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /admin/worker/pause - stop claiming jobs from every queue
+router.post(
+  "/worker/pause",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      // Jobs already processing run to completion
+      pauseWorker();
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+      }).info("worker.pause_requested");
+
+      res.json({
+        success: true,
+        data: {
+          worker: await getWorkerStatus(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /admin/worker/resume - claim jobs again
+router.post(
+  "/worker/resume",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      resumeWorker();
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+      }).info("worker.resume_requested");
+
+      res.json({
+        success: true,
+        data: {
+          worker: await getWorkerStatus(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /admin/worker/tick - claim due jobs now instead of at the next poll
+router.post(
+  "/worker/tick",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const claimed = await triggerTick();
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        claimed,
+      }).info("worker.tick_requested");
+
+      res.json({
+        success: true,
+        data: {
+          claimed,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /admin/jobs - list every user's jobs, with the same filters as GET /jobs
+router.get("/jobs", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const query = adminJobQuerySchema.parse(req.query);
+    const { jobs, nextCursor, hasMore } = await findJobPage(
+      { ...jobListWhere(query), ...(query.userId && { userId: query.userId }) },
+      query
+    );
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      ownerId: query.userId ?? null,
+      status: query.status ?? null,
+      sort: query.sort,
+      limit: query.limit,
+      count: jobs.length,
+      hasMore,
+    }).info("admin.jobs_listed");
+
+    res.json({
+      success: true,
+      data: {
+        jobs,
+        count: jobs.length,
+        nextCursor,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /admin/jobs/:id/retry - retry any user's failed job
+router.post(
+  "/jobs/:id/retry",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = jobIdParamSchema.parse(req.params);
+      const job = await retryFailedJob(await findJob(params.id));
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        ownerId: job.userId,
+        jobId: job.id,
+        retries: job.retries,
+      }).info("admin.job_retried");
+
+      res.json({
+        success: true,
+        data: {
+          job,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /admin/jobs/:id/cancel - cancel any user's pending job
+router.post(
+  "/jobs/:id/cancel",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = jobIdParamSchema.parse(req.params);
+      const job = await cancelPendingJob(await findJob(params.id));
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        ownerId: job.userId,
+        jobId: job.id,
+      }).info("admin.job_cancelled");
+
+      res.json({
+        success: true,
+        data: {
+          job,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /admin/users - list all users, oldest first
+router.get("/users", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const users = await prisma.user.findMany({
+      select: adminUserSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      count: users.length,
+    }).info("admin.users_listed");
+
+    res.json({
+      success: true,
+      data: {
+        users,
+        count: users.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /admin/users/:id - change a user's role
+router.patch(
+  "/users/:id",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = userIdParamSchema.parse(req.params);
+      const validatedData = updateUserSchema.parse(req.body);
+      await findUser(params.id);
+
+      // Keeps the last admin from locking everyone out
+      if (params.id === req.userId) {
+        throw new ConflictError("Cannot change your own role");
+      }
+
+      const user = await prisma.user.update({
+        select: adminUserSelect,
+        where: { id: params.id },
+        data: validatedData,
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        targetUserId: user.id,
+        role: user.role,
+      }).info("admin.user_updated");
+
+      res.json({
+        success: true,
+        data: {
+          user,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /admin/users/:id - delete a user with their jobs and schedules
+router.delete(
+  "/users/:id",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = userIdParamSchema.parse(req.params);
+      const user = await findUser(params.id);
+
+      if (user.id === req.userId) {
+        throw new ConflictError("Cannot delete your own account");
+      }
+
+      const processing = await prisma.job.count({
+        where: { userId: user.id, status: "processing" },
+      });
+
+      if (processing > 0) {
+        throw new ConflictError(`Cannot delete a user with ${processing} processing job(s)`);
+      }
+
+      await prisma.user.delete({
+        where: { id: user.id },
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        targetUserId: user.id,
+        email: user.email,
+      }).info("admin.user_deleted");
+
+      res.json({
+        success: true,
+        data: {
+          message: "User deleted",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,178 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { apiKeySelect, generateApiKey, toApiKeyResponse } from "../lib/apiKeys.js";
+import { prisma } from "../lib/db.js";
+import { createChildLogger } from "../lib/logger.js";
+import { authMiddleware, requireJwt } from "../middleware/auth.js";
+import { apiKeyIdParamSchema, createApiKeySchema, updateApiKeySchema } from "../lib/schemas.js";
+import { NotFoundError, AuthenticationError, ConflictError } from "../lib/errors.js";
+import type { ApiKey } from "../generated/prisma/client.js";
+
+const router = Router();
+
+// Keys are managed by a signed-in user only, so a leaked key cannot mint more
+router.use(authMiddleware, requireJwt);
+
+/**
+ * Load an API key by id, hiding keys owned by other users behind a 404.
+ */
+async function findOwnedApiKey(
+  id: string,
+  userId: string
+): Promise<Pick<ApiKey, keyof typeof apiKeySelect | "userId">> {
+  const apiKey = await prisma.apiKey.findUnique({
+    select: { ...apiKeySelect, userId: true },
+    where: { id },
+  });
+
+  if (!apiKey || apiKey.userId !== userId) {
+    throw new NotFoundError("API key not found");
+  }
+
+  return apiKey;
+}
+
+// POST /auth/api-keys - create a key; the key itself is only returned here
+router.post("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const validatedData = createApiKeySchema.parse(req.body);
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      select: apiKeySelect,
+      data: {
+        name: validatedData.name,
+        prefix,
+        keyHash,
+        scopes: JSON.stringify(validatedData.scopes),
+        expiresAt: validatedData.expiresAt ?? null,
+        userId: req.userId,
+      },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      apiKeyId: apiKey.id,
+      scopes: validatedData.scopes,
+      expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    }).info("api_key.created");
+
+    res.status(201).json({
+      success: true,
+      data: {
+        apiKey: toApiKeyResponse(apiKey),
+        key,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /auth/api-keys - list the user's keys, newest first, including revoked ones
+router.get("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const apiKeys = await prisma.apiKey.findMany({
+      select: apiKeySelect,
+      where: { userId: req.userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      count: apiKeys.length,
+    }).info("api_keys.listed");
+
+    res.json({
+      success: true,
+      data: {
+        apiKeys: apiKeys.map(toApiKeyResponse),
+        count: apiKeys.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /auth/api-keys/:id - rename a key
+router.patch("/:id", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const params = apiKeyIdParamSchema.parse(req.params);
+    const validatedData = updateApiKeySchema.parse(req.body);
+    await findOwnedApiKey(params.id, req.userId);
+
+    const apiKey = await prisma.apiKey.update({
+      select: apiKeySelect,
+      where: { id: params.id },
+      data: { name: validatedData.name },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      apiKeyId: apiKey.id,
+    }).info("api_key.updated");
+
+    res.json({
+      success: true,
+      data: {
+        apiKey: toApiKeyResponse(apiKey),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /auth/api-keys/:id - revoke a key; it stays listed for audit
+router.delete("/:id", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const params = apiKeyIdParamSchema.parse(req.params);
+    const existing = await findOwnedApiKey(params.id, req.userId);
+
+    if (existing.revokedAt) {
+      throw new ConflictError("API key is already revoked");
+    }
+
+    const apiKey = await prisma.apiKey.update({
+      select: apiKeySelect,
+      where: { id: params.id },
+      data: { revokedAt: new Date() },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      apiKeyId: apiKey.id,
+    }).info("api_key.revoked");
+
+    res.json({
+      success: true,
+      data: {
+        apiKey: toApiKeyResponse(apiKey),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,9 +1,18 @@
 import { Router, Request, Response, NextFunction } from "express";
 import bcrypt from "bcrypt";
+import { config } from "../lib/config.js";
 import { prisma } from "../lib/db.js";
 import { generateToken } from "../lib/jwt.js";
 import { createChildLogger } from "../lib/logger.js";
-import { signupSchema, signinSchema } from "../lib/schemas.js";
+import { createSession, revokeSessions, rotateRefreshToken } from "../lib/sessions.js";
+import { authMiddleware, requireJwt } from "../middleware/auth.js";
+import {
+  signupSchema,
+  signinSchema,
+  refreshTokenSchema,
+  signoutSchema,
+  type UserRole,
+} from "../lib/schemas.js";
 import { AuthenticationError, ConflictError } from "../lib/errors.js";
 
 const router = Router();
@@ -37,6 +46,7 @@ router.post("/signup", async (req: Request, res: Response, next: NextFunction):
         id: true,
         name: true,
         email: true,
+        role: true,
         createdAt: true,
       },
     });
@@ -45,6 +55,7 @@ router.post("/signup", async (req: Request, res: Response, next: NextFunction):
       requestId: req.requestId,
       userId: user.id,
       email: user.email,
+      role: user.role,
     }).info("user.signup");
 
     res.status(201).json({
@@ -80,22 +91,29 @@ router.post("/signin", async (req: Request, res: Response, next: NextFunction):
     }
 
     // Generate token
-    const token = generateToken(user.id);
+    const session = await createSession(user.id);
+    const token = generateToken(user.id, user.role as UserRole, session.sessionId);
 
     createChildLogger({
       requestId: req.requestId,
       userId: user.id,
       email: user.email,
+      role: user.role,
+      sessionId: session.sessionId,
     }).info("user.signin");
 
     res.json({
       success: true,
       data: {
         token,
+        expiresIn: config.jwtExpiresInSeconds,
+        refreshToken: session.refreshToken,
+        refreshTokenExpiresAt: session.expiresAt,
         user: {
           id: user.id,
           name: user.name,
           email: user.email,
+          role: user.role,
         },
       },
     });
@@ -104,4 +122,83 @@ router.post("/signin", async (req: Request, res: Response, next: NextFunction):
   }
 });
 
+// POST /auth/refresh - trade a refresh token for a new access token and refresh token
+router.post("/refresh", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const validatedData = refreshTokenSchema.parse(req.body);
+    const session = await rotateRefreshToken(validatedData.refreshToken);
+
+    if (!session) {
+      throw new AuthenticationError("Invalid or expired refresh token");
+    }
+
+    // The role is read again, so role changes apply from the next refresh
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: session.userId },
+      select: { role: true },
+    });
+    const token = generateToken(session.userId, user.role as UserRole, session.sessionId);
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: session.userId,
+      sessionId: session.sessionId,
+    }).info("session.refreshed");
+
+    res.json({
+      success: true,
+      data: {
+        token,
+        expiresIn: config.jwtExpiresInSeconds,
+        refreshToken: session.refreshToken,
+        refreshTokenExpiresAt: session.expiresAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /auth/signout - revoke the current session, or all of the user's sessions
+router.post(
+  "/signout",
+  authMiddleware,
+  requireJwt,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const validatedData = signoutSchema.parse(req.body ?? {});
+
+      // Tokens issued before sessions existed have no session of their own to end
+      let revokedSessions = 0;
+
+      if (validatedData.all) {
+        revokedSessions = await revokeSessions(req.userId);
+      } else if (req.sessionId) {
+        revokedSessions = await revokeSessions(req.userId, req.sessionId);
+      }
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        sessionId: req.sessionId,
+        all: validatedData.all,
+        revokedSessions,
+      }).info("user.signout");
+
+      res.json({
+        success: true,
+        data: {
+          revokedSessions,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
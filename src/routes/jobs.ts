@@ -1,19 +1,203 @@
 import { Router, Request, Response, NextFunction } from "express";
+import { nextRunDate } from "../lib/backoff.js";
+import { config } from "../lib/config.js";
 import { prisma } from "../lib/db.js";
+import { assertDependenciesUsable, cascadeParentFailure } from "../lib/dependencies.js";
+import { findIdempotentJob, hashJobPayload } from "../lib/idempotency.js";
+import { assertQueueExists, defaultQueueName } from "../lib/queues.js";
+import {
+  assertBatchSizeWithinQuota,
+  assertBodyWithinQuota,
+  chargeJobQuota,
+} from "../lib/quotas.js";
+import { rateLimitKeyFor } from "../lib/rateLimits.js";
+import { hostOf } from "../lib/circuitBreakers.js";
+import { applyUniquePolicy } from "../lib/uniqueness.js";
+import { publishJobEvent, subscribeToJobEvents, type JobEvent } from "../lib/events.js";
+import { cancelPendingJob, findJobPage, jobListWhere, retryFailedJob } from "../lib/jobs.js";
 import { createChildLogger } from "../lib/logger.js";
-import { authMiddleware } from "../middleware/auth.js";
+import { isSessionActive } from "../lib/sessions.js";
+import { wakeWorker } from "../lib/worker.js";
+import { authMiddleware, requireJobScope } from "../middleware/auth.js";
 import {
   createJobSchema,
   batchCreateJobsSchema,
+  idempotencyKeySchema,
   jobQuerySchema,
   jobIdParamSchema,
+  type CreateJobInput,
 } from "../lib/schemas.js";
 import { NotFoundError, AuthenticationError, ConflictError } from "../lib/errors.js";
+import type { Job, Prisma } from "../generated/prisma/client.js";
 
 const router = Router();
 
-// All routes require authentication
-router.use(authMiddleware);
+/**
+ * Resolve the scheduled run time from either an absolute `runAt` or a
+ * relative `delayMs`.  Returns `null` when the job should run as soon as possible.
+ */
+function resolveRunAt(jobData: CreateJobInput, now: Date = new Date()): Date | null {
+  if (jobData.runAt !== undefined) {
+    return new Date(jobData.runAt);
+  }
+
+  if (jobData.delayMs !== undefined) {
+    return nextRunDate(jobData.delayMs, now);
+  }
+
+  return null;
+}
+
+type ReplacedJob = Pick<Job, "id" | "userId" | "status" | "uniqueKey">;
+
+interface IdempotencyRecord {
+  readonly key: string;
+  readonly hash: string;
+}
+
+/**
+ * Map a validated job payload onto the Prisma create input.  Shared by the
+ * single and batch endpoints so both persist exactly the same fields.
+ */
+function toJobCreateData(
+  jobData: CreateJobInput,
+  userId: string,
+  now: Date = new Date(),
+  dependsOn: readonly string[] = [],
+  idempotency?: IdempotencyRecord
+): Prisma.JobUncheckedCreateInput {
+  const runAt = resolveRunAt(jobData, now);
+
+  return {
+    priority: jobData.priority,
+    queue: jobData.queue ?? defaultQueueName,
+    method: jobData.method,
+    url: jobData.url,
+    host: hostOf(jobData.url),
+    headers: jobData.headers,
+    body: jobData.body,
+    runAt,
+    nextRunAt: runAt,
+    maxAttempts: jobData.maxAttempts ?? config.workers.defaultMaxAttempts,
+    backoffStrategy: jobData.backoffStrategy,
+    baseDelayMs: jobData.baseDelayMs,
+    maxDelayMs: jobData.maxDelayMs,
+    jitterMs: jobData.jitterMs,
+    retryOn: jobData.retryOn ? JSON.stringify(jobData.retryOn) : null,
+    timeoutMs: jobData.timeoutMs,
+    callbackUrl: jobData.callbackUrl,
+    callbackSecret: jobData.callbackSecret,
+    onParentFailure: jobData.onParentFailure,
+    idempotencyKey: idempotency?.key,
+    idempotencyHash: idempotency?.hash,
+    uniqueKey: jobData.uniqueKey,
+    rateLimitKey: rateLimitKeyFor(jobData.url, jobData.rateLimitKey),
+    userId,
+    ...(dependsOn.length > 0 && {
+      // `position` keeps the `dependsOn` index that result templates refer to
+      dependencies: {
+        create: dependsOn.flatMap((parentId, position) =>
+          dependsOn.indexOf(parentId) === position ? [{ parentId, position }] : []
+        ),
+      },
+    }),
+  };
+}
+
+/**
+ * Turn the response into a Server-Sent Events stream of the job events that
+ * pass `filter`.  The subscription lives until the client disconnects, or
+ * until a heartbeat finds the caller's session revoked or expired.
+ */
+function openEventStream(
+  req: Request,
+  res: Response,
+  filter: (event: JobEvent) => boolean,
+  bindings: Record<string, unknown>
+): void {
+  const streamLogger = createChildLogger({
+    requestId: req.requestId,
+    userId: req.userId,
+    ...bindings,
+  });
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream",
+    "cache-control": "no-cache",
+    connection: "keep-alive",
+    "x-accel-buffering": "no",
+  });
+  res.write(": connected\n\n");
+
+  const unsubscribe = subscribeToJobEvents((event) => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }, filter);
+
+  const heartbeat = setInterval(() => {
+    void sendHeartbeat();
+  }, config.events.heartbeatMs);
+
+  let closed = false;
+
+  function close(): void {
+    if (closed) {
+      return;
+    }
+
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    streamLogger.info("events.unsubscribed");
+  }
+
+  // The stream outlives the auth check that opened it
+  async function sendHeartbeat(): Promise<void> {
+    try {
+      if (req.sessionId && !(await isSessionActive(req.sessionId))) {
+        streamLogger.info({ sessionId: req.sessionId }, "events.session_revoked");
+        close();
+        res.end();
+        return;
+      }
+    } catch (error) {
+      streamLogger.error({ err: error }, "events.session_check_failed");
+    }
+
+    if (!closed) {
+      res.write(": heartbeat\n\n");
+    }
+  }
+
+  streamLogger.info("events.subscribed");
+
+  req.on("close", close);
+}
+
+// All routes require authentication; API keys also need the jobs:read or jobs:write scope
+router.use(authMiddleware, requireJobScope);
+
+/**
+ * Cancel the pending jobs a `replace` submission displaced, once the creating
+ * transaction has committed: publish their events and cascade to dependents.
+ */
+async function finishReplacedJobs(req: Request, replaced: readonly ReplacedJob[]): Promise<void> {
+  for (const job of replaced) {
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      jobId: job.id,
+      uniqueKey: job.uniqueKey,
+    }).info("job.replaced");
+    publishJobEvent({
+      type: "job.cancelled",
+      jobId: job.id,
+      userId: job.userId,
+      status: job.status,
+      data: { reason: "replaced" },
+    });
+    await cascadeParentFailure(job);
+  }
+}
 
 // POST /jobs - create a new job
 router.post("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -23,25 +207,90 @@ router.post("/", async (req: Request, res: Response, next: NextFunction): Promis
     }
 
     const validatedData = createJobSchema.parse(req.body);
+    assertBodyWithinQuota(validatedData.body);
+    const userId = req.userId;
+    const dependsOn = validatedData.dependsOn ?? [];
+    const idempotencyHeader = req.get("idempotency-key");
+    const idempotency =
+      idempotencyHeader === undefined
+        ? undefined
+        : {
+            key: idempotencyKeySchema.parse(idempotencyHeader),
+            hash: hashJobPayload(validatedData),
+          };
+
+    const { job, outcome, replaced } = await prisma.$transaction(async (tx) => {
+      if (idempotency) {
+        const existing = await findIdempotentJob(tx, userId, idempotency.key, idempotency.hash);
+
+        if (existing) {
+          return { job: existing, outcome: "replayed" as const, replaced: [] };
+        }
+      }
 
-    const job = await prisma.job.create({
-      data: {
-        priority: validatedData.priority,
-        method: validatedData.method,
-        url: validatedData.url,
-        headers: validatedData.headers,
-        body: validatedData.body,
-        userId: req.userId,
-      },
+      let replacedJobs: ReplacedJob[] = [];
+
+      if (validatedData.uniqueKey !== undefined) {
+        const unique = await applyUniquePolicy(
+          tx,
+          userId,
+          validatedData.uniqueKey,
+          validatedData.uniquePolicy ?? "reject",
+          validatedData.priority
+        );
+
+        if (unique.merged) {
+          return { job: unique.merged, outcome: "merged" as const, replaced: [] };
+        }
+        replacedJobs = unique.replaced;
+      }
+
+      await assertQueueExists(tx, validatedData.queue ?? defaultQueueName);
+      await assertDependenciesUsable(tx, userId, dependsOn);
+
+      const created = await tx.job.create({
+        data: toJobCreateData(validatedData, userId, new Date(), dependsOn, idempotency),
+      });
+      await chargeJobQuota(tx, userId, 1);
+
+      return { job: created, outcome: "created" as const, replaced: replacedJobs };
     });
 
+    // A repeated or merged submission returns the existing job instead of queueing a duplicate
+    if (outcome !== "created") {
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        jobId: job.id,
+        ...(outcome === "replayed"
+          ? { idempotencyKey: idempotency?.key }
+          : { uniqueKey: job.uniqueKey, priority: job.priority }),
+      }).info(outcome === "replayed" ? "job.idempotent_replay" : "job.merged");
+
+      if (outcome === "replayed") {
+        res.set("Idempotent-Replayed", "true");
+      }
+      res.json({
+        success: true,
+        data: {
+          job,
+        },
+      });
+      return;
+    }
+
     createChildLogger({
       requestId: req.requestId,
       userId: req.userId,
       jobId: job.id,
+      queue: job.queue,
       method: job.method,
       url: job.url,
+      runAt: job.runAt?.toISOString() ?? null,
     }).info("job.created");
+    publishJobEvent({ type: "job.created", jobId: job.id, userId: job.userId, status: job.status });
+    await finishReplacedJobs(req, replaced);
+    wakeWorker();
 
     res.status(201).json({
       success: true,
@@ -62,33 +311,112 @@ router.post("/batch", async (req: Request, res: Response, next: NextFunction): P
     }
 
     const validated = batchCreateJobsSchema.parse(req.body);
+    assertBatchSizeWithinQuota(validated.jobs.length);
+    validated.jobs.forEach((jobData, index) => {
+      assertBodyWithinQuota(jobData.body, `Body of jobs.${index}`);
+    });
+    const userId = req.userId;
+    const now = new Date();
+
+    const replayedIds = new Set<string>();
+    const mergedIds = new Set<string>();
+    const replaced: ReplacedJob[] = [];
+
+    const jobs = await prisma.$transaction(async (tx) => {
+      const idsByRef = new Map<string, string>();
+      const created = [];
+      let insertedCount = 0;
+
+      for (const { ref, idempotencyKey, ...jobData } of validated.jobs) {
+        const idempotency =
+          idempotencyKey === undefined
+            ? undefined
+            : { key: idempotencyKey, hash: hashJobPayload(jobData) };
+        let job = idempotency
+          ? await findIdempotentJob(tx, userId, idempotency.key, idempotency.hash, now)
+          : null;
+
+        if (job) {
+          replayedIds.add(job.id);
+        } else if (jobData.uniqueKey !== undefined) {
+          const unique = await applyUniquePolicy(
+            tx,
+            userId,
+            jobData.uniqueKey,
+            jobData.uniquePolicy ?? "reject",
+            jobData.priority
+          );
+
+          job = unique.merged;
+          replaced.push(...unique.replaced);
+
+          if (job) {
+            mergedIds.add(job.id);
+          }
+        }
+
+        if (!job) {
+          // Refs were checked by the schema to point at earlier jobs in the batch
+          const dependsOn = (jobData.dependsOn ?? []).map(
+            (dependency) => idsByRef.get(dependency) ?? dependency
+          );
+
+          await assertQueueExists(tx, jobData.queue ?? defaultQueueName);
+          await assertDependenciesUsable(tx, userId, dependsOn);
+
+          job = await tx.job.create({
+            data: toJobCreateData(jobData, userId, now, dependsOn, idempotency),
+          });
+          insertedCount += 1;
+        }
+
+        if (ref) {
+          idsByRef.set(ref, job.id);
+        }
+        created.push(job);
+      }
 
-    const jobs = await prisma.$transaction(
-      validated.jobs.map((jobData) =>
-        prisma.job.create({
-          data: {
-            priority: jobData.priority,
-            method: jobData.method,
-            url: jobData.url,
-            headers: jobData.headers,
-            body: jobData.body,
-            userId: req.userId!,
-          },
-        })
-      )
+      // Replayed and merged items are not charged
+      await chargeJobQuota(tx, userId, insertedCount, now);
+
+      return created;
+    });
+
+    const createdJobs = jobs.filter(
+      (candidate) => !replayedIds.has(candidate.id) && !mergedIds.has(candidate.id)
     );
 
     createChildLogger({
       requestId: req.requestId,
       userId: req.userId,
       count: jobs.length,
+      replayed: replayedIds.size,
+      merged: mergedIds.size,
+      replaced: replaced.length,
     }).info("jobs.batch_created");
 
-    res.status(201).json({
+    for (const job of createdJobs) {
+      publishJobEvent({
+        type: "job.created",
+        jobId: job.id,
+        userId: job.userId,
+        status: job.status,
+      });
+    }
+    await finishReplacedJobs(req, replaced);
+
+    if (createdJobs.length > 0) {
+      wakeWorker();
+    }
+
+    // 200 when every job was replayed or merged and nothing new was queued
+    res.status(createdJobs.length === 0 ? 200 : 201).json({
       success: true,
       data: {
         jobs,
         count: jobs.length,
+        replayed: replayedIds.size,
+        merged: mergedIds.size,
       },
     });
   } catch (error) {
@@ -96,7 +424,7 @@ router.post("/batch", async (req: Request, res: Response, next: NextFunction): P
   }
 });
 
-// GET /jobs - list user's jobs with optional status filter
+// GET /jobs - list user's jobs, filtered, sorted and paginated by cursor
 router.get("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     if (!req.userId) {
@@ -105,24 +433,20 @@ router.get("/", async (req: Request, res: Response, next: NextFunction): Promise
 
     const query = jobQuerySchema.parse(req.query);
 
-    const whereClause: { userId: string; status?: string } = {
-      userId: req.userId,
-    };
-
-    if (query.status) {
-      whereClause.status = query.status;
-    }
-
-    const jobs = await prisma.job.findMany({
-      where: whereClause,
-      orderBy: [{ priority: "asc" }, { createdAt: "desc" }],
-    });
+    const { jobs, nextCursor, hasMore } = await findJobPage(
+      { ...jobListWhere(query), userId: req.userId },
+      query
+    );
 
     createChildLogger({
       requestId: req.requestId,
       userId: req.userId,
       status: query.status ?? null,
+      scheduled: query.scheduled ?? null,
+      sort: query.sort,
+      limit: query.limit,
       count: jobs.length,
+      hasMore,
     }).info("jobs.listed");
 
     res.json({
@@ -130,6 +454,7 @@ router.get("/", async (req: Request, res: Response, next: NextFunction): Promise
       data: {
         jobs,
         count: jobs.length,
+        nextCursor,
       },
     });
   } catch (error) {
@@ -137,6 +462,47 @@ router.get("/", async (req: Request, res: Response, next: NextFunction): Promise
   }
 });
 
+// GET /jobs/events - stream lifecycle events for all of the user's jobs (SSE)
+router.get("/events", (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const userId = req.userId;
+    openEventStream(req, res, (event) => event.userId === userId, {});
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /jobs/:id/events - stream lifecycle events for a single job (SSE)
+router.get(
+  "/:id/events",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = jobIdParamSchema.parse(req.params);
+
+      const job = await prisma.job.findUnique({
+        where: { id: params.id },
+      });
+
+      // Ensure the job belongs to the authenticated user
+      if (!job || job.userId !== req.userId) {
+        throw new NotFoundError("Job not found");
+      }
+
+      openEventStream(req, res, (event) => event.jobId === job.id, { jobId: job.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /jobs/:id - get a single job
 router.get("/:id", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -148,6 +514,11 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction): Prom
 
     const job = await prisma.job.findUnique({
       where: { id: params.id },
+      include: {
+        callbacks: { orderBy: { createdAt: "asc" } },
+        dependencies: { select: { parentId: true } },
+        dependents: { select: { childId: true } },
+      },
     });
 
     if (!job) {
@@ -176,9 +547,9 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction): Prom
   }
 });
 
-// POST /jobs/:id/retry - retry a failed job
-router.post(
-  "/:id/retry",
+// GET /jobs/:id/attempts - execution history of a job, oldest first
+router.get(
+  "/:id/attempts",
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.userId) {
@@ -189,6 +560,7 @@ router.post(
 
       const job = await prisma.job.findUnique({
         where: { id: params.id },
+        include: { attemptHistory: { orderBy: { startedAt: "asc" } } },
       });
 
       if (!job) {
@@ -200,27 +572,51 @@ router.post(
         throw new NotFoundError("Job not found");
       }
 
-      if (job.status !== "failed") {
-        const messages: Record<string, string> = {
-          pending: "Job is already pending",
-          processing: "Cannot retry a job that is currently processing",
-          completed: "Cannot retry a completed job",
-          cancelled: "Cannot retry a cancelled job",
-        };
-        throw new ConflictError(messages[job.status] ?? "Job cannot be retried");
-      }
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        jobId: job.id,
+        count: job.attemptHistory.length,
+      }).info("job.attempts_listed");
 
-      const updatedJob = await prisma.job.update({
-        where: { id: params.id },
+      res.json({
+        success: true,
         data: {
-          status: "pending",
-          attempts: 0,
-          retries: { increment: 1 },
-          errorMessage: null,
-          result: null,
-          nextRunAt: null,
+          attempts: job.attemptHistory,
+          count: job.attemptHistory.length,
         },
       });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /jobs/:id/retry - retry a failed job
+router.post(
+  "/:id/retry",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = jobIdParamSchema.parse(req.params);
+
+      const job = await prisma.job.findUnique({
+        where: { id: params.id },
+      });
+
+      if (!job) {
+        throw new NotFoundError("Job not found");
+      }
+
+      // Ensure the job belongs to the authenticated user
+      if (job.userId !== req.userId) {
+        throw new NotFoundError("Job not found");
+      }
+
+      const updatedJob = await retryFailedJob(job);
 
       createChildLogger({
         requestId: req.requestId,
@@ -273,10 +669,7 @@ router.delete("/:id", async (req: Request, res: Response, next: NextFunction): P
 
     // Pending jobs are cancelled (kept for audit), completed/failed jobs are permanently removed
     if (job.status === "pending") {
-      const updatedJob = await prisma.job.update({
-        where: { id: params.id },
-        data: { status: "cancelled" },
-      });
+      const updatedJob = await cancelPendingJob(job);
 
       createChildLogger({
         requestId: req.requestId,
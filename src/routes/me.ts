@@ -0,0 +1,39 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { createChildLogger } from "../lib/logger.js";
+import { getQuotaUsage } from "../lib/quotas.js";
+import { authMiddleware, requireJobScope } from "../middleware/auth.js";
+import { AuthenticationError } from "../lib/errors.js";
+
+const router = Router();
+
+// Usage is about jobs, so API keys need the jobs:read scope
+router.use(authMiddleware, requireJobScope);
+
+// GET /me/usage - current consumption against the user's quotas
+router.get("/usage", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const usage = await getQuotaUsage(req.userId);
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      pendingJobs: usage.pendingJobs.used,
+      jobsToday: usage.jobsToday.used,
+    }).info("usage.read");
+
+    res.json({
+      success: true,
+      data: {
+        usage,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
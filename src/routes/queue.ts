@@ -1,14 +1,18 @@
 import { Router, Request, Response, NextFunction } from "express";
 
+import { getCircuitBreakers, resetCircuitBreaker } from "../lib/circuitBreakers.js";
 import { prisma } from "../lib/db.js";
 import { createChildLogger } from "../lib/logger.js";
-import { getWorkerStatus } from "../lib/worker.js";
-import { authMiddleware } from "../middleware/auth.js";
-import { AuthenticationError } from "../lib/errors.js";
+import { loadQueues } from "../lib/queues.js";
+import { getWorkerStatus, wakeWorker } from "../lib/worker.js";
+import { authMiddleware, requireRole } from "../middleware/auth.js";
+import { circuitBreakerHostParamSchema } from "../lib/schemas.js";
+import { AuthenticationError, NotFoundError } from "../lib/errors.js";
 
 const router = Router();
 
-router.use(authMiddleware);
+// Queue-wide figures and controls are for admins only
+router.use(authMiddleware, requireRole("admin"));
 
 // GET /queue/status - queue status overview
 router.get("/status", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -23,11 +27,15 @@ router.get("/status", async (req: Request, res: Response, next: NextFunction): P
     );
     const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
 
-    const [pendingCount, processingCount, failedCount, completedToday] = await Promise.all([
-      prisma.job.count({ where: { status: "pending" } }),
-      prisma.job.count({ where: { status: "processing" } }),
-      prisma.job.count({ where: { status: "failed" } }),
-      prisma.job.count({
+    const [queues, statusCounts, completedCounts] = await Promise.all([
+      loadQueues(),
+      prisma.job.groupBy({
+        by: ["queue", "status"],
+        where: { status: { in: ["pending", "processing", "failed"] } },
+        _count: { _all: true },
+      }),
+      prisma.job.groupBy({
+        by: ["queue"],
         where: {
           status: "completed",
           updatedAt: {
@@ -35,10 +43,24 @@ router.get("/status", async (req: Request, res: Response, next: NextFunction): P
             lt: endOfDay,
           },
         },
+        _count: { _all: true },
       }),
     ]);
 
-    const workerStatus = getWorkerStatus();
+    const workerStatus = await getWorkerStatus();
+    const countFor = (status: string, queue?: string): number =>
+      statusCounts
+        .filter((row) => row.status === status && (queue === undefined || row.queue === queue))
+        .reduce((sum, row) => sum + row._count._all, 0);
+    const completedFor = (queue?: string): number =>
+      completedCounts
+        .filter((row) => queue === undefined || row.queue === queue)
+        .reduce((sum, row) => sum + row._count._all, 0);
+
+    const pendingCount = countFor("pending");
+    const processingCount = countFor("processing");
+    const failedCount = countFor("failed");
+    const completedToday = completedFor();
 
     createChildLogger({
       requestId: req.requestId,
@@ -58,6 +80,17 @@ router.get("/status", async (req: Request, res: Response, next: NextFunction): P
         failedCount,
         currentWorkers: workerStatus.currentWorkers,
         maxConcurrent: workerStatus.maxConcurrent,
+        workerId: workerStatus.workerId,
+        workers: workerStatus.workers,
+        queues: queues.map((queue) => ({
+          ...queue,
+          running: workerStatus.runningByQueue[queue.name] ?? 0,
+          pendingCount: countFor("pending", queue.name),
+          processingCount: countFor("processing", queue.name),
+          completedToday: completedFor(queue.name),
+          failedCount: countFor("failed", queue.name),
+        })),
+        circuitBreakers: getCircuitBreakers(),
       },
     });
   } catch (error) {
@@ -65,4 +98,39 @@ router.get("/status", async (req: Request, res: Response, next: NextFunction): P
   }
 });
 
+// POST /queue/circuit-breakers/:host/reset - close a host's breaker immediately
+router.post(
+  "/circuit-breakers/:host/reset",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = circuitBreakerHostParamSchema.parse(req.params);
+
+      if (!resetCircuitBreaker(params.host)) {
+        throw new NotFoundError("No circuit breaker is tracked for this host");
+      }
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        host: params.host,
+      }).info("circuit_breaker.reset");
+      // Jobs held back by the breaker are claimable again
+      wakeWorker();
+
+      res.json({
+        success: true,
+        data: {
+          message: "Circuit breaker reset",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
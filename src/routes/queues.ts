@@ -0,0 +1,317 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { prisma } from "../lib/db.js";
+import { createChildLogger } from "../lib/logger.js";
+import {
+  defaultQueueName,
+  implicitDefaultQueue,
+  loadQueues,
+  queueSettingsSelect,
+  type QueueSettings,
+} from "../lib/queues.js";
+import { wakeWorker } from "../lib/worker.js";
+import { authMiddleware, requireRole } from "../middleware/auth.js";
+import { createQueueSchema, queueNameParamSchema, updateQueueSchema } from "../lib/schemas.js";
+import { NotFoundError, AuthenticationError, ConflictError } from "../lib/errors.js";
+
+const router = Router();
+
+// All routes require authentication; changes require the admin role
+router.use(authMiddleware);
+
+/**
+ * Load a queue by name.  "default" resolves to its implicit settings until
+ * it has been configured.
+ */
+async function findQueue(name: string): Promise<QueueSettings> {
+  const queue = await prisma.queue.findUnique({
+    select: queueSettingsSelect,
+    where: { name },
+  });
+
+  if (queue) {
+    return queue;
+  }
+
+  if (name === defaultQueueName) {
+    return implicitDefaultQueue();
+  }
+
+  throw new NotFoundError("Queue not found");
+}
+
+/**
+ * Persist new settings for a queue, creating the row for the implicit default queue.
+ */
+async function saveQueue(
+  queue: QueueSettings,
+  data: Partial<Omit<QueueSettings, "name">>
+): Promise<QueueSettings> {
+  return prisma.queue.upsert({
+    select: queueSettingsSelect,
+    where: { name: queue.name },
+    create: { ...queue, ...data },
+    update: data,
+  });
+}
+
+// POST /queues - create a named queue
+router.post(
+  "/",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const validatedData = createQueueSchema.parse(req.body);
+
+      // The default queue always exists; it is configured through PATCH
+      const existing = await prisma.queue.findUnique({ where: { name: validatedData.name } });
+
+      if (existing || validatedData.name === defaultQueueName) {
+        throw new ConflictError(`Queue ${validatedData.name} already exists`);
+      }
+
+      const queue = await prisma.queue.create({
+        select: queueSettingsSelect,
+        data: validatedData,
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        queue: queue.name,
+        concurrency: queue.concurrency,
+        weight: queue.weight,
+      }).info("queue.created");
+
+      res.status(201).json({
+        success: true,
+        data: {
+          queue,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /queues - list all queues, including the default queue
+router.get("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const queues = await loadQueues();
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      count: queues.length,
+    }).info("queues.listed");
+
+    res.json({
+      success: true,
+      data: {
+        queues,
+        count: queues.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /queues/:name - get a single queue
+router.get("/:name", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const params = queueNameParamSchema.parse(req.params);
+    const queue = await findQueue(params.name);
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      queue: queue.name,
+    }).info("queue.fetched");
+
+    res.json({
+      success: true,
+      data: {
+        queue,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /queues/:name - change concurrency or weight
+router.patch(
+  "/:name",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = queueNameParamSchema.parse(req.params);
+      const validatedData = updateQueueSchema.parse(req.body);
+      const queue = await saveQueue(await findQueue(params.name), validatedData);
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        queue: queue.name,
+        concurrency: queue.concurrency,
+        weight: queue.weight,
+      }).info("queue.updated");
+
+      res.json({
+        success: true,
+        data: {
+          queue,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /queues/:name/pause - stop claiming jobs from the queue
+router.post(
+  "/:name/pause",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = queueNameParamSchema.parse(req.params);
+      const queue = await findQueue(params.name);
+
+      if (queue.paused) {
+        throw new ConflictError("Queue is already paused");
+      }
+
+      // Jobs already processing run to completion
+      const updatedQueue = await saveQueue(queue, { paused: true });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        queue: updatedQueue.name,
+      }).info("queue.paused");
+
+      res.json({
+        success: true,
+        data: {
+          queue: updatedQueue,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /queues/:name/resume - claim jobs from the queue again
+router.post(
+  "/:name/resume",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = queueNameParamSchema.parse(req.params);
+      const queue = await findQueue(params.name);
+
+      if (!queue.paused) {
+        throw new ConflictError("Queue is not paused");
+      }
+
+      const updatedQueue = await saveQueue(queue, { paused: false });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        queue: updatedQueue.name,
+      }).info("queue.resumed");
+      wakeWorker();
+
+      res.json({
+        success: true,
+        data: {
+          queue: updatedQueue,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /queues/:name - delete an empty queue
+router.delete(
+  "/:name",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = queueNameParamSchema.parse(req.params);
+
+      if (params.name === defaultQueueName) {
+        throw new ConflictError("The default queue cannot be deleted");
+      }
+
+      const queue = await findQueue(params.name);
+
+      await prisma.$transaction(async (tx) => {
+        const activeJobs = await tx.job.count({
+          where: { queue: queue.name, status: { in: ["pending", "processing"] } },
+        });
+
+        if (activeJobs > 0) {
+          throw new ConflictError(
+            `Queue ${queue.name} still has ${activeJobs} pending or processing jobs`
+          );
+        }
+
+        await tx.queue.delete({
+          where: { name: queue.name },
+        });
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        queue: queue.name,
+      }).info("queue.deleted");
+
+      res.json({
+        success: true,
+        data: {
+          message: "Queue deleted",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,206 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { prisma } from "../lib/db.js";
+import { createChildLogger } from "../lib/logger.js";
+import { rateLimitRuleSelect, type RateLimitRule } from "../lib/rateLimits.js";
+import { authMiddleware, requireRole } from "../middleware/auth.js";
+import {
+  createRateLimitSchema,
+  rateLimitKeyParamSchema,
+  updateRateLimitSchema,
+} from "../lib/schemas.js";
+import { NotFoundError, AuthenticationError, ConflictError } from "../lib/errors.js";
+
+const router = Router();
+
+// All routes require authentication; changes require the admin role
+router.use(authMiddleware);
+
+async function findRateLimit(key: string): Promise<RateLimitRule> {
+  const rateLimit = await prisma.rateLimit.findUnique({
+    select: rateLimitRuleSelect,
+    where: { key },
+  });
+
+  if (!rateLimit) {
+    throw new NotFoundError("Rate limit not found");
+  }
+
+  return rateLimit;
+}
+
+// POST /rate-limits - limit requests to a host or rateLimitKey
+router.post(
+  "/",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const validatedData = createRateLimitSchema.parse(req.body);
+
+      const existing = await prisma.rateLimit.findUnique({ where: { key: validatedData.key } });
+
+      if (existing) {
+        throw new ConflictError(`Rate limit for ${validatedData.key} already exists`);
+      }
+
+      const rateLimit = await prisma.rateLimit.create({
+        select: rateLimitRuleSelect,
+        data: validatedData,
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        rateLimitKey: rateLimit.key,
+        limit: rateLimit.limit,
+        intervalMs: rateLimit.intervalMs,
+      }).info("rate_limit.created");
+
+      res.status(201).json({
+        success: true,
+        data: {
+          rateLimit,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /rate-limits - list all rate limits
+router.get("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const rateLimits = await prisma.rateLimit.findMany({
+      select: rateLimitRuleSelect,
+      orderBy: { key: "asc" },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      count: rateLimits.length,
+    }).info("rate_limits.listed");
+
+    res.json({
+      success: true,
+      data: {
+        rateLimits,
+        count: rateLimits.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /rate-limits/:key - get a single rate limit
+router.get("/:key", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const params = rateLimitKeyParamSchema.parse(req.params);
+    const rateLimit = await findRateLimit(params.key);
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      rateLimitKey: rateLimit.key,
+    }).info("rate_limit.fetched");
+
+    res.json({
+      success: true,
+      data: {
+        rateLimit,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /rate-limits/:key - change the limit or interval
+router.patch(
+  "/:key",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = rateLimitKeyParamSchema.parse(req.params);
+      const validatedData = updateRateLimitSchema.parse(req.body);
+      await findRateLimit(params.key);
+
+      const rateLimit = await prisma.rateLimit.update({
+        select: rateLimitRuleSelect,
+        where: { key: params.key },
+        data: validatedData,
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        rateLimitKey: rateLimit.key,
+        limit: rateLimit.limit,
+        intervalMs: rateLimit.intervalMs,
+      }).info("rate_limit.updated");
+
+      res.json({
+        success: true,
+        data: {
+          rateLimit,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /rate-limits/:key - stop limiting the key
+router.delete(
+  "/:key",
+  requireRole("admin"),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = rateLimitKeyParamSchema.parse(req.params);
+      const rateLimit = await findRateLimit(params.key);
+
+      await prisma.rateLimit.delete({
+        where: { key: rateLimit.key },
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        rateLimitKey: rateLimit.key,
+      }).info("rate_limit.deleted");
+
+      res.json({
+        success: true,
+        data: {
+          message: "Rate limit deleted",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,247 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { prisma } from "../lib/db.js";
+import { createChildLogger } from "../lib/logger.js";
+import { assertBodyWithinQuota } from "../lib/quotas.js";
+import { computeNextFireAt } from "../lib/scheduler.js";
+import { authMiddleware, requireJobScope } from "../middleware/auth.js";
+import { createScheduleSchema, scheduleIdParamSchema } from "../lib/schemas.js";
+import { NotFoundError, AuthenticationError, ConflictError } from "../lib/errors.js";
+import type { Schedule } from "../generated/prisma/client.js";
+
+const router = Router();
+
+// All routes require authentication; API keys also need the jobs:read or jobs:write scope
+router.use(authMiddleware, requireJobScope);
+
+/**
+ * Load a schedule by id, hiding schedules owned by other users behind a 404.
+ */
+async function findOwnedSchedule(id: string, userId: string): Promise<Schedule> {
+  const schedule = await prisma.schedule.findUnique({
+    where: { id },
+  });
+
+  if (!schedule || schedule.userId !== userId) {
+    throw new NotFoundError("Schedule not found");
+  }
+
+  return schedule;
+}
+
+// POST /schedules - create a recurring schedule
+router.post("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const validatedData = createScheduleSchema.parse(req.body);
+    // Every fire copies the body into a job, so it is held to the same limit
+    assertBodyWithinQuota(validatedData.body, "Schedule body");
+
+    const schedule = await prisma.schedule.create({
+      data: {
+        name: validatedData.name,
+        cronExpression: validatedData.cronExpression,
+        catchUp: validatedData.catchUp,
+        priority: validatedData.priority,
+        method: validatedData.method,
+        url: validatedData.url,
+        headers: validatedData.headers,
+        body: validatedData.body,
+        nextFireAt: computeNextFireAt(validatedData.cronExpression),
+        userId: req.userId,
+      },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      scheduleId: schedule.id,
+      cronExpression: schedule.cronExpression,
+      nextFireAt: schedule.nextFireAt.toISOString(),
+    }).info("schedule.created");
+
+    res.status(201).json({
+      success: true,
+      data: {
+        schedule,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /schedules - list user's schedules
+router.get("/", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const schedules = await prisma.schedule.findMany({
+      where: { userId: req.userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      count: schedules.length,
+    }).info("schedules.listed");
+
+    res.json({
+      success: true,
+      data: {
+        schedules,
+        count: schedules.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /schedules/:id - get a single schedule
+router.get("/:id", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const params = scheduleIdParamSchema.parse(req.params);
+    const schedule = await findOwnedSchedule(params.id, req.userId);
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      scheduleId: schedule.id,
+    }).info("schedule.fetched");
+
+    res.json({
+      success: true,
+      data: {
+        schedule,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /schedules/:id/pause - stop materialising jobs
+router.post(
+  "/:id/pause",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = scheduleIdParamSchema.parse(req.params);
+      const schedule = await findOwnedSchedule(params.id, req.userId);
+
+      if (schedule.paused) {
+        throw new ConflictError("Schedule is already paused");
+      }
+
+      const updatedSchedule = await prisma.schedule.update({
+        where: { id: schedule.id },
+        data: { paused: true },
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        scheduleId: updatedSchedule.id,
+      }).info("schedule.paused");
+
+      res.json({
+        success: true,
+        data: {
+          schedule: updatedSchedule,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /schedules/:id/resume - resume from the next occurrence after now
+router.post(
+  "/:id/resume",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AuthenticationError("User ID not found in request");
+      }
+
+      const params = scheduleIdParamSchema.parse(req.params);
+      const schedule = await findOwnedSchedule(params.id, req.userId);
+
+      if (!schedule.paused) {
+        throw new ConflictError("Schedule is not paused");
+      }
+
+      // Occurrences that fell inside the pause are intentionally not caught up.
+      const updatedSchedule = await prisma.schedule.update({
+        where: { id: schedule.id },
+        data: {
+          paused: false,
+          nextFireAt: computeNextFireAt(schedule.cronExpression),
+        },
+      });
+
+      createChildLogger({
+        requestId: req.requestId,
+        userId: req.userId,
+        scheduleId: updatedSchedule.id,
+        nextFireAt: updatedSchedule.nextFireAt.toISOString(),
+      }).info("schedule.resumed");
+
+      res.json({
+        success: true,
+        data: {
+          schedule: updatedSchedule,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /schedules/:id - delete a schedule (jobs it already created are kept)
+router.delete("/:id", async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.userId) {
+      throw new AuthenticationError("User ID not found in request");
+    }
+
+    const params = scheduleIdParamSchema.parse(req.params);
+    const schedule = await findOwnedSchedule(params.id, req.userId);
+
+    await prisma.schedule.delete({
+      where: { id: schedule.id },
+    });
+
+    createChildLogger({
+      requestId: req.requestId,
+      userId: req.userId,
+      scheduleId: schedule.id,
+    }).info("schedule.deleted");
+
+    res.json({
+      success: true,
+      data: {
+        message: "Schedule deleted",
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,26 @@
+import { connectDatabase, disconnectDatabase } from "../lib/db.js";
+import { logger } from "../lib/logger.js";
+import { promoteToAdmin } from "../lib/users.js";
+
+// Usage: npm run admin:promote -- <email>
+async function main(email: string | undefined): Promise<void> {
+  if (!email) {
+    logger.error("Usage: npm run admin:promote -- <email>");
+    process.exitCode = 1;
+    return;
+  }
+
+  await connectDatabase();
+
+  try {
+    const user = await promoteToAdmin(email);
+    logger.info({ userId: user.id, email: user.email }, "user.promoted");
+  } catch (error) {
+    logger.error({ err: error, email }, "user.promote_failed");
+    process.exitCode = 1;
+  } finally {
+    await disconnectDatabase();
+  }
+}
+
+void main(process.argv[2]);
@@ -1,9 +1,16 @@
 import "express";
+import type { ApiKeyScope, UserRole } from "../lib/schemas.js";
 
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
+      userRole?: UserRole;
+      // Session of the access token, when it was issued for one
+      sessionId?: string;
+      // Set when the request authenticated with an API key instead of a JWT
+      apiKeyId?: string;
+      apiKeyScopes?: ApiKeyScope[];
       requestId?: string;
     }
   }